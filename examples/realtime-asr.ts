@@ -4,6 +4,7 @@
  * Usage:
  *   npx ts-node examples/realtime-asr.ts -f test.pcm
  *   node examples/realtime-asr.js -f test.pcm -e 16k_zh -c 2
+ *   node examples/realtime-asr.js -f test.pcm -c 20 -m 5   # 20 sessions, at most 5 at once
  *
  * Prerequisites:
  *   1. Get Tencent Cloud APPID: https://console.cloud.tencent.com/cam/capi
@@ -16,6 +17,7 @@ import * as fs from "fs";
 import { parseArgs } from "util";
 import {
   Credential,
+  RecognizerPool,
   SpeechRecognizer,
   SpeechRecognitionListener,
   SpeechRecognitionResponse,
@@ -27,8 +29,6 @@ const APP_ID = 0; // Tencent Cloud APPID
 const SDK_APP_ID = 0; // TRTC application ID (e.g., 1400188366)
 const SECRET_KEY = ""; // TRTC SDK secret key
 
-const SLICE_SIZE = 6400; // bytes per audio chunk (200ms for 16kHz 16bit mono PCM)
-
 class MyListener implements SpeechRecognitionListener {
   constructor(private id: number) {}
 
@@ -77,36 +77,34 @@ async function processAudio(
   id: number,
   filePath: string,
   engine: string,
+  pool: RecognizerPool,
 ): Promise<void> {
   const credential = new Credential(APP_ID, SDK_APP_ID, SECRET_KEY);
   const listener = new MyListener(id);
   const recognizer = new SpeechRecognizer(credential, engine, listener);
 
   try {
-    await recognizer.start();
+    await pool.runRecognizer(recognizer, async (r) => {
+      try {
+        await r.start();
+      } catch (err) {
+        console.error(`[${id}] Start failed: ${err}`);
+        return;
+      }
+
+      // Sends 200ms frames in real time and stops the session at end of file.
+      try {
+        await r.streamFile(filePath);
+      } catch (err) {
+        console.error(`[${id}] Stream error: ${err}`);
+      }
+    });
   } catch (err) {
-    console.error(`[${id}] Start failed: ${err}`);
+    // Queue timeout or pool shut down before the session started.
+    console.error(`[${id}] Not started: ${err}`);
     return;
   }
 
-  const fileData = fs.readFileSync(filePath);
-  for (let offset = 0; offset < fileData.length; offset += SLICE_SIZE) {
-    const chunk = fileData.subarray(offset, offset + SLICE_SIZE);
-    try {
-      await recognizer.write(Buffer.from(chunk));
-    } catch (err) {
-      console.error(`[${id}] Write error: ${err}`);
-      break;
-    }
-    await sleep(200);
-  }
-
-  try {
-    await recognizer.stop();
-  } catch (err) {
-    console.error(`[${id}] Stop error: ${err}`);
-  }
-
   console.log(`[${id}] Processing complete.`);
 }
 
@@ -116,6 +114,7 @@ async function main(): Promise<void> {
       file: { type: "string", short: "f", default: "test.pcm" },
       engine: { type: "string", short: "e", default: "16k_zh_en" },
       concurrency: { type: "string", short: "c", default: "1" },
+      "max-concurrent": { type: "string", short: "m" },
       loop: { type: "boolean", short: "l", default: false },
     },
   });
@@ -123,6 +122,10 @@ async function main(): Promise<void> {
   const filePath = values.file!;
   const engine = values.engine!;
   const concurrency = parseInt(values.concurrency!, 10);
+  const maxConcurrent = parseInt(
+    values["max-concurrent"] ?? values.concurrency!,
+    10,
+  );
   const loop = values.loop!;
 
   if (!APP_ID || !SDK_APP_ID || !SECRET_KEY) {
@@ -146,13 +149,17 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Ctrl+C / SIGTERM stops live sessions cleanly before exiting.
+  const pool = new RecognizerPool({ maxConcurrent });
+  pool.shutdownOnSignal();
+
   do {
     const tasks = Array.from({ length: concurrency }, (_, i) =>
-      processAudio(i, filePath, engine),
+      processAudio(i, filePath, engine, pool),
     );
     await Promise.all(tasks);
-    if (loop) await sleep(1000);
-  } while (loop);
+    if (loop && !pool.isShutdown) await sleep(1000);
+  } while (loop && !pool.isShutdown);
 }
 
 main().catch(console.error);
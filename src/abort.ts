@@ -0,0 +1,78 @@
+/**
+ * AbortSignal support shared by the recognizers.
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+
+/** Options of a cancellable operation. */
+export interface AbortOptions {
+  /** Aborting rejects the operation with CANCELLED. */
+  signal?: AbortSignal;
+}
+
+/** The CANCELLED error for an aborted signal, carrying its reason. */
+export function cancelledError(signal?: AbortSignal): ASRError {
+  const reason = signal?.reason;
+  const detail =
+    reason instanceof Error ? reason.message : reason === undefined ? "" : String(reason);
+  return new ASRError(
+    ErrorCode.CANCELLED,
+    detail ? `operation cancelled: ${detail}` : "operation cancelled",
+  );
+}
+
+/** Throw the CANCELLED error if the signal has aborted. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw cancelledError(signal);
+}
+
+/** Run `handler` once the signal aborts; returns a function removing it. */
+export function onAbort(
+  signal: AbortSignal | undefined,
+  handler: () => void,
+): () => void {
+  if (!signal) return () => undefined;
+  signal.addEventListener("abort", handler, { once: true });
+  return () => signal.removeEventListener("abort", handler);
+}
+
+/** Settle like `promise`, or reject with CANCELLED as soon as the signal aborts. */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      promise.catch(() => undefined);
+      reject(cancelledError(signal));
+      return;
+    }
+    const remove = onAbort(signal, () => reject(cancelledError(signal)));
+    promise.then(
+      (value) => {
+        remove();
+        resolve(value);
+      },
+      (err) => {
+        remove();
+        reject(err);
+      },
+    );
+  });
+}
+
+/** Wait `ms`; aborting clears the timer and rejects with CANCELLED. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError(signal));
+      return;
+    }
+    const remove = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(cancelledError(signal));
+    });
+    const timer = setTimeout(() => {
+      remove();
+      resolve();
+    }, ms);
+  });
+}
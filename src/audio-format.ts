@@ -0,0 +1,39 @@
+/**
+ * Audio format helpers shared by the real-time recognizer.
+ */
+
+import { engineCatalog } from "./engines";
+
+/** Real-time voice_format values accepted by the asr/v2 protocol. */
+export const VoiceFormat = {
+  PCM: 1,
+  SPEEX: 4,
+  SILK: 6,
+  MP3: 8,
+  OPUS: 10,
+  WAV: 12,
+  M4A: 14,
+  AAC: 16,
+} as const;
+
+/** Bytes per sample of the 16-bit PCM expected by the service. */
+export const PCM_SAMPLE_BYTES = 2;
+
+/**
+ * Sample rate (Hz) of an engine model type such as "8k_zh": the catalog's,
+ * or implied by the name prefix for unregistered models.
+ */
+export function sampleRateForEngine(engineModelType: string): number {
+  const model = engineCatalog.get(engineModelType);
+  if (model) return model.sampleRate;
+  return engineModelType.startsWith("8k_") ? 8000 : 16000;
+}
+
+/**
+ * Number of bytes per millisecond of 16-bit mono PCM at the given sample
+ * rate, or 0 when the voice format is not raw PCM.
+ */
+export function pcmBytesPerMs(voiceFormat: number, sampleRate: number): number {
+  if (voiceFormat !== VoiceFormat.PCM) return 0;
+  return (sampleRate * PCM_SAMPLE_BYTES) / 1000;
+}
@@ -0,0 +1,282 @@
+/**
+ * Framers that cut compressed audio on codec frame boundaries for the
+ * real-time recognizer and report the playback time of each frame.
+ *
+ * Usage:
+ *   const recognizer = new SpeechRecognizer(credential, "16k_zh", {
+ *     framer: new Mp3Framer(),
+ *   });
+ *   await recognizer.start();
+ *   await recognizer.streamFile("speech.mp3"); // paced by frame duration
+ */
+
+import { AudioFrame, DEFAULT_FRAME_MS } from "./audio-pacer";
+import { VoiceFormat } from "./audio-format";
+import { ASRError, ErrorCode } from "./errors";
+
+/**
+ * Splits an encoded byte stream into whole frames. Input may be cut
+ * anywhere; incomplete frames are held until the rest arrives.
+ */
+export interface AudioFramer {
+  /** voice_format the frames are sent with. */
+  readonly voiceFormat: number;
+  /** Feed bytes; returns the frames they complete. */
+  push(chunk: Buffer): AudioFrame[];
+  /** Discard held input, e.g. before a new session. */
+  reset(): void;
+}
+
+/** Codec carried in an Ogg stream. */
+export type OggCodec = "opus" | "speex";
+
+/** Options for SpeexFramer. */
+export interface SpeexFramerOptions {
+  /** Encoded size of one frame in bytes; constant for CBR Speex. */
+  frameBytes: number;
+  /** Playback time of one frame in ms (default 20). */
+  frameMs?: number;
+}
+
+const OGG_HEADER_BYTES = 27;
+/** Granule positions of Ogg Opus count 48kHz samples. */
+const OPUS_GRANULE_RATE = 48000;
+
+/**
+ * Ogg-Opus or Ogg-Speex. Each page is a frame; its duration is the
+ * granule position advance. Header pages have no duration.
+ */
+export class OggFramer implements AudioFramer {
+  readonly voiceFormat: number;
+  private buf: Buffer = Buffer.alloc(0);
+  private granule = 0;
+  private granuleRate: number;
+
+  constructor(readonly codec: OggCodec = "opus") {
+    if (codec !== "opus" && codec !== "speex") {
+      throw new ASRError(ErrorCode.INVALID_PARAM, `invalid ogg codec: ${codec}`);
+    }
+    this.voiceFormat = codec === "opus" ? VoiceFormat.OPUS : VoiceFormat.SPEEX;
+    // Ogg-Speex streams announce their rate in the header page.
+    this.granuleRate = codec === "opus" ? OPUS_GRANULE_RATE : 16000;
+  }
+
+  push(chunk: Buffer): AudioFrame[] {
+    this.buf = this.buf.length > 0 ? Buffer.concat([this.buf, chunk]) : chunk;
+    const frames: AudioFrame[] = [];
+    while (this.buf.length >= OGG_HEADER_BYTES) {
+      if (this.buf.toString("latin1", 0, 4) !== "OggS" || this.buf[4] !== 0) {
+        this.resync();
+        throw new ASRError(ErrorCode.INVALID_PARAM, "invalid ogg page");
+      }
+      const segments = this.buf[26];
+      const bodyOffset = OGG_HEADER_BYTES + segments;
+      if (this.buf.length < bodyOffset) break;
+      let size = bodyOffset;
+      for (let i = 0; i < segments; i++) size += this.buf[OGG_HEADER_BYTES + i];
+      if (this.buf.length < size) break;
+
+      const page = this.buf.subarray(0, size);
+      this.buf = this.buf.subarray(size);
+      frames.push({ data: page, durationMs: this.pageDuration(page, bodyOffset) });
+    }
+    this.buf = Buffer.from(this.buf);
+    return frames;
+  }
+
+  reset(): void {
+    this.buf = Buffer.alloc(0);
+    this.granule = 0;
+  }
+
+  /**
+   * Drop bytes up to the next capture pattern, keeping a trailing partial
+   * one, so the stream recovers after a corrupt page.
+   */
+  private resync(): void {
+    let next = this.buf.indexOf("OggS", 1, "latin1");
+    if (next < 0) {
+      next = Math.max(1, this.buf.length - 3);
+      while (next < this.buf.length && !"OggS".startsWith(this.buf.toString("latin1", next))) {
+        next++;
+      }
+    }
+    this.buf = Buffer.from(this.buf.subarray(next));
+  }
+
+  private pageDuration(page: Buffer, bodyOffset: number): number {
+    const beginOfStream = (page[5] & 0x02) !== 0;
+    if (
+      beginOfStream &&
+      this.codec === "speex" &&
+      page.toString("latin1", bodyOffset, bodyOffset + 8) === "Speex   "
+    ) {
+      this.granuleRate = page.readUInt32LE(bodyOffset + 36);
+    }
+    // -1 marks a page on which no packet ends.
+    const granule = page.readBigInt64LE(6);
+    if (granule < BigInt(0)) return 0;
+    const position = Number(granule);
+    const ms = (Math.max(0, position - this.granule) * 1000) / this.granuleRate;
+    this.granule = position;
+    return ms;
+  }
+}
+
+/** Raw constant-bitrate Speex, cut into frames of `frameBytes`. */
+export class SpeexFramer implements AudioFramer {
+  readonly voiceFormat = VoiceFormat.SPEEX;
+  private readonly frameBytes: number;
+  private readonly frameMs: number;
+  private buf: Buffer = Buffer.alloc(0);
+
+  constructor(options: SpeexFramerOptions) {
+    if (!Number.isInteger(options?.frameBytes) || options.frameBytes <= 0) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `invalid speex frameBytes: ${options?.frameBytes}`,
+      );
+    }
+    this.frameBytes = options.frameBytes;
+    this.frameMs = options.frameMs ?? 20;
+    if (!(this.frameMs > 0)) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, `invalid speex frameMs: ${this.frameMs}`);
+    }
+  }
+
+  push(chunk: Buffer): AudioFrame[] {
+    this.buf = this.buf.length > 0 ? Buffer.concat([this.buf, chunk]) : chunk;
+    const frames: AudioFrame[] = [];
+    while (this.buf.length >= this.frameBytes) {
+      frames.push({ data: this.buf.subarray(0, this.frameBytes), durationMs: this.frameMs });
+      this.buf = this.buf.subarray(this.frameBytes);
+    }
+    this.buf = Buffer.from(this.buf);
+    return frames;
+  }
+
+  reset(): void {
+    this.buf = Buffer.alloc(0);
+  }
+}
+
+/** Layer III bitrates in kbps by MPEG-1 and MPEG-2/2.5 bitrate index. */
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+/** Sample rates by version bits (3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5). */
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+/**
+ * MPEG audio Layer III. ID3v2 tags are skipped, and bytes that do not
+ * start a valid frame header are dropped until the next frame.
+ */
+export class Mp3Framer implements AudioFramer {
+  readonly voiceFormat = VoiceFormat.MP3;
+  private buf: Buffer = Buffer.alloc(0);
+  private skip = 0;
+
+  push(chunk: Buffer): AudioFrame[] {
+    this.buf = this.buf.length > 0 ? Buffer.concat([this.buf, chunk]) : chunk;
+    const frames: AudioFrame[] = [];
+    for (;;) {
+      if (this.skip > 0) {
+        const n = Math.min(this.skip, this.buf.length);
+        this.buf = this.buf.subarray(n);
+        this.skip -= n;
+        if (this.skip > 0) break;
+      }
+      if (this.buf.length < 4) break;
+
+      if (this.buf.toString("latin1", 0, 3) === "ID3") {
+        if (this.buf.length < 10) break;
+        // Syncsafe size of the tag body, plus the header and any footer.
+        const size =
+          ((this.buf[6] & 0x7f) << 21) |
+          ((this.buf[7] & 0x7f) << 14) |
+          ((this.buf[8] & 0x7f) << 7) |
+          (this.buf[9] & 0x7f);
+        this.skip = 10 + size + (this.buf[5] & 0x10 ? 10 : 0);
+        continue;
+      }
+
+      const header = parseMp3Header(this.buf);
+      if (!header) {
+        const next = this.buf.indexOf(0xff, 1);
+        this.buf = this.buf.subarray(next < 0 ? this.buf.length : next);
+        continue;
+      }
+      if (this.buf.length < header.length) break;
+      frames.push({
+        data: this.buf.subarray(0, header.length),
+        durationMs: (header.samples * 1000) / header.sampleRate,
+      });
+      this.buf = this.buf.subarray(header.length);
+    }
+    this.buf = Buffer.from(this.buf);
+    return frames;
+  }
+
+  reset(): void {
+    this.buf = Buffer.alloc(0);
+    this.skip = 0;
+  }
+}
+
+function parseMp3Header(
+  buf: Buffer,
+): { length: number; samples: number; sampleRate: number } | null {
+  if (buf[0] !== 0xff || (buf[1] & 0xe0) !== 0xe0) return null;
+  const version = (buf[1] >> 3) & 0x03;
+  const layer = (buf[1] >> 1) & 0x03;
+  const bitrateIndex = buf[2] >> 4;
+  const sampleRateIndex = (buf[2] >> 2) & 0x03;
+  // Version 1 is reserved; layer 1 in the header means Layer III.
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15) {
+    return null;
+  }
+  if (sampleRateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const samples = mpeg1 ? 1152 : 576;
+  const padding = (buf[2] >> 1) & 0x01;
+  return {
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    samples,
+    sampleRate,
+  };
+}
+
+/**
+ * Frame `source` with `framer` and group consecutive frames into chunks
+ * of at least `frameMs` of audio.
+ */
+export async function* encodedFrames(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+  framer: AudioFramer,
+  frameMs: number = DEFAULT_FRAME_MS,
+): AsyncGenerator<AudioFrame> {
+  let batch: Buffer[] = [];
+  let batchMs = 0;
+  for await (const chunk of source) {
+    for (const frame of framer.push(chunk)) {
+      batch.push(frame.data);
+      batchMs += frame.durationMs;
+      if (batchMs >= frameMs) {
+        yield { data: Buffer.concat(batch), durationMs: batchMs };
+        batch = [];
+        batchMs = 0;
+      }
+    }
+  }
+  if (batch.length > 0) {
+    yield { data: Buffer.concat(batch), durationMs: batchMs };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Real-time pacing of audio frames for the streaming recognizer.
+ */
+
+import { promises as fs } from "fs";
+import { AbortOptions, sleep, throwIfAborted } from "./abort";
+import { ASRError, ErrorCode } from "./errors";
+
+/** A chunk of audio and the playback time it represents. */
+export interface AudioFrame {
+  data: Buffer;
+  durationMs: number;
+}
+
+/** Progress reported after each frame is sent. */
+export interface StreamProgress {
+  bytesSent: number;
+  secondsSent: number;
+  /** Total input size in bytes, when known. */
+  totalBytes?: number;
+}
+
+/**
+ * Options for SpeechRecognizer.streamBuffer() and streamFile(). Aborting
+ * `signal` stops sending and rejects with CANCELLED, without stopping the
+ * session.
+ */
+export interface StreamAudioOptions extends AbortOptions {
+  /**
+   * Playback speed multiplier (default 1, i.e. real time). "max" sends
+   * frames as fast as write() completes.
+   */
+  speed?: number | "max";
+  /** Duration of each frame in ms (default 200). */
+  frameMs?: number;
+  /** Frame size in bytes; required when the voice format is not PCM and no framer is set. */
+  frameBytes?: number;
+  /** Call stop() once all input has been sent (default true). */
+  autoStop?: boolean;
+  /** Called after each frame is sent. */
+  onProgress?: (progress: StreamProgress) => void;
+}
+
+/** Default frame duration, matching the service's recommended 200ms. */
+export const DEFAULT_FRAME_MS = 200;
+
+/**
+ * Send frames at `speed` times real time. Each frame is scheduled against
+ * the start time rather than the previous frame, so timer drift and write
+ * latency do not accumulate.
+ */
+export async function paceFrames(
+  frames: Iterable<AudioFrame> | AsyncIterable<AudioFrame>,
+  send: (data: Buffer) => Promise<void>,
+  options: Pick<StreamAudioOptions, "speed" | "onProgress" | "signal"> & {
+    totalBytes?: number;
+  } = {},
+): Promise<StreamProgress> {
+  const speed = options.speed ?? 1;
+  if (speed !== "max" && !(speed > 0)) {
+    throw new ASRError(ErrorCode.INVALID_PARAM, `invalid speed: ${speed}`);
+  }
+
+  const startedAt = Date.now();
+  const progress: StreamProgress = {
+    bytesSent: 0,
+    secondsSent: 0,
+    totalBytes: options.totalBytes,
+  };
+  let audioMs = 0;
+
+  for await (const frame of frames) {
+    throwIfAborted(options.signal);
+    if (speed !== "max") {
+      const due = startedAt + audioMs / speed;
+      const wait = due - Date.now();
+      if (wait > 0) {
+        await sleep(wait, options.signal);
+      }
+    }
+
+    await send(frame.data);
+
+    audioMs += frame.durationMs;
+    progress.bytesSent += frame.data.length;
+    progress.secondsSent = audioMs / 1000;
+    options.onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
+
+/**
+ * Split a buffer into frames of `frameBytes`. `bytesPerMs` gives the exact
+ * duration of a short final frame; when 0, every frame lasts `frameMs`.
+ */
+export function* sliceFrames(
+  data: Buffer,
+  frameBytes: number,
+  frameMs: number,
+  bytesPerMs: number,
+): Generator<AudioFrame> {
+  for (let offset = 0; offset < data.length; offset += frameBytes) {
+    const chunk = data.subarray(offset, offset + frameBytes);
+    yield {
+      data: chunk,
+      durationMs: bytesPerMs > 0 ? chunk.length / bytesPerMs : frameMs,
+    };
+  }
+}
+
+/** Read a file frame by frame without loading it into memory. */
+export async function* readFileFrames(
+  path: string,
+  frameBytes: number,
+  frameMs: number,
+  bytesPerMs: number,
+): AsyncGenerator<AudioFrame> {
+  const handle = await fs.open(path, "r");
+  try {
+    for (;;) {
+      const buf = Buffer.alloc(frameBytes);
+      const { bytesRead } = await handle.read(buf, 0, frameBytes, null);
+      if (bytesRead === 0) break;
+      const chunk = buf.subarray(0, bytesRead);
+      yield {
+        data: chunk,
+        durationMs: bytesPerMs > 0 ? chunk.length / bytesPerMs : frameMs,
+      };
+    }
+  } finally {
+    await handle.close();
+  }
+}
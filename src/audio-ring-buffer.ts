@@ -0,0 +1,82 @@
+/**
+ * Fixed-capacity byte ring buffer that retains the most recent audio.
+ */
+
+/**
+ * Keeps the last `capacity` bytes written to it while tracking the absolute
+ * stream offset, so callers know where the retained audio starts.
+ */
+export class AudioRingBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private total = 0;
+
+  /**
+   * @param capacity - Maximum number of bytes retained
+   * @param alignment - Trim boundary in bytes (e.g. 2 for 16-bit samples)
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly alignment: number = 1,
+  ) {}
+
+  /** Number of bytes currently retained. */
+  get length(): number {
+    return this.size;
+  }
+
+  /** Total number of bytes ever pushed. */
+  get totalBytes(): number {
+    return this.total;
+  }
+
+  /** Absolute stream offset of the first retained byte. */
+  get startOffset(): number {
+    return this.total - this.size;
+  }
+
+  /** Append data, discarding the oldest bytes beyond capacity. */
+  push(data: Buffer): void {
+    this.total += data.length;
+    if (this.capacity <= 0 || data.length === 0) {
+      return;
+    }
+    this.chunks.push(data);
+    this.size += data.length;
+    this.trim();
+  }
+
+  /** Return a copy of the retained bytes. */
+  read(): Buffer {
+    return Buffer.concat(this.chunks, this.size);
+  }
+
+  /** Drop all retained bytes (the total offset is kept). */
+  clear(): void {
+    this.chunks = [];
+    this.size = 0;
+  }
+
+  private trim(): void {
+    if (this.size <= this.capacity) return;
+
+    // Keep the retained window aligned to the absolute stream offset.
+    const excess = this.size - this.capacity;
+    const start = this.startOffset + excess;
+    const aligned = Math.ceil(start / this.alignment) * this.alignment;
+    let drop = aligned - this.startOffset;
+
+    while (drop > 0 && this.chunks.length > 0) {
+      const head = this.chunks[0];
+      if (head.length <= drop) {
+        this.chunks.shift();
+        this.size -= head.length;
+        drop -= head.length;
+      } else {
+        this.chunks[0] = head.subarray(drop);
+        this.size -= drop;
+        drop = 0;
+      }
+    }
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Transcription of dual-channel (stereo) call recordings: each channel is
+ * recognized in its own session and the sentences are merged into one
+ * timeline labelled by speaker.
+ *
+ * Usage:
+ *   // Live: interleaved stereo PCM, e.g. agent left and customer right
+ *   const call = new DualChannelTranscriber(credential, "8k_zh", {
+ *     speakers: ["agent", "customer"],
+ *   });
+ *   call.on("sentence", (s) => console.log(`${s.speaker}: ${s.text}`));
+ *   await call.start();
+ *   await call.write(chunk);
+ *   await call.stop();
+ *
+ *   // Whole file (WAV or raw PCM)
+ *   const transcript = await call.transcribe("call.wav", { speed: "max" });
+ *
+ *   // Short clips with one-sentence recognition
+ *   const sentences = await recognizeStereo(sentenceRecognizer, data, "8k_zh");
+ */
+
+import { createReadStream, promises as fs } from "fs";
+import { AbortOptions } from "./abort";
+import { sampleRateForEngine } from "./audio-format";
+import {
+  AudioFrame,
+  DEFAULT_FRAME_MS,
+  StreamAudioOptions,
+  paceFrames,
+} from "./audio-pacer";
+import { Credential } from "./credential";
+import { ASRError, ErrorCode } from "./errors";
+import { TypedEventEmitter } from "./event-emitter";
+import {
+  PcmConverter,
+  PcmInputFormat,
+  pcmFrameBytes,
+  validatePcmInputFormat,
+} from "./pcm-converter";
+import { SpeechRecognizerOptions } from "./recognizer-options";
+import { SentenceRecognizer } from "./sentence-recognizer";
+import { RecognizerState, SpeechRecognizer } from "./speech-recognizer";
+import {
+  TimedSegment,
+  segmentsFromSentenceResult,
+  segmentsFromTranscript,
+} from "./subtitles";
+import { TranscriptAggregator, TranscriptSentence } from "./transcript-aggregator";
+import { WavReader, wavInputFormat } from "./wav-reader";
+
+/** 0 = left, 1 = right. */
+export type StereoChannel = 0 | 1;
+
+/** A sentence of one channel on the merged timeline. */
+export interface ChannelSentence extends TimedSegment {
+  channel: StereoChannel;
+  speaker: string;
+  /** The other channel has speech at the same time (cross-talk). */
+  overlap: boolean;
+}
+
+/** How the channels are labelled and compared. */
+export interface ChannelMergeOptions {
+  /** Labels of the left and right channels (default ["left", "right"]). */
+  speakers?: [string, string];
+  /** Shared time in ms above which two sentences overlap (default 0). */
+  minOverlapMs?: number;
+}
+
+/** Options for DualChannelTranscriber. */
+export interface DualChannelOptions extends ChannelMergeOptions {
+  /**
+   * Format of the interleaved input; channels must be 2 (default 16-bit
+   * stereo at the engine's sample rate). transcribe() reads it from WAV
+   * headers instead.
+   */
+  inputFormat?: PcmInputFormat;
+  /** Settings of both recognizers; inputFormat is set per channel. */
+  recognizer?: SpeechRecognizerOptions;
+}
+
+/** Options for DualChannelTranscriber.transcribe(). */
+export type DualChannelStreamOptions = Pick<
+  StreamAudioOptions,
+  "speed" | "frameMs" | "onProgress" | "signal"
+>;
+
+/** Options for recognizeStereo(). */
+export interface StereoSentenceOptions extends ChannelMergeOptions, AbortOptions {
+  /** Format of raw PCM input, as for DualChannelOptions; ignored for WAV. */
+  inputFormat?: PcmInputFormat;
+}
+
+/** Events emitted by DualChannelTranscriber. */
+export interface DualChannelEvents {
+  /** A sentence of either channel ended. */
+  sentence: [sentence: ChannelSentence];
+  /** Two sentences of different channels overlap, in start time order. */
+  overlap: [first: ChannelSentence, second: ChannelSentence];
+  /** The session of a channel failed. */
+  fail: [channel: StereoChannel, error: Error];
+}
+
+const DEFAULT_SPEAKERS: [string, string] = ["left", "right"];
+
+/**
+ * Merge the sentences of both channels in start time order and mark those
+ * overlapping a sentence of the other channel.
+ */
+export function mergeChannels(
+  channels: [TimedSegment[], TimedSegment[]],
+  options: ChannelMergeOptions = {},
+): ChannelSentence[] {
+  const speakers = options.speakers ?? DEFAULT_SPEAKERS;
+  const [left, right] = channels.map((segments, channel) =>
+    segments.map(
+      (segment): ChannelSentence => ({
+        ...segment,
+        channel: channel as StereoChannel,
+        speaker: speakers[channel],
+        overlap: false,
+      }),
+    ),
+  );
+  for (const a of left) {
+    for (const b of right) {
+      if (overlaps(a, b, options.minOverlapMs ?? 0)) {
+        a.overlap = b.overlap = true;
+      }
+    }
+  }
+  return [...left, ...right].sort(byStart);
+}
+
+/**
+ * Recognizes stereo call audio with a SpeechRecognizer per channel. Both
+ * sessions run concurrently; "sentence" reports each channel's sentences as
+ * they end and getTranscript() returns the merged timeline.
+ */
+export class DualChannelTranscriber extends TypedEventEmitter<DualChannelEvents> {
+  /** Recognizers of the left and right channels. */
+  readonly recognizers: [SpeechRecognizer, SpeechRecognizer];
+  private readonly speakers: [string, string];
+  private readonly minOverlapMs: number;
+  private inputFormat: PcmInputFormat;
+  private splitter: StereoSplitter;
+  private finals: [ChannelSentence[], ChannelSentence[]] = [[], []];
+  /** First error of each channel's session, reported by transcribe(). */
+  private failures: [Error | null, Error | null] = [null, null];
+  private transcripts: TranscriptAggregator[];
+
+  constructor(
+    credential: Credential,
+    engineModelType: string,
+    options: DualChannelOptions = {},
+  ) {
+    super();
+    this.speakers = options.speakers ?? DEFAULT_SPEAKERS;
+    this.minOverlapMs = options.minOverlapMs ?? 0;
+    this.inputFormat = options.inputFormat ?? {
+      sampleRate: sampleRateForEngine(engineModelType),
+      channels: 2,
+    };
+    checkStereo(this.inputFormat);
+    this.splitter = new StereoSplitter(this.inputFormat);
+
+    const recognizer = (channel: StereoChannel) => {
+      const r = new SpeechRecognizer(credential, engineModelType, {
+        ...options.recognizer,
+        inputFormat: monoFormat(this.inputFormat),
+      });
+      r.on("fail", (_resp, err) => {
+        this.failures[channel] ??= err;
+        this.emit("fail", channel, err);
+      });
+      return r;
+    };
+    this.recognizers = [recognizer(0), recognizer(1)];
+    this.transcripts = this.recognizers.map((r, channel) =>
+      new TranscriptAggregator({ keepRevisions: false })
+        .attach(r)
+        .on("sentenceFinal", (s) => this.onSentence(channel as StereoChannel, s)),
+    );
+  }
+
+  /** Start both sessions; if either fails to start, neither is left running. */
+  async start(options: AbortOptions = {}): Promise<void> {
+    this.failures = [null, null];
+    const results = await Promise.allSettled(
+      this.recognizers.map((r) => r.start(options)),
+    );
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) {
+      this.abandon();
+      throw failed.reason;
+    }
+  }
+
+  /** Send a chunk of interleaved stereo audio; partial frames carry over. */
+  async write(data: Buffer, options: AbortOptions = {}): Promise<void> {
+    const [left, right] = this.splitter.push(data);
+    if (left.length === 0) return;
+    await Promise.all([
+      this.recognizers[0].write(left, options),
+      this.recognizers[1].write(right, options),
+    ]);
+  }
+
+  /** Stop both sessions and wait for their final results. */
+  async stop(options: AbortOptions = {}): Promise<void> {
+    await Promise.all(this.recognizers.map((r) => r.stop(options)));
+  }
+
+  /**
+   * Recognize a whole recording, a file path or buffer holding WAV or raw
+   * PCM, at `speed` times real time, and resolve with the merged transcript.
+   */
+  async transcribe(
+    audio: string | Buffer,
+    options: DualChannelStreamOptions = {},
+  ): Promise<ChannelSentence[]> {
+    if (this.recognizers.some((r) => r.getState() !== RecognizerState.IDLE)) {
+      throw new ASRError(
+        ErrorCode.ALREADY_STARTED,
+        "transcriber already used; call reset() first",
+      );
+    }
+    if (typeof audio === "string") {
+      try {
+        await fs.stat(audio);
+      } catch (err) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `read audio file failed: ${err}`,
+        );
+      }
+    }
+
+    const source = typeof audio === "string" ? createReadStream(audio) : [audio];
+    try {
+      const input = await openStereo(source, this.inputFormat);
+      this.useFormat(input.format);
+      await this.start({ signal: options.signal });
+      await paceFrames(
+        stereoFrames(input.audio, input.format, options.frameMs ?? DEFAULT_FRAME_MS),
+        (chunk) => this.write(chunk, { signal: options.signal }),
+        options,
+      );
+      await this.stop({ signal: options.signal });
+    } catch (err) {
+      this.abandon();
+      // A later write only sees the failed session as not started.
+      throw this.channelError() ?? err;
+    } finally {
+      if (!Array.isArray(source)) source.destroy();
+    }
+    // A session that failed late has still been stopped.
+    const failure = this.channelError();
+    if (failure) throw failure;
+    return this.getTranscript();
+  }
+
+  /** Ended sentences of both channels in start time order. */
+  getTranscript(): ChannelSentence[] {
+    return [...this.finals[0], ...this.finals[1]].sort(byStart);
+  }
+
+  /** Close both sessions and clear the transcript so the transcriber can start again. */
+  reset(): void {
+    for (const r of this.recognizers) r.reset();
+    for (const t of this.transcripts) t.clear();
+    this.finals = [[], []];
+    this.failures = [null, null];
+    this.splitter = new StereoSplitter(this.inputFormat);
+  }
+
+  private onSentence(channel: StereoChannel, ended: TranscriptSentence): void {
+    const [segment] = segmentsFromTranscript([ended]);
+    if (!segment) return;
+    const sentence: ChannelSentence = {
+      ...segment,
+      channel,
+      speaker: this.speakers[channel],
+      overlap: false,
+    };
+    const overlapping = this.finals[channel === 0 ? 1 : 0].filter((other) =>
+      overlaps(sentence, other, this.minOverlapMs),
+    );
+    for (const other of overlapping) other.overlap = true;
+    sentence.overlap = overlapping.length > 0;
+    this.finals[channel].push(sentence);
+
+    this.emit("sentence", sentence);
+    for (const other of overlapping) {
+      const [first, second] = [other, sentence].sort(byStart);
+      this.emit("overlap", first, second);
+    }
+  }
+
+  private useFormat(format: PcmInputFormat): void {
+    this.inputFormat = format;
+    this.splitter = new StereoSplitter(format);
+    for (const r of this.recognizers) r.setInputFormat(monoFormat(format));
+  }
+
+  /** The first channel failure, labelled with its speaker, if any. */
+  private channelError(): ASRError | null {
+    for (const channel of [0, 1] as const) {
+      const err = this.failures[channel];
+      if (err) {
+        return new ASRError(
+          err instanceof ASRError ? err.code : ErrorCode.SERVER_ERROR,
+          `${this.speakers[channel]} channel failed: ${err.message}`,
+        );
+      }
+    }
+    return null;
+  }
+
+  /** Close whichever session is still running after a failure. */
+  private abandon(): void {
+    for (const r of this.recognizers) {
+      if (r.getState() === RecognizerState.RUNNING) r.reset();
+    }
+  }
+}
+
+/**
+ * Recognize short stereo audio (WAV or raw PCM) with one SentenceRecognizer
+ * request per channel, sent concurrently. Each channel yields one sentence.
+ */
+export async function recognizeStereo(
+  recognizer: SentenceRecognizer,
+  audio: Buffer,
+  engineModelType: string,
+  options: StereoSentenceOptions = {},
+): Promise<ChannelSentence[]> {
+  const sampleRate = sampleRateForEngine(engineModelType);
+  const fallback = options.inputFormat ?? { sampleRate, channels: 2 };
+  checkStereo(fallback);
+  const input = await openStereo([audio], fallback);
+
+  const splitter = new StereoSplitter(input.format);
+  const parts: [Buffer[], Buffer[]] = [[], []];
+  for await (const chunk of input.audio) {
+    const [left, right] = splitter.push(chunk);
+    parts[0].push(left);
+    parts[1].push(right);
+  }
+
+  const results = await Promise.all(
+    parts.map((part) => {
+      const converter = new PcmConverter(monoFormat(input.format), sampleRate);
+      const pcm = Buffer.concat([converter.convert(Buffer.concat(part)), converter.flush()]);
+      return recognizer.recognizeData(pcm, "pcm", engineModelType, {
+        signal: options.signal,
+      });
+    }),
+  );
+  return mergeChannels(
+    [segmentsFromSentenceResult(results[0]), segmentsFromSentenceResult(results[1])],
+    options,
+  );
+}
+
+/** Splits interleaved stereo PCM into one buffer per channel. */
+class StereoSplitter {
+  private readonly sampleBytes: number;
+  private pending: Buffer = Buffer.alloc(0);
+
+  constructor(format: PcmInputFormat) {
+    this.sampleBytes = pcmFrameBytes(format) / 2;
+  }
+
+  push(data: Buffer): [Buffer, Buffer] {
+    const input = this.pending.length > 0 ? Buffer.concat([this.pending, data]) : data;
+    const frameBytes = this.sampleBytes * 2;
+    const frames = Math.floor(input.length / frameBytes);
+    this.pending = Buffer.from(input.subarray(frames * frameBytes));
+
+    const left = Buffer.alloc(frames * this.sampleBytes);
+    const right = Buffer.alloc(frames * this.sampleBytes);
+    for (let i = 0; i < frames; i++) {
+      const at = i * frameBytes;
+      input.copy(left, i * this.sampleBytes, at, at + this.sampleBytes);
+      input.copy(right, i * this.sampleBytes, at + this.sampleBytes, at + frameBytes);
+    }
+    return [left, right];
+  }
+}
+
+function checkStereo(format: PcmInputFormat): void {
+  validatePcmInputFormat(format);
+  if ((format.channels ?? 1) !== 2) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `stereo audio required, got ${format.channels ?? 1} channel(s)`,
+    );
+  }
+}
+
+function monoFormat(format: PcmInputFormat): PcmInputFormat {
+  return { ...format, channels: 1 };
+}
+
+function overlaps(a: TimedSegment, b: TimedSegment, minOverlapMs: number): boolean {
+  return Math.min(a.endMs, b.endMs) - Math.max(a.startMs, b.startMs) > minOverlapMs;
+}
+
+function byStart(a: ChannelSentence, b: ChannelSentence): number {
+  return a.startMs - b.startMs || a.channel - b.channel;
+}
+
+/**
+ * Read the format of stereo input: from the header of WAV data, otherwise
+ * `fallback`. `audio` yields the samples.
+ */
+async function openStereo(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+  fallback: PcmInputFormat,
+): Promise<{ format: PcmInputFormat; audio: AsyncGenerator<Buffer> }> {
+  const iterator =
+    Symbol.asyncIterator in source
+      ? (source as AsyncIterable<Buffer>)[Symbol.asyncIterator]()
+      : (source as Iterable<Buffer>)[Symbol.iterator]();
+  const head: Buffer[] = [];
+  let reader: WavReader | null = null;
+
+  let next = await iterator.next();
+  if (!next.done && next.value.toString("latin1", 0, 4) === "RIFF") {
+    reader = new WavReader();
+    while (!next.done) {
+      head.push(reader.push(next.value));
+      if (reader.inData) break;
+      next = await iterator.next();
+    }
+    reader.end();
+  } else if (!next.done) {
+    head.push(next.value);
+  }
+
+  const format = reader ? wavInputFormat(reader.format!) : fallback;
+  checkStereo(format);
+  const wav = reader;
+  async function* audio(): AsyncGenerator<Buffer> {
+    yield* head;
+    for (;;) {
+      const chunk = await iterator.next();
+      if (chunk.done) return;
+      yield wav ? wav.push(chunk.value) : chunk.value;
+    }
+  }
+  return { format, audio: audio() };
+}
+
+/** Re-chunk stereo audio into frames of `frameMs`. */
+async function* stereoFrames(
+  audio: AsyncIterable<Buffer>,
+  format: PcmInputFormat,
+  frameMs: number,
+): AsyncGenerator<AudioFrame> {
+  const sampleFrameBytes = pcmFrameBytes(format);
+  const bytesPerMs = (format.sampleRate * sampleFrameBytes) / 1000;
+  const frameBytes =
+    Math.max(1, Math.round((frameMs * bytesPerMs) / sampleFrameBytes)) * sampleFrameBytes;
+
+  let pending: Buffer = Buffer.alloc(0);
+  for await (const chunk of audio) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    while (pending.length >= frameBytes) {
+      yield { data: pending.subarray(0, frameBytes), durationMs: frameBytes / bytesPerMs };
+      pending = pending.subarray(frameBytes);
+    }
+  }
+  if (pending.length > 0) {
+    yield { data: pending, durationMs: pending.length / bytesPerMs };
+  }
+}
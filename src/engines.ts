@@ -0,0 +1,207 @@
+/**
+ * Catalog of engine models (engine_model_type) and what each supports.
+ *
+ * The recognizers consult the catalog to reject requests a model cannot
+ * serve before anything is sent, and the real-time recognizer takes the
+ * sample rate it resamples to from it. Models missing from the catalog are
+ * passed through unchecked, so newly released models work before they are
+ * registered.
+ *
+ * Usage:
+ *   engineCatalog.register({
+ *     name: "16k_yue",
+ *     sampleRate: 16000,
+ *     languages: ["yue"],
+ *     recognizers: ["realtime", "sentence", "file"],
+ *     voiceFormats: ["pcm", "wav", "mp3"],
+ *   });
+ *   engineCatalog.list({ recognizer: "file", language: "zh" });
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+
+/** The recognizer an engine model is used with. */
+export type RecognizerKind = "realtime" | "sentence" | "file";
+
+export interface EngineModel {
+  /** engine_model_type, e.g. "16k_zh". */
+  name: string;
+  /** Sample rate of the audio the model expects, in Hz. */
+  sampleRate: number;
+  /** Language codes recognized, e.g. ["zh", "en"]. */
+  languages: string[];
+  description?: string;
+  recognizers: RecognizerKind[];
+  /** Accepted voice format names, e.g. "pcm", "wav", "ogg-opus". */
+  voiceFormats: string[];
+  /** Formats of the recognizers whose formats differ from voiceFormats. */
+  recognizerFormats?: Partial<Record<RecognizerKind, string[]>>;
+  /** Most audio channels accepted by file recognition (default 1). */
+  maxChannels?: number;
+}
+
+export interface EngineFilter {
+  recognizer?: RecognizerKind;
+  language?: string;
+}
+
+/** What a request asks of its engine model. */
+export interface EngineRequirements {
+  voiceFormat?: string;
+  channels?: number;
+}
+
+const RECOGNIZER_KINDS: RecognizerKind[] = ["realtime", "sentence", "file"];
+
+/**
+ * Formats of the general models by recognizer, under the names each
+ * recognizer sends ("opus" is Ogg-Opus in real-time requests).
+ */
+const GENERAL_FORMATS: Record<RecognizerKind, string[]> = {
+  realtime: ["pcm", "wav", "opus", "speex", "silk", "mp3", "m4a", "aac"],
+  sentence: ["pcm", "wav", "ogg-opus", "speex", "silk", "mp3", "m4a", "aac", "amr"],
+  file: ["wav", "mp3", "m4a", "flv", "mp4", "wma", "3gp", "amr", "aac", "ogg-opus", "flac"],
+};
+
+/** A model serving all three recognizers with GENERAL_FORMATS. */
+function generalModel(
+  model: Omit<EngineModel, "recognizers" | "voiceFormats" | "recognizerFormats">,
+): EngineModel {
+  const formats = Object.values(GENERAL_FORMATS).flat();
+  return {
+    ...model,
+    recognizers: [...RECOGNIZER_KINDS],
+    voiceFormats: formats.filter((f, i) => formats.indexOf(f) === i),
+    recognizerFormats: { ...GENERAL_FORMATS },
+  };
+}
+
+const BUILTIN_MODELS: EngineModel[] = [
+  generalModel({
+    name: "8k_zh",
+    sampleRate: 8000,
+    languages: ["zh"],
+    description: "中文通用，常用于电话场景",
+    maxChannels: 2,
+  }),
+  generalModel({
+    name: "16k_zh",
+    sampleRate: 16000,
+    languages: ["zh"],
+    description: "中文通用（推荐）",
+  }),
+  generalModel({
+    name: "16k_zh_en",
+    sampleRate: 16000,
+    languages: ["zh", "en"],
+    description: "中英文通用",
+  }),
+];
+
+export class EngineCatalog {
+  private models = new Map<string, EngineModel>();
+
+  constructor(models: EngineModel[] = []) {
+    for (const model of models) this.register(model);
+  }
+
+  /** Add a model, replacing any registered under the same name. */
+  register(model: EngineModel): void {
+    if (!model || typeof model.name !== "string" || model.name === "") {
+      throw new ASRError(ErrorCode.INVALID_PARAM, "engine name is required");
+    }
+    const invalid = (message: string) =>
+      new ASRError(ErrorCode.INVALID_PARAM, `invalid engine ${model.name}: ${message}`);
+    if (!Number.isInteger(model.sampleRate) || model.sampleRate <= 0) {
+      throw invalid(`sampleRate must be a positive integer, got ${model.sampleRate}`);
+    }
+    if (!Array.isArray(model.languages)) {
+      throw invalid("languages must be an array");
+    }
+    if (!Array.isArray(model.recognizers) || model.recognizers.length === 0) {
+      throw invalid("recognizers must not be empty");
+    }
+    const unknown = model.recognizers.find((r) => !RECOGNIZER_KINDS.includes(r));
+    if (unknown !== undefined) {
+      throw invalid(`unknown recognizer ${JSON.stringify(unknown)}`);
+    }
+    if (!Array.isArray(model.voiceFormats) || model.voiceFormats.length === 0) {
+      throw invalid("voiceFormats must not be empty");
+    }
+    for (const [recognizer, formats] of Object.entries(model.recognizerFormats ?? {})) {
+      if (!Array.isArray(formats) || formats.length === 0) {
+        throw invalid(`recognizerFormats.${recognizer} must not be empty`);
+      }
+    }
+    if (
+      model.maxChannels !== undefined &&
+      (!Number.isInteger(model.maxChannels) || model.maxChannels < 1)
+    ) {
+      throw invalid(`maxChannels must be a positive integer, got ${model.maxChannels}`);
+    }
+    this.models.set(model.name, {
+      ...model,
+      languages: [...model.languages],
+      recognizers: [...model.recognizers],
+      voiceFormats: [...model.voiceFormats],
+      recognizerFormats:
+        model.recognizerFormats &&
+        Object.fromEntries(
+          Object.entries(model.recognizerFormats).map(([kind, formats]) => [kind, [...formats]]),
+        ),
+    });
+  }
+
+  /** Remove a model; returns whether it was registered. */
+  unregister(name: string): boolean {
+    return this.models.delete(name);
+  }
+
+  get(name: string): EngineModel | undefined {
+    return this.models.get(name);
+  }
+
+  /** Registered models matching every field of `filter`. */
+  list(filter: EngineFilter = {}): EngineModel[] {
+    return [...this.models.values()].filter(
+      (model) =>
+        (!filter.recognizer || model.recognizers.includes(filter.recognizer)) &&
+        (!filter.language || model.languages.includes(filter.language)),
+    );
+  }
+
+  /**
+   * Throw INVALID_PARAM when a registered model does not support the
+   * recognizer or requirements. Unregistered models are not checked.
+   */
+  check(name: string, recognizer: RecognizerKind, requirements: EngineRequirements = {}): void {
+    const model = this.models.get(name);
+    if (!model) return;
+    if (!model.recognizers.includes(recognizer)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `engine ${name} does not support ${recognizer} recognition`,
+      );
+    }
+    const { voiceFormat, channels } = requirements;
+    const formats = model.recognizerFormats?.[recognizer] ?? model.voiceFormats;
+    // Format names are matched case-insensitively ("WAV" is "wav").
+    const format = voiceFormat?.toLowerCase();
+    if (format !== undefined && !formats.some((f) => f.toLowerCase() === format)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `engine ${name} does not support voice format ${voiceFormat} ` +
+          `in ${recognizer} recognition`,
+      );
+    }
+    if (channels !== undefined && channels > (model.maxChannels ?? 1)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `engine ${name} supports at most ${model.maxChannels ?? 1} channel(s), got ${channels}`,
+      );
+    }
+  }
+}
+
+/** The catalog consulted by the recognizers, preloaded with the built-in models. */
+export const engineCatalog = new EngineCatalog(BUILTIN_MODELS);
@@ -12,6 +12,7 @@ export const ErrorCode = {
   ALREADY_STARTED: 1008,
   NOT_STARTED: 1009,
   ALREADY_STOPPED: 1010,
+  CANCELLED: 1011,
 } as const;
 
 /**
@@ -0,0 +1,98 @@
+/**
+ * Typed event emitter with per-handler error isolation.
+ */
+
+/** Handler signature for an event whose arguments are the tuple A. */
+export type EventHandler<A extends unknown[]> = (...args: A) => void;
+
+/** Event map every emitter supports: failures of other handlers. */
+export interface ListenerErrorEvents {
+  /** A handler threw; `event` names the event being delivered. */
+  listenerError: [error: unknown, event: string];
+}
+
+/**
+ * Minimal typed emitter. Unlike Node's EventEmitter, a handler that throws
+ * never interrupts delivery to the remaining handlers or the emitting code:
+ * the exception is re-emitted as "listenerError" instead, or reported as a
+ * process warning when nobody listens for it.
+ */
+export class TypedEventEmitter<E extends { [K in keyof E]: unknown[] }> {
+  // Handler types are checked per event by on() and off().
+  private handlers = new Map<PropertyKey, EventHandler<unknown[]>[]>();
+
+  /** Subscribe to an event. */
+  on<K extends keyof (E & ListenerErrorEvents)>(
+    event: K,
+    handler: EventHandler<(E & ListenerErrorEvents)[K]>,
+  ): this {
+    const list = this.handlers.get(event) ?? [];
+    this.handlers.set(event, [...list, handler as EventHandler<unknown[]>]);
+    return this;
+  }
+
+  /** Subscribe to the next occurrence of an event only. */
+  once<K extends keyof (E & ListenerErrorEvents)>(
+    event: K,
+    handler: EventHandler<(E & ListenerErrorEvents)[K]>,
+  ): this {
+    const wrapper: EventHandler<(E & ListenerErrorEvents)[K]> = (...args) => {
+      this.off(event, wrapper);
+      handler(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /** Remove a handler previously added with on(). */
+  off<K extends keyof (E & ListenerErrorEvents)>(
+    event: K,
+    handler: EventHandler<(E & ListenerErrorEvents)[K]>,
+  ): this {
+    const list = this.handlers.get(event);
+    if (!list) return this;
+    const index = list.indexOf(handler as EventHandler<unknown[]>);
+    if (index >= 0) {
+      const next = [...list.slice(0, index), ...list.slice(index + 1)];
+      if (next.length > 0) {
+        this.handlers.set(event, next);
+      } else {
+        this.handlers.delete(event);
+      }
+    }
+    return this;
+  }
+
+  /** Number of handlers subscribed to an event. */
+  listenerCount(event: keyof (E & ListenerErrorEvents)): number {
+    return this.handlers.get(event)?.length ?? 0;
+  }
+
+  /** Deliver an event to every handler, isolating handler exceptions. */
+  protected emit<K extends keyof E>(event: K, ...args: E[K]): void {
+    // Lists are copied on change, so handlers may (un)subscribe mid-delivery.
+    const list = this.handlers.get(event);
+    if (!list) return;
+    for (const handler of list) {
+      try {
+        handler(...args);
+      } catch (err) {
+        this.reportListenerError(err, String(event));
+      }
+    }
+  }
+
+  private reportListenerError(error: unknown, event: string): void {
+    const list = this.handlers.get("listenerError");
+    if (!list || event === "listenerError") {
+      process.emitWarning(`trtc-asr: "${event}" listener threw: ${error}`);
+      return;
+    }
+    for (const handler of list) {
+      try {
+        handler(error, event);
+      } catch (err) {
+        process.emitWarning(`trtc-asr: "listenerError" listener threw: ${err}`);
+      }
+    }
+  }
+}
@@ -13,8 +13,18 @@
  */
 
 import { v4 as uuidv4 } from "uuid";
+import { AbortOptions, cancelledError, onAbort, sleep, throwIfAborted } from "./abort";
 import { Credential } from "./credential";
+import { engineCatalog } from "./engines";
 import { ASRError, ErrorCode } from "./errors";
+import { Instrumentation, SpanAttributes } from "./instrumentation";
+import { Logger, noopLogger, redactLogger } from "./logger";
+import {
+  ProxyConfig,
+  createProxyAgent,
+  httpPost,
+  validateProxyConfig,
+} from "./proxy";
 import { genUserSig } from "./usersig";
 
 export const FILE_ENDPOINT = "https://asr.cloud-rtc.com";
@@ -99,6 +109,9 @@ export class FileRecognizer {
   private credential: Credential;
   private endpoint: string;
   private timeout: number; // ms
+  private proxy: ProxyConfig | null = null;
+  private instrumentation: Instrumentation | null = null;
+  private logger: Logger = noopLogger;
 
   constructor(credential: Credential) {
     this.credential = credential;
@@ -116,26 +129,51 @@ export class FileRecognizer {
     this.timeout = timeout;
   }
 
-  /** Submit a file recognition task and return the task ID. */
-  async createTask(req: CreateRecTaskRequest): Promise<string> {
-    this.validateCreateRequest(req);
+  /**
+   * Send requests through an HTTP(S) or SOCKS5 proxy, or pass null to
+   * connect directly (the default). A ProxyOptions without `url` uses
+   * HTTPS_PROXY and NO_PROXY from the environment.
+   */
+  setProxy(proxy: ProxyConfig | null): void {
+    if (proxy) {
+      validateProxyConfig(proxy);
+    }
+    this.proxy = proxy;
+  }
 
-    const body = this.buildBody(req);
-    const respData = await this.doRequest("/v1/CreateRecTask", body);
+  /** Record metrics and spans, or pass null to stop (the default). */
+  setInstrumentation(instrumentation: Instrumentation | null): void {
+    this.instrumentation = instrumentation;
+  }
 
-    const response = respData?.Response;
-    if (!response) {
-      throw new ASRError(ErrorCode.SERVER_ERROR, "empty response from server");
-    }
+  /**
+   * Log HTTP requests and task polling, or pass null to stop (the default).
+   * Secrets are redacted before they reach the logger.
+   */
+  setLogger(logger: Logger | null): void {
+    this.logger = logger
+      ? redactLogger(logger, () => [this.credential.secretKey, this.credential.userSig])
+      : noopLogger;
+  }
 
-    if (response.Error) {
-      throw new ASRError(
-        ErrorCode.SERVER_ERROR,
-        `server error [${response.Error.Code || ""}]: ` +
-          `${response.Error.Message || ""} ` +
-          `(RequestId: ${response.RequestId || ""})`,
-      );
-    }
+  /**
+   * Submit a file recognition task and return the task ID. Aborting
+   * `signal` cancels the HTTP request and rejects with CANCELLED, as it
+   * does for the other methods.
+   */
+  async createTask(
+    req: CreateRecTaskRequest,
+    options: AbortOptions = {},
+  ): Promise<string> {
+    this.validateCreateRequest(req);
+
+    const body = this.buildBody(req);
+    const response = await this.doRequest(
+      "/v1/CreateRecTask",
+      body,
+      {},
+      options.signal,
+    );
 
     const taskId = response.Data?.RecTaskId;
     if (!taskId) {
@@ -152,6 +190,7 @@ export class FileRecognizer {
   async createTaskFromData(
     data: Buffer,
     engineModelType: string,
+    options: AbortOptions = {},
   ): Promise<string> {
     if (!data || data.length === 0) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio data is empty");
@@ -163,38 +202,46 @@ export class FileRecognizer {
       );
     }
 
-    return this.createTask({
-      engineModelType,
-      channelNum: 1,
-      resTextFormat: 1,
-      sourceType: FileSourceType.DATA,
-      data: data.toString("base64"),
-      dataLen: data.length,
-    });
+    return this.createTask(
+      {
+        engineModelType,
+        channelNum: 1,
+        resTextFormat: 1,
+        sourceType: FileSourceType.DATA,
+        data: data.toString("base64"),
+        dataLen: data.length,
+      },
+      options,
+    );
   }
 
   /** Submit an audio URL for recognition. Audio ≤12h, ≤1GB. */
   async createTaskFromURL(
     audioURL: string,
     engineModelType: string,
+    options: AbortOptions = {},
   ): Promise<string> {
     if (!audioURL) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio URL is empty");
     }
 
-    return this.createTask({
-      engineModelType,
-      channelNum: 1,
-      resTextFormat: 1,
-      sourceType: FileSourceType.URL,
-      url: audioURL,
-    });
+    return this.createTask(
+      {
+        engineModelType,
+        channelNum: 1,
+        resTextFormat: 1,
+        sourceType: FileSourceType.URL,
+        url: audioURL,
+      },
+      options,
+    );
   }
 
   /** Submit local audio data with a pre-configured request. */
   async createTaskFromDataWithOptions(
     rawData: Buffer,
     req: CreateRecTaskRequest,
+    options: AbortOptions = {},
   ): Promise<string> {
     if (!rawData || rawData.length === 0) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio data is empty");
@@ -209,31 +256,25 @@ export class FileRecognizer {
     req.sourceType = FileSourceType.DATA;
     req.data = rawData.toString("base64");
     req.dataLen = rawData.length;
-    return this.createTask(req);
+    return this.createTask(req, options);
   }
 
   /** Query the status of a file recognition task. */
-  async describeTaskStatus(recTaskId: string): Promise<TaskStatus> {
+  async describeTaskStatus(
+    recTaskId: string,
+    options: AbortOptions = {},
+  ): Promise<TaskStatus> {
     if (!recTaskId) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "recTaskId is empty");
     }
 
     const body = { RecTaskId: recTaskId };
-    const respData = await this.doRequest("/v1/DescribeTaskStatus", body);
-
-    const response = respData?.Response;
-    if (!response) {
-      throw new ASRError(ErrorCode.SERVER_ERROR, "empty response from server");
-    }
-
-    if (response.Error) {
-      throw new ASRError(
-        ErrorCode.SERVER_ERROR,
-        `server error [${response.Error.Code || ""}]: ` +
-          `${response.Error.Message || ""} ` +
-          `(RequestId: ${response.RequestId || ""})`,
-      );
-    }
+    const response = await this.doRequest(
+      "/v1/DescribeTaskStatus",
+      body,
+      { "asr.task_id": recTaskId },
+      options.signal,
+    );
 
     if (!response.Data) {
       throw new ASRError(ErrorCode.SERVER_ERROR, "empty response from server");
@@ -243,46 +284,101 @@ export class FileRecognizer {
   }
 
   /** Poll for results with default interval (1s) and timeout (10min). */
-  async waitForResult(recTaskId: string): Promise<TaskStatus> {
-    return this.waitForResultWithInterval(recTaskId, 1000, 600000);
+  async waitForResult(
+    recTaskId: string,
+    options: AbortOptions = {},
+  ): Promise<TaskStatus> {
+    return this.waitForResultWithInterval(recTaskId, 1000, 600000, options);
   }
 
-  /** Poll for results with custom interval and timeout (in milliseconds). */
+  /**
+   * Poll for results with custom interval and timeout (in milliseconds).
+   * Aborting `signal` ends the wait at once, including between polls.
+   */
   async waitForResultWithInterval(
     recTaskId: string,
     intervalMs: number,
     timeoutMs: number,
+    options: AbortOptions = {},
   ): Promise<TaskStatus> {
     const deadline = Date.now() + timeoutMs;
+    const tracker = this.instrumentation?.startTaskWait(recTaskId);
+    const log = this.logger.child({ recTaskId });
+    let polls = 0;
+    // Label of the final outcome; errors from describeTaskStatus() are "error".
+    let outcome = "error";
 
-    while (true) {
-      const status = await this.describeTaskStatus(recTaskId);
-
-      if (status.status === TaskStatusCode.SUCCESS) {
-        return status;
-      }
-      if (status.status === TaskStatusCode.FAILED) {
-        throw new ASRError(
-          ErrorCode.SERVER_ERROR,
-          `task failed: ${status.errorMsg} (RecTaskId: ${status.recTaskId})`,
-        );
-      }
-
-      if (Date.now() > deadline) {
-        throw new ASRError(
-          ErrorCode.TIMEOUT,
-          `task not completed within ${timeoutMs}ms ` +
-            `(RecTaskId: ${recTaskId}, Status: ${status.statusStr})`,
-        );
+    try {
+      while (true) {
+        tracker?.poll();
+        const status = await this.describeTaskStatus(recTaskId, options);
+        log.debug("task status", { poll: ++polls, status: status.statusStr });
+
+        if (status.status === TaskStatusCode.SUCCESS) {
+          log.info("task completed", { polls, audioDuration: status.audioDuration });
+          tracker?.end("success");
+          return status;
+        }
+        if (status.status === TaskStatusCode.FAILED) {
+          outcome = "failed";
+          throw new ASRError(
+            ErrorCode.SERVER_ERROR,
+            `task failed: ${status.errorMsg} (RecTaskId: ${status.recTaskId})`,
+          );
+        }
+
+        if (Date.now() > deadline) {
+          outcome = "timeout";
+          throw new ASRError(
+            ErrorCode.TIMEOUT,
+            `task not completed within ${timeoutMs}ms ` +
+              `(RecTaskId: ${recTaskId}, Status: ${status.statusStr})`,
+          );
+        }
+
+        await sleep(intervalMs, options.signal);
       }
-
-      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    } catch (err) {
+      if (options.signal?.aborted) outcome = "cancelled";
+      log.warn("waiting for task failed", { outcome, error: err });
+      tracker?.end(outcome, err);
+      throw err;
     }
   }
 
-  private async doRequest(path: string, body: any): Promise<any> {
+  /** POST to an API and return its `Response` object. */
+  private async doRequest(
+    path: string,
+    body: any,
+    attributes: SpanAttributes = {},
+    signal?: AbortSignal,
+  ): Promise<any> {
     const requestId = uuidv4();
+    if (!this.instrumentation) {
+      return this.send(path, body, requestId, signal);
+    }
+    // "/v1/CreateRecTask" -> "create_rec_task"
+    const api = path
+      .slice(path.lastIndexOf("/") + 1)
+      .replace(/[A-Z]/g, (c, i) => (i > 0 ? "_" : "") + c.toLowerCase());
+    return this.instrumentation.traceRequest(
+      api,
+      { ...attributes, "asr.request_id": requestId },
+      async (span) => {
+        const response = await this.send(path, body, requestId, signal);
+        span?.setAttribute("asr.server_request_id", response.RequestId ?? "");
+        return response;
+      },
+    );
+  }
 
+  private async send(
+    path: string,
+    body: any,
+    requestId: string,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    throwIfAborted(signal);
     let userSig = this.credential.userSig;
     if (!userSig) {
       try {
@@ -316,31 +412,47 @@ export class FileRecognizer {
 
     const jsonBody = JSON.stringify(body);
 
+    const log = this.logger.child({ requestId });
+    log.debug("http request", { url: reqUrl, headers });
+    const startedAt = Date.now();
+
     let respBody: string;
     let statusCode: number;
 
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    const removeAbort = onAbort(signal, () => controller.abort());
     try {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), this.timeout);
-
-      const resp = await fetch(reqUrl, {
-        method: "POST",
+      const resp = await httpPost(
+        reqUrl,
         headers,
-        body: jsonBody,
-        signal: controller.signal,
-      });
+        jsonBody,
+        controller.signal,
+        createProxyAgent(this.proxy, reqUrl),
+      );
 
-      clearTimeout(timer);
       statusCode = resp.status;
-      respBody = await resp.text();
+      respBody = resp.body;
     } catch (err) {
+      if (signal?.aborted) {
+        log.info("http request cancelled");
+        throw cancelledError(signal);
+      }
+      log.warn("http request failed", { error: err });
       if (err instanceof ASRError) throw err;
       throw new ASRError(
         ErrorCode.CONNECT_FAILED,
         `http request failed: ${err}`,
       );
+    } finally {
+      clearTimeout(timer);
+      removeAbort();
     }
 
+    log.debug("http response", {
+      status: statusCode,
+      elapsedMs: Date.now() - startedAt,
+    });
     if (statusCode !== 200) {
       throw new ASRError(
         ErrorCode.SERVER_ERROR,
@@ -348,14 +460,36 @@ export class FileRecognizer {
       );
     }
 
+    let respData: any;
     try {
-      return JSON.parse(respBody);
+      respData = JSON.parse(respBody);
     } catch (err) {
       throw new ASRError(
         ErrorCode.READ_FAILED,
         `unmarshal response failed: ${err}`,
       );
     }
+
+    const response = respData?.Response;
+    if (!response) {
+      throw new ASRError(ErrorCode.SERVER_ERROR, "empty response from server");
+    }
+
+    if (response.Error) {
+      log.warn("server error", {
+        code: response.Error.Code,
+        message: response.Error.Message,
+        serverRequestId: response.RequestId,
+      });
+      throw new ASRError(
+        ErrorCode.SERVER_ERROR,
+        `server error [${response.Error.Code || ""}]: ` +
+          `${response.Error.Message || ""} ` +
+          `(RequestId: ${response.RequestId || ""})`,
+      );
+    }
+
+    return response;
   }
 
   private buildBody(req: CreateRecTaskRequest): Record<string, any> {
@@ -430,6 +564,9 @@ export class FileRecognizer {
         "channelNum must be positive",
       );
     }
+    engineCatalog.check(req.engineModelType, "file", {
+      channels: req.channelNum,
+    });
     if (req.sourceType === FileSourceType.URL && !req.url) {
       throw new ASRError(
         ErrorCode.INVALID_PARAM,
@@ -4,16 +4,193 @@
 
 export { Credential } from "./credential";
 export { ASRError, ErrorCode } from "./errors";
+export { AbortOptions } from "./abort";
 export { SignatureParams } from "./signature";
 export { genUserSig } from "./usersig";
+export { VoiceFormat } from "./audio-format";
+export {
+  EngineCatalog,
+  EngineModel,
+  EngineFilter,
+  EngineRequirements,
+  RecognizerKind,
+  engineCatalog,
+} from "./engines";
+export { ProxyConfig, ProxyOptions, resolveProxy } from "./proxy";
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  Labels,
+  PROMETHEUS_CONTENT_TYPE,
+  DEFAULT_BUCKETS,
+} from "./metrics";
+export {
+  Instrumentation,
+  InstrumentationOptions,
+  SessionTracker,
+  TaskWaitTracker,
+  Span,
+  SpanAttributes,
+  SpanStatusCode,
+  Tracer,
+} from "./instrumentation";
+export {
+  Logger,
+  LogLevel,
+  LogFields,
+  ConsoleLoggerOptions,
+  PinoLikeLogger,
+  REDACTED,
+  noopLogger,
+  consoleLogger,
+  pinoLogger,
+  redactLogger,
+  redact,
+} from "./logger";
+export {
+  AudioFrame,
+  StreamAudioOptions,
+  StreamProgress,
+  paceFrames,
+} from "./audio-pacer";
+export {
+  AudioFramer,
+  OggCodec,
+  OggFramer,
+  SpeexFramer,
+  SpeexFramerOptions,
+  Mp3Framer,
+  encodedFrames,
+} from "./audio-framers";
+export {
+  OverflowPolicy,
+  SendQueueOptions,
+  SendQueueStats,
+} from "./send-queue";
+export {
+  PcmConverter,
+  PcmInputFormat,
+  SampleFormat,
+  Endianness,
+  ResamplerQuality,
+} from "./pcm-converter";
+export {
+  WavEncoding,
+  WavFormat,
+  WavReader,
+  wavInputFormat,
+} from "./wav-reader";
+export {
+  EnergyVad,
+  LocalVadOptions,
+  VadChunk,
+  VadEvent,
+  VadOutput,
+} from "./vad";
+export {
+  TypedEventEmitter,
+  EventHandler,
+  ListenerErrorEvents,
+} from "./event-emitter";
 export {
   SpeechRecognizer,
   SpeechRecognitionListener,
   SpeechRecognitionResponse,
+  SpeechRecognizerEvents,
+  RecognizerState,
+  ReconnectPolicy,
+  PauseOptions,
+  SendStats,
+  WavStreamOptions,
+  RecognizerTransport,
+  TransportFactory,
   RecognitionResult,
   WordInfo,
   ENDPOINT,
 } from "./speech-recognizer";
+export {
+  SpeechRecognizerOptions,
+  VoiceFormatName,
+  ConvertNumMode,
+  FilterDirtyMode,
+  FilterModalMode,
+  FilterPuncMode,
+  WordInfoMode,
+} from "./recognizer-options";
+export {
+  SessionRecorder,
+  SessionRecorderOptions,
+  SessionReplayer,
+  ReplayOptions,
+  SessionRecording,
+  RecordingHeader,
+  RecordedEvent,
+  RECORDING_FORMAT,
+  parseRecording,
+  loadRecording,
+} from "./session-recording";
+export {
+  RecognitionEvent,
+  RecognitionEventOptions,
+  RecognitionEventSource,
+  BufferingPolicy,
+} from "./recognition-events";
+export {
+  TranscriptAggregator,
+  TranscriptSentence,
+  TranscriptSnapshot,
+  TranscriptOptions,
+  TranscriptEvents,
+  SentenceRevision,
+} from "./transcript-aggregator";
+export {
+  ResultDeltaTracker,
+  ResultDelta,
+  ResultDeltaOptions,
+  ResultDeltaEvents,
+} from "./result-deltas";
+export {
+  SubtitleWriter,
+  SubtitleFormat,
+  SubtitleOptions,
+  SubtitleCue,
+  TimedSegment,
+  TimedWord,
+  formatSubtitles,
+  segmentFromRealtime,
+  segmentsFromTranscript,
+  segmentsFromSentenceResult,
+  segmentsFromFileResult,
+} from "./subtitles";
+export {
+  DualChannelTranscriber,
+  DualChannelOptions,
+  DualChannelEvents,
+  DualChannelStreamOptions,
+  ChannelSentence,
+  ChannelMergeOptions,
+  StereoChannel,
+  StereoSentenceOptions,
+  mergeChannels,
+  recognizeStereo,
+} from "./dual-channel";
+export {
+  RecognizerPool,
+  RecognizerPoolOptions,
+  RecognizerPoolEvents,
+  PoolTaskOptions,
+  PoolStats,
+  PoolLease,
+  StoppableSession,
+  ShutdownOptions,
+} from "./recognizer-pool";
+export {
+  RecognitionStream,
+  RecognitionStreamOptions,
+  createRecognitionStream,
+} from "./recognition-stream";
 export {
   SentenceRecognizer,
   SentenceRecognitionRequest,
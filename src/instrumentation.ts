@@ -0,0 +1,341 @@
+/**
+ * Metrics and tracing for the recognizers.
+ *
+ * Usage:
+ *   const instrumentation = new Instrumentation({ tracer: otel.trace.getTracer("asr") });
+ *   recognizer.setInstrumentation(instrumentation);
+ *   sentenceRecognizer.setInstrumentation(instrumentation);
+ *   http.createServer((req, res) => res.end(instrumentation.registry.render()));
+ */
+
+import { ASRError } from "./errors";
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./metrics";
+
+/** Attribute values accepted by spans. */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** Span status codes, numbered as in OpenTelemetry. */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * The subset of an OpenTelemetry span used by the SDK; an OpenTelemetry
+ * Tracer can be passed where a Tracer is expected.
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** Creates spans; see Span. */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span;
+}
+
+/** Options for Instrumentation. */
+export interface InstrumentationOptions {
+  /** Registry the metrics are added to (default: a new registry). */
+  registry?: MetricsRegistry;
+  /** Receives one span per session or request. */
+  tracer?: Tracer;
+  /** Metric name prefix (default "trtc_asr_"). */
+  prefix?: string;
+  /** Buckets of the latency histograms, in seconds. */
+  buckets?: number[];
+}
+
+/**
+ * Records metrics and spans for the recognizers it is passed to; one
+ * instance is usually shared by the whole process.
+ *
+ * Metrics (with the default prefix):
+ * - trtc_asr_sessions_total{engine}, trtc_asr_active_sessions
+ * - trtc_asr_connect_seconds, trtc_asr_first_partial_latency_seconds,
+ *   trtc_asr_sentence_end_latency_seconds
+ * - trtc_asr_audio_bytes_sent_total, trtc_asr_reconnects_total
+ * - trtc_asr_http_request_seconds{api}
+ * - trtc_asr_task_polls_total, trtc_asr_task_wait_seconds{status}
+ * - trtc_asr_errors_total{api,code}
+ */
+export class Instrumentation {
+  readonly registry: MetricsRegistry;
+  private readonly tracer: Tracer | null;
+
+  readonly sessions: Counter;
+  readonly activeSessions: Gauge;
+  readonly connectTime: Histogram;
+  readonly firstPartialLatency: Histogram;
+  readonly sentenceEndLatency: Histogram;
+  readonly bytesSent: Counter;
+  readonly reconnects: Counter;
+  readonly httpTime: Histogram;
+  readonly polls: Counter;
+  readonly taskWait: Histogram;
+  readonly errors: Counter;
+
+  constructor(options: InstrumentationOptions = {}) {
+    const registry = (this.registry = options.registry ?? new MetricsRegistry());
+    const p = options.prefix ?? "trtc_asr_";
+    const buckets = options.buckets;
+    this.tracer = options.tracer ?? null;
+
+    this.sessions = registry.counter(
+      `${p}sessions_total`,
+      "Real-time recognition sessions started.",
+      ["engine"],
+    );
+    this.activeSessions = registry.gauge(
+      `${p}active_sessions`,
+      "Real-time recognition sessions currently open.",
+    );
+    this.connectTime = registry.histogram(
+      `${p}connect_seconds`,
+      "Time to open a real-time session, including reconnects.",
+      [],
+      buckets,
+    );
+    this.firstPartialLatency = registry.histogram(
+      `${p}first_partial_latency_seconds`,
+      "Time from the first audio sent to the first recognition result.",
+      [],
+      buckets,
+    );
+    this.sentenceEndLatency = registry.histogram(
+      `${p}sentence_end_latency_seconds`,
+      "Time from sending the audio that ends a sentence to its final result.",
+      [],
+      buckets,
+    );
+    this.bytesSent = registry.counter(
+      `${p}audio_bytes_sent_total`,
+      "Audio bytes sent to the real-time service.",
+    );
+    this.reconnects = registry.counter(
+      `${p}reconnects_total`,
+      "Reconnection attempts of real-time sessions.",
+    );
+    this.httpTime = registry.histogram(
+      `${p}http_request_seconds`,
+      "Round-trip time of HTTP API requests.",
+      ["api"],
+      buckets,
+    );
+    this.polls = registry.counter(
+      `${p}task_polls_total`,
+      "Task status requests made while waiting for file recognition results.",
+    );
+    this.taskWait = registry.histogram(
+      `${p}task_wait_seconds`,
+      "Time spent waiting for file recognition results.",
+      ["status"],
+      buckets,
+    );
+    this.errors = registry.counter(
+      `${p}errors_total`,
+      "Errors by API and error code.",
+      ["api", "code"],
+    );
+  }
+
+  /** Prometheus text exposition of the registry. */
+  render(): string {
+    return this.registry.render();
+  }
+
+  /** Start tracking a real-time session. */
+  startSession(engine: string, voiceId: string): SessionTracker {
+    return new SessionTracker(this, engine, voiceId);
+  }
+
+  /**
+   * Run one HTTP API call, recording its duration, errors and a
+   * span named after the API.
+   */
+  async traceRequest<T>(
+    api: string,
+    attributes: SpanAttributes,
+    call: (span: Span | null) => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(`asr.${api}`, attributes);
+    const started = Date.now();
+    try {
+      const result = await call(span);
+      span?.setStatus({ code: SpanStatusCode.OK });
+      return result;
+    } catch (err) {
+      this.recordError(api, err, span);
+      throw err;
+    } finally {
+      this.httpTime.observe((Date.now() - started) / 1000, { api });
+      span?.end();
+    }
+  }
+
+  /** Track a waitForResult() loop. */
+  startTaskWait(recTaskId: string): TaskWaitTracker {
+    return new TaskWaitTracker(this, recTaskId);
+  }
+
+  /** Start a span if a tracer is configured. */
+  startSpan(name: string, attributes: SpanAttributes): Span | null {
+    return this.tracer?.startSpan(name, { attributes }) ?? null;
+  }
+
+  /** Count an error (unless `count` is false) and mark the span as failed. */
+  recordError(api: string, err: unknown, span: Span | null, count = true): void {
+    const code = err instanceof ASRError ? String(err.code) : "unknown";
+    if (count) this.errors.inc(1, { api, code });
+    if (span) {
+      span.recordException(err instanceof Error ? err : new Error(String(err)));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+    }
+  }
+}
+
+/**
+ * How long send times are kept for sentence end latency. Longer sessions
+ * without a sentence end (silence, or no VAD) would otherwise grow them
+ * without limit; a sentence ending in dropped audio is not measured.
+ */
+const SEND_TIME_WINDOW_MS = 60000;
+
+/** Metrics and span of one real-time session. */
+export class SessionTracker {
+  private readonly span: Span | null;
+  private readonly startedAt = Date.now();
+  private connectStartedAt = this.startedAt;
+  private firstAudioAt: number | null = null;
+  private firstResult = false;
+  // Wall-clock time at which the sent audio reached each offset (ms).
+  private sendTimes: { sentMs: number; at: number }[] = [];
+  // Audio offset up to which send times were dropped (ms).
+  private droppedMs = 0;
+  private connected = false;
+  private failed = false;
+  private ended = false;
+
+  constructor(
+    private readonly instrumentation: Instrumentation,
+    engine: string,
+    voiceId: string,
+  ) {
+    instrumentation.sessions.inc(1, { engine });
+    this.span = instrumentation.startSpan("asr.realtime", {
+      "asr.engine": engine,
+      "asr.voice_id": voiceId,
+    });
+  }
+
+  /** A WebSocket session opened (initially or after a reconnect). */
+  opened(voiceId: string): void {
+    this.instrumentation.connectTime.observe((Date.now() - this.connectStartedAt) / 1000);
+    if (!this.connected) {
+      this.connected = true;
+      this.instrumentation.activeSessions.inc();
+    } else {
+      this.span?.addEvent("reconnected", { "asr.voice_id": voiceId });
+    }
+  }
+
+  /** A reconnection attempt starts. */
+  reconnecting(attempt: number, cause: Error): void {
+    this.connectStartedAt = Date.now();
+    this.instrumentation.reconnects.inc();
+    this.span?.addEvent("reconnecting", { attempt, cause: cause.message });
+  }
+
+  /** Audio was handed to the socket; `sentMs` is the total sent so far. */
+  audioSent(bytes: number, sentMs: number): void {
+    const now = Date.now();
+    if (this.firstAudioAt === null) this.firstAudioAt = now;
+    this.instrumentation.bytesSent.inc(bytes);
+    if (sentMs > 0) this.sendTimes.push({ sentMs, at: now });
+    const expired = this.sendTimes.findIndex((t) => t.at >= now - SEND_TIME_WINDOW_MS);
+    if (expired > 0) {
+      this.droppedMs = this.sendTimes[expired - 1].sentMs;
+      this.sendTimes.splice(0, expired);
+    }
+  }
+
+  /** A result arrived; `endMs` is its end time on the sent audio. */
+  result(sliceType: number, index: number, endMs: number): void {
+    const now = Date.now();
+    if (!this.firstResult && sliceType !== 0 && this.firstAudioAt !== null) {
+      this.firstResult = true;
+      const latency = (now - this.firstAudioAt) / 1000;
+      this.instrumentation.firstPartialLatency.observe(latency);
+      this.span?.addEvent("first_result", { latency });
+    }
+
+    if (sliceType !== 2 || endMs <= this.droppedMs) return;
+    // The first chunk that reached endMs carried the end of the sentence.
+    const i = this.sendTimes.findIndex((t) => t.sentMs >= endMs);
+    if (i < 0) return;
+    const latency = (now - this.sendTimes[i].at) / 1000;
+    this.instrumentation.sentenceEndLatency.observe(latency);
+    this.span?.addEvent("sentence_end", { index, latency });
+    this.sendTimes = this.sendTimes.slice(i);
+  }
+
+  /** Record a session error that may or may not end the session. */
+  error(err: unknown): void {
+    this.failed = true;
+    this.instrumentation.recordError("realtime", err, this.span);
+  }
+
+  /** The session ended; later calls are ignored. */
+  end(err?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+    if (err !== undefined) {
+      this.error(err);
+    } else if (!this.failed) {
+      this.span?.setStatus({ code: SpanStatusCode.OK });
+    }
+    if (this.connected) this.instrumentation.activeSessions.dec();
+    this.span?.setAttribute("asr.duration_ms", Date.now() - this.startedAt);
+    this.span?.end();
+  }
+}
+
+/** Metrics and span of one waitForResult() loop. */
+export class TaskWaitTracker {
+  private readonly span: Span | null;
+  private readonly startedAt = Date.now();
+  private polls = 0;
+
+  constructor(
+    private readonly instrumentation: Instrumentation,
+    recTaskId: string,
+  ) {
+    this.span = instrumentation.startSpan("asr.wait_for_result", {
+      "asr.task_id": recTaskId,
+    });
+  }
+
+  poll(): void {
+    this.polls++;
+    this.instrumentation.polls.inc();
+  }
+
+  /** The wait ended: "success", "failed", "timeout", "cancelled" or "error". */
+  end(status: string, err?: unknown): void {
+    this.instrumentation.taskWait.observe((Date.now() - this.startedAt) / 1000, {
+      status,
+    });
+    this.span?.setAttribute("asr.polls", this.polls);
+    if (err !== undefined) {
+      // A failed status request was already counted under its own API.
+      this.instrumentation.recordError("wait_for_result", err, this.span, status !== "error");
+    } else {
+      this.span?.setStatus({ code: SpanStatusCode.OK });
+    }
+    this.span?.end();
+  }
+}
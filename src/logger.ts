@@ -0,0 +1,197 @@
+/**
+ * Structured logging for the recognizers.
+ *
+ * Usage:
+ *   recognizer.setLogger(consoleLogger({ level: "debug" }));
+ *   recognizer.setLogger(pinoLogger(pino()));
+ *
+ * Whatever logger is passed, secret keys, UserSigs and the `signature`
+ * query parameter are replaced with "[REDACTED]" before it sees them.
+ */
+
+/** Log levels, from most to least verbose. */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured fields attached to a log entry. */
+export type LogFields = Record<string, unknown>;
+
+/** Logger interface used by the SDK. */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every entry. */
+  child(fields: LogFields): Logger;
+}
+
+/** A pino (or bunyan) style logger: fields first, then the message. */
+export interface PinoLikeLogger {
+  debug(fields: object, message: string): void;
+  info(fields: object, message: string): void;
+  warn(fields: object, message: string): void;
+  error(fields: object, message: string): void;
+  child(bindings: object): PinoLikeLogger;
+}
+
+/** Options for consoleLogger(). */
+export interface ConsoleLoggerOptions {
+  /** Minimum level written (default "info"). */
+  level?: LogLevel;
+  /** Write one JSON object per line instead of a message and fields. */
+  json?: boolean;
+  /** Console to write to (default: the global console). */
+  console?: Pick<Console, LogLevel>;
+}
+
+export const REDACTED = "[REDACTED]";
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Compared after lowercasing and removing "-" and "_".
+const SECRET_KEYS = new Set(["secretkey", "usersig", "xtrtcusersig", "signature"]);
+const SIGNATURE_PARAM = /([?&]signature=)[^&#\s"']*/gi;
+// Shorter values would redact too much unrelated text.
+const MIN_SECRET_LENGTH = 8;
+const MAX_DEPTH = 6;
+
+/** Logger that discards everything; the default of every recognizer. */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => noopLogger,
+};
+
+/** Logger writing to the console. */
+export function consoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const min = LEVELS[options.level ?? "info"];
+  const out = options.console ?? console;
+  const json = options.json ?? false;
+
+  const create = (bindings: LogFields): Logger => {
+    const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+      if (LEVELS[level] < min) return;
+      const entry = { ...bindings, ...fields };
+      if (json) {
+        out[level](
+          JSON.stringify({ level, time: new Date().toISOString(), msg: message, ...entry }),
+        );
+      } else if (Object.keys(entry).length > 0) {
+        out[level](`[trtc-asr] ${message}`, entry);
+      } else {
+        out[level](`[trtc-asr] ${message}`);
+      }
+    };
+    return {
+      debug: write("debug"),
+      info: write("info"),
+      warn: write("warn"),
+      error: write("error"),
+      child: (fields) => create({ ...bindings, ...fields }),
+    };
+  };
+  return create({});
+}
+
+/** Adapt a pino-style logger; its own level filtering applies. */
+export function pinoLogger(logger: PinoLikeLogger): Logger {
+  return {
+    debug: (message, fields) => logger.debug(fields ?? {}, message),
+    info: (message, fields) => logger.info(fields ?? {}, message),
+    warn: (message, fields) => logger.warn(fields ?? {}, message),
+    error: (message, fields) => logger.error(fields ?? {}, message),
+    child: (fields) => pinoLogger(logger.child(fields)),
+  };
+}
+
+/**
+ * Wrap a logger so that messages, fields and child bindings are passed
+ * through redact() first. `secrets` returns values (such as the
+ * credential's secret key) that are also removed wherever they appear.
+ */
+export function redactLogger(
+  logger: Logger,
+  secrets: () => string[] = () => [],
+): Logger {
+  const clean = (message: string, fields?: LogFields) => {
+    const values = secrets().filter((s) => s && s.length >= MIN_SECRET_LENGTH);
+    return {
+      message: redactString(message, values),
+      fields: fields && (redactValue(fields, values, 0, new WeakSet()) as LogFields),
+    };
+  };
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    const entry = clean(message, fields);
+    logger[level](entry.message, entry.fields);
+  };
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (fields) => redactLogger(logger.child(clean("", fields).fields!), secrets),
+  };
+}
+
+/**
+ * Copy of `fields` with secrets replaced: values of secretKey, userSig,
+ * X-TRTC-UserSig and signature keys (in any case), `signature` query
+ * parameters inside strings, and any of the given secret values. Errors
+ * become `{ name, message, code }` and Buffers a length summary.
+ */
+export function redact(fields: LogFields, secrets: string[] = []): LogFields {
+  return redactValue(fields, secrets, 0, new WeakSet()) as LogFields;
+}
+
+function redactValue(
+  value: unknown,
+  secrets: string[],
+  depth: number,
+  ancestors: WeakSet<object>,
+): unknown {
+  if (typeof value === "string") return redactString(value, secrets);
+  if (value === null || typeof value !== "object") return value;
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (ancestors.has(value) || depth >= MAX_DEPTH) return "[Truncated]";
+
+  if (value instanceof Error) {
+    const err: LogFields = {
+      name: value.name,
+      message: redactString(value.message, secrets),
+    };
+    const code = (value as { code?: unknown }).code;
+    if (code !== undefined) err.code = code;
+    return err;
+  }
+  // Only cycles are cut: an object referenced twice is copied twice.
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((v) => redactValue(v, secrets, depth + 1, ancestors));
+    }
+    const out: LogFields = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = isSecretKey(key) ? REDACTED : redactValue(v, secrets, depth + 1, ancestors);
+    }
+    return out;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEYS.has(key.toLowerCase().replace(/[-_]/g, ""));
+}
+
+function redactString(value: string, secrets: string[]): string {
+  let out = value.replace(SIGNATURE_PARAM, `$1${REDACTED}`);
+  for (const secret of secrets) {
+    out = out.split(secret).join(REDACTED);
+    // The UserSig also appears URL-encoded in the WebSocket URL.
+    const encoded = encodeURIComponent(secret);
+    if (encoded !== secret) out = out.split(encoded).join(REDACTED);
+  }
+  return out;
+}
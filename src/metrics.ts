@@ -0,0 +1,289 @@
+/**
+ * Minimal metrics registry with Prometheus text exposition.
+ *
+ * Usage:
+ *   const registry = new MetricsRegistry();
+ *   const sent = registry.counter("bytes_sent_total", "Bytes sent", ["engine"]);
+ *   sent.inc(3200, { engine: "16k_zh" });
+ *   res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+ *   res.end(registry.render());
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+
+/** Label values of one series. */
+export type Labels = Record<string, string | number>;
+
+/** Content-Type of render() output. */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Default histogram buckets, in seconds. */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Series<V> {
+  labels: Labels;
+  value: V;
+}
+
+abstract class Metric<V> {
+  abstract readonly type: MetricType;
+  protected series = new Map<string, Series<V>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+  ) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, `invalid metric name: ${name}`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_PATTERN.test(label) || label === "le") {
+        throw new ASRError(ErrorCode.INVALID_PARAM, `invalid label name: ${label}`);
+      }
+    }
+  }
+
+  /** Remove all series. */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /** Text exposition lines for this metric. */
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    if (this.series.size === 0 && this.labelNames.length === 0) {
+      this.entry({});
+    }
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract initial(): V;
+  protected abstract renderSeries(labels: Labels, value: V): string[];
+
+  protected entry(labels: Labels): Series<V> {
+    for (const key of Object.keys(labels)) {
+      if (!this.labelNames.includes(key)) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `unknown label "${key}" for metric ${this.name}`,
+        );
+      }
+    }
+    const key = this.labelNames.map((name) => String(labels[name] ?? "")).join("\u0000");
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: this.initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected sample(suffix: string, labels: Labels, value: number): string {
+    return `${this.name}${suffix}${formatLabels(labels, this.labelNames)} ${formatValue(value)}`;
+  }
+}
+
+/** Monotonically increasing count. */
+export class Counter extends Metric<number> {
+  readonly type = "counter";
+
+  inc(value = 1, labels: Labels = {}): void {
+    if (value < 0) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, "counter cannot decrease");
+    }
+    this.entry(labels).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.entry(labels).value;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [this.sample("", labels, value)];
+  }
+}
+
+/** Value that can go up and down. */
+export class Gauge extends Metric<number> {
+  readonly type = "gauge";
+
+  set(value: number, labels: Labels = {}): void {
+    this.entry(labels).value = value;
+  }
+
+  inc(value = 1, labels: Labels = {}): void {
+    this.entry(labels).value += value;
+  }
+
+  dec(value = 1, labels: Labels = {}): void {
+    this.entry(labels).value -= value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.entry(labels).value;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [this.sample("", labels, value)];
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observations over fixed buckets. */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = "histogram";
+  readonly buckets: readonly number[];
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    buckets: readonly number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const entry = this.entry(labels).value;
+    const i = this.buckets.findIndex((bound) => value <= bound);
+    if (i >= 0) entry.counts[i]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /** Count and sum of the observations of one series. */
+  get(labels: Labels = {}): { count: number; sum: number } {
+    const { count, sum } = this.entry(labels).value;
+    return { count, sum };
+  }
+
+  protected initial(): HistogramValue {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.counts[i];
+      lines.push(this.sample("_bucket", { ...labels, le: formatValue(bound) }, cumulative));
+    });
+    lines.push(this.sample("_bucket", { ...labels, le: "+Inf" }, value.count));
+    lines.push(this.sample("_sum", labels, value.sum));
+    lines.push(this.sample("_count", labels, value.count));
+    return lines;
+  }
+}
+
+/**
+ * Named collection of metrics. Asking for an existing name returns the
+ * registered metric, so several recognizers can share one registry.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, "counter", () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, "gauge", () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    buckets?: number[],
+  ): Histogram {
+    return this.register(
+      name,
+      "histogram",
+      () => new Histogram(name, help, labelNames, buckets),
+    );
+  }
+
+  /** Registered metric by name. */
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name) as Counter | Gauge | Histogram | undefined;
+  }
+
+  /** Clear the values of every metric; registrations are kept. */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  /** Prometheus text format (version 0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) lines.push(...metric.render());
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  private register<M extends Metric<any>>(
+    name: string,
+    type: MetricType,
+    create: () => M,
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `metric ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing as unknown as M;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: Labels, names: readonly string[]): string {
+  const keys = [...names.filter((n) => n in labels), ...("le" in labels ? ["le"] : [])];
+  if (keys.length === 0) return "";
+  const pairs = keys.map((k) => `${k}="${escapeLabel(String(labels[k]))}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
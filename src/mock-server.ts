@@ -0,0 +1,655 @@
+/**
+ * In-process mock of the TRTC-ASR service for integration tests.
+ *
+ * Usage:
+ *   const server = new MockASRServer({ transcript: ["你好。", "今天天气不错。"] });
+ *   await server.start();
+ *   recognizer.setEndpoint(server.wsEndpoint);
+ *   sentenceRecognizer.setEndpoint(server.httpEndpoint);
+ *   server.injectFault("realtime", { type: "disconnect", afterMs: 500 });
+ *   ...
+ *   await server.close();
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { pcmBytesPerMs, sampleRateForEngine } from "./audio-format";
+import { ASRError, ErrorCode } from "./errors";
+import { TypedEventEmitter } from "./event-emitter";
+
+/** One scripted sentence. */
+export interface MockSentence {
+  text: string;
+  /** Texts of the slice_type 1 updates (default: the first half of `text`). */
+  partials?: string[];
+  /** Start on the received audio in ms (default: end of the previous sentence). */
+  startMs?: number;
+  /** End on the received audio in ms (default: startMs + 1000). */
+  endMs?: number;
+}
+
+/** Sentences every session and task recognizes, in order. */
+export type MockTranscript = (string | MockSentence)[];
+
+/** APIs served by the mock; faults are injected per API. */
+export type MockApi = "realtime" | "sentence" | "createTask" | "describeTask";
+
+/**
+ * Fault injected into upcoming sessions or requests.
+ *
+ * - latency: delay every message or response by `ms`.
+ * - disconnect: drop the connection without a response; real-time
+ *   sessions are dropped once `afterMs` of audio has arrived (default 0).
+ * - serverError: real-time only; send a non-zero `code` and close.
+ * - httpStatus: HTTP only; respond with this status code.
+ * - responseError: HTTP only; respond with `Response.Error`.
+ * - taskFailed: createTask only; the task ends with status FAILED.
+ */
+export type MockFault =
+  | { type: "latency"; ms: number }
+  | { type: "disconnect"; afterMs?: number }
+  | { type: "serverError"; code: number; message?: string; afterMs?: number }
+  | { type: "httpStatus"; status: number; body?: string }
+  | { type: "responseError"; code: string; message?: string }
+  | { type: "taskFailed"; message?: string };
+
+/** Options for MockASRServer. */
+export interface MockServerOptions {
+  /** Transcript of sessions, sentence requests and tasks (default: empty). */
+  transcript?: MockTranscript;
+  /** Host to listen on (default "127.0.0.1"). */
+  host?: string;
+  /** Port to listen on (default 0, any free port). */
+  port?: number;
+  /** DescribeTaskStatus calls before a task completes (default 2). */
+  pollsUntilDone?: number;
+}
+
+/** A real-time session received by the mock. */
+export interface MockSession {
+  voiceId: string;
+  engine: string;
+  /** Query parameters of the WebSocket URL. */
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  /** Audio bytes received. */
+  audioBytes: number;
+  /** Whether the client sent the end signal. */
+  ended: boolean;
+}
+
+/** An HTTP request received by the mock. */
+export interface MockRequest {
+  api: Exclude<MockApi, "realtime">;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  /** Parsed JSON body, or null when it is not a JSON object. */
+  body: Record<string, unknown> | null;
+}
+
+/** Events emitted by MockASRServer. */
+export interface MockServerEvents {
+  session: [session: MockSession];
+  request: [request: MockRequest];
+}
+
+interface Sentence {
+  text: string;
+  partials: string[];
+  startMs: number;
+  endMs: number;
+}
+
+interface ScriptedMessage {
+  atMs: number;
+  sliceType: number;
+  index: number;
+  text: string;
+  sentence: Sentence;
+}
+
+interface Task {
+  polls: number;
+  sentences: Sentence[];
+  failure: string | null;
+}
+
+const HTTP_APIS: Record<string, MockRequest["api"]> = {
+  "/v1/SentenceRecognition": "sentence",
+  "/v1/CreateRecTask": "createTask",
+  "/v1/DescribeTaskStatus": "describeTask",
+};
+
+const FAULT_APIS: Record<MockFault["type"], readonly MockApi[]> = {
+  latency: ["realtime", "sentence", "createTask", "describeTask"],
+  disconnect: ["realtime", "sentence", "createTask", "describeTask"],
+  serverError: ["realtime"],
+  httpStatus: ["sentence", "createTask", "describeTask"],
+  responseError: ["sentence", "createTask", "describeTask"],
+  taskFailed: ["createTask"],
+};
+
+const DEFAULT_SENTENCE_MS = 1000;
+
+/**
+ * Mock of the asr/v2 WebSocket protocol and the SentenceRecognition,
+ * CreateRecTask and DescribeTaskStatus HTTP APIs on one local port.
+ *
+ * Real-time results follow the received audio: a sentence begins
+ * (slice_type 0) once `startMs` of PCM has arrived, is updated
+ * (slice_type 1) on the way and ends (slice_type 2) at `endMs`. Anything
+ * left is flushed when the client sends the end signal, followed by the
+ * `final` message. For non-PCM formats everything is sent at the end.
+ */
+export class MockASRServer extends TypedEventEmitter<MockServerEvents> {
+  /** Real-time sessions received, oldest first. */
+  readonly sessions: MockSession[] = [];
+  /** HTTP requests received, oldest first. */
+  readonly requests: MockRequest[] = [];
+
+  private readonly host: string;
+  private readonly port: number;
+  private readonly pollsUntilDone: number;
+  private sentences: Sentence[] = [];
+  private faults: { api: MockApi; fault: MockFault; remaining: number }[] = [];
+  private tasks = new Map<string, Task>();
+  private taskCount = 0;
+  private httpServer: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private timers = new Set<NodeJS.Timeout>();
+  /** Ends each pending delay() when the server closes. */
+  private delays = new Set<() => void>();
+
+  constructor(options: MockServerOptions = {}) {
+    super();
+    this.host = options.host ?? "127.0.0.1";
+    this.port = options.port ?? 0;
+    this.pollsUntilDone = options.pollsUntilDone ?? 2;
+    if (!Number.isInteger(this.pollsUntilDone) || this.pollsUntilDone < 1) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        "pollsUntilDone must be a positive integer",
+      );
+    }
+    this.setTranscript(options.transcript ?? []);
+  }
+
+  /** Replace the transcript of later sessions, requests and tasks. */
+  setTranscript(transcript: MockTranscript): void {
+    let cursor = 0;
+    this.sentences = transcript.map((item, i) => {
+      const s = typeof item === "string" ? { text: item } : item;
+      if (typeof s.text !== "string") {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `transcript[${i}].text must be a string`,
+        );
+      }
+      const startMs = s.startMs ?? cursor;
+      const endMs = s.endMs ?? startMs + DEFAULT_SENTENCE_MS;
+      if (startMs < 0 || endMs <= startMs) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `transcript[${i}] must end after it starts`,
+        );
+      }
+      cursor = endMs;
+      return {
+        text: s.text,
+        partials: s.partials ?? [s.text.slice(0, Math.ceil(s.text.length / 2))],
+        startMs,
+        endMs,
+      };
+    });
+  }
+
+  /**
+   * Apply a fault to the next `times` sessions or requests of an API
+   * (default once; pass Infinity to keep it).
+   */
+  injectFault(api: MockApi, fault: MockFault, times = 1): void {
+    if (!FAULT_APIS[fault.type]?.includes(api)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `fault "${fault.type}" does not apply to ${api}`,
+      );
+    }
+    if (!(times >= 1)) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, "times must be at least 1");
+    }
+    this.faults.push({ api, fault, remaining: times });
+  }
+
+  /** Remove all pending faults. */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Start listening. */
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new ASRError(ErrorCode.ALREADY_STARTED, "mock server already started");
+    }
+    const server = http.createServer((req, res) => {
+      this.handleHttp(req, res).catch(() => {
+        if (!res.headersSent) res.statusCode = 500;
+        res.end();
+      });
+    });
+    const wss = new WebSocketServer({ server });
+    wss.on("connection", (socket, req) => this.handleSession(socket, req));
+    this.httpServer = server;
+    this.wss = wss;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  /** Base URL for SpeechRecognizer.setEndpoint(). */
+  get wsEndpoint(): string {
+    return `ws://${this.address()}`;
+  }
+
+  /** Base URL for SentenceRecognizer / FileRecognizer.setEndpoint(). */
+  get httpEndpoint(): string {
+    return `http://${this.address()}`;
+  }
+
+  /** Drop every open real-time connection without a close frame. */
+  disconnectAll(): void {
+    for (const socket of this.wss?.clients ?? []) socket.terminate();
+  }
+
+  /** Drop all connections and stop listening. */
+  async close(): Promise<void> {
+    const server = this.httpServer;
+    if (!server) return;
+    this.httpServer = null;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    for (const cancel of this.delays) cancel();
+    this.delays.clear();
+    this.disconnectAll();
+    this.wss?.close();
+    this.wss = null;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  private address(): string {
+    if (!this.httpServer) {
+      throw new ASRError(ErrorCode.NOT_STARTED, "mock server not started");
+    }
+    const { port } = this.httpServer.address() as AddressInfo;
+    return `${this.host}:${port}`;
+  }
+
+  /** Faults for one session or request, consuming one use of each. */
+  private takeFaults(api: MockApi): MockFault[] {
+    const taken: MockFault[] = [];
+    for (const entry of this.faults) {
+      if (entry.api !== api) continue;
+      taken.push(entry.fault);
+      entry.remaining--;
+    }
+    this.faults = this.faults.filter((entry) => entry.remaining > 0);
+    return taken;
+  }
+
+  private schedule(delayMs: number, fn: () => void): void {
+    if (delayMs <= 0) {
+      fn();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  /** Wait `ms`; resolves false instead if close() is called first. */
+  private delay(ms: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const cancel = () => resolve(false);
+      this.delays.add(cancel);
+      this.schedule(ms, () => {
+        this.delays.delete(cancel);
+        resolve(true);
+      });
+    });
+  }
+
+  // ---- Real-time protocol ----
+
+  private handleSession(socket: WebSocket, req: http.IncomingMessage): void {
+    const url = new URL(req.url ?? "/", "ws://localhost");
+    const query = Object.fromEntries(url.searchParams);
+    const session: MockSession = {
+      voiceId: query.voice_id ?? "",
+      engine: query.engine_model_type ?? "",
+      query,
+      headers: req.headers,
+      audioBytes: 0,
+      ended: false,
+    };
+    this.sessions.push(session);
+    this.emit("session", session);
+
+    const faults = this.takeFaults("realtime");
+    const latency = faults.reduce((ms, f) => (f.type === "latency" ? ms + f.ms : ms), 0);
+    const pendingFaults = faults.filter(
+      (f): f is Extract<MockFault, { afterMs?: number }> =>
+        f.type === "disconnect" || f.type === "serverError",
+    );
+    const bytesPerMs = pcmBytesPerMs(
+      Number(query.voice_format ?? 1),
+      sampleRateForEngine(session.engine),
+    );
+    const script = scriptMessages(this.sentences);
+    const wordInfo = Number(query.word_info ?? 0) > 0;
+    let messageCount = 0;
+    let finished = false;
+
+    const send = (body: object) => {
+      this.schedule(latency, () => {
+        if (socket.readyState !== WebSocket.OPEN) return;
+        socket.send(
+          JSON.stringify({
+            code: 0,
+            message: "success",
+            voice_id: session.voiceId,
+            message_id: `${session.voiceId}_${messageCount++}`,
+            final: 0,
+            ...body,
+          }),
+        );
+      });
+    };
+    const fail = (code: number, message: string) => {
+      finished = true;
+      send({ code, message });
+      this.schedule(latency, () => socket.close());
+    };
+    const flush = (receivedMs: number) => {
+      while (script.length > 0 && script[0].atMs <= receivedMs) {
+        const msg = script.shift()!;
+        send({ result: realtimeResult(msg, wordInfo) });
+      }
+    };
+    const checkFaults = (receivedMs: number) => {
+      for (const fault of [...pendingFaults]) {
+        if ((fault.afterMs ?? 0) > receivedMs) continue;
+        pendingFaults.splice(pendingFaults.indexOf(fault), 1);
+        if (fault.type === "disconnect") {
+          finished = true;
+          this.schedule(latency, () => socket.terminate());
+        } else {
+          fail(fault.code, fault.message ?? "mock server error");
+        }
+        return;
+      }
+    };
+
+    if (!/^\/asr\/v2\/\d+$/.test(url.pathname) || !session.voiceId || !session.engine) {
+      fail(4001, "invalid request parameters");
+      return;
+    }
+    if (!query.signature || !req.headers["x-trtc-usersig"]) {
+      fail(4002, "authentication failed");
+      return;
+    }
+
+    send({});
+    checkFaults(0);
+
+    socket.on("message", (data: WebSocket.RawData, isBinary: boolean) => {
+      if (finished) return;
+      const buf = Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer);
+      if (isBinary) {
+        session.audioBytes += buf.length;
+        if (bytesPerMs > 0) {
+          const receivedMs = session.audioBytes / bytesPerMs;
+          flush(receivedMs);
+          checkFaults(receivedMs);
+        }
+        return;
+      }
+
+      let msg: unknown;
+      try {
+        msg = JSON.parse(buf.toString("utf-8"));
+      } catch {
+        fail(4008, "invalid message");
+        return;
+      }
+      if (isRecord(msg) && msg.type === "end") {
+        session.ended = true;
+        finished = true;
+        flush(Infinity);
+        send({ final: 1 });
+        this.schedule(latency, () => socket.close(1000));
+      }
+    });
+  }
+
+  // ---- HTTP APIs ----
+
+  private async handleHttp(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const api = HTTP_APIS[url.pathname];
+    if (!api || req.method !== "POST") {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf-8");
+    let body: Record<string, unknown> | null = null;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isRecord(parsed)) body = parsed;
+    } catch {
+      // Answered with a Response.Error below.
+    }
+
+    const query = Object.fromEntries(url.searchParams);
+    const request: MockRequest = { api, query, headers: req.headers, body };
+    this.requests.push(request);
+    this.emit("request", request);
+
+    const faults = this.takeFaults(api);
+    const latency = faults.reduce((ms, f) => (f.type === "latency" ? ms + f.ms : ms), 0);
+    if (latency > 0 && !(await this.delay(latency))) {
+      // Closed while delayed: drop the request unanswered.
+      res.destroy();
+      return;
+    }
+
+    const requestId = query.RequestId ?? "";
+    const respond = (response: object) => {
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify({ Response: { RequestId: requestId, ...response } }));
+    };
+    const respondError = (code: string, message: string) => {
+      respond({ Error: { Code: code, Message: message } });
+    };
+
+    for (const fault of faults) {
+      switch (fault.type) {
+        case "disconnect":
+          req.socket.destroy();
+          return;
+        case "httpStatus":
+          res.statusCode = fault.status;
+          res.end(fault.body ?? http.STATUS_CODES[fault.status] ?? "");
+          return;
+        case "responseError":
+          respondError(fault.code, fault.message ?? "mock server error");
+          return;
+      }
+    }
+
+    if (!req.headers["x-trtc-usersig"]) {
+      respondError("AuthFailure.SignatureFailure", "missing X-TRTC-UserSig");
+      return;
+    }
+    if (!body) {
+      respondError("InvalidParameter", "request body is not valid JSON");
+      return;
+    }
+
+    switch (api) {
+      case "sentence":
+        respond(sentenceResponse(this.sentences, Number(body.WordInfo ?? 0) > 0));
+        return;
+      case "createTask": {
+        const recTaskId = `task-${++this.taskCount}`;
+        const failed = faults.find((f) => f.type === "taskFailed");
+        this.tasks.set(recTaskId, {
+          polls: 0,
+          sentences: this.sentences,
+          failure: failed?.type === "taskFailed" ? failed.message ?? "mock task failed" : null,
+        });
+        respond({ Data: { RecTaskId: recTaskId } });
+        return;
+      }
+      case "describeTask": {
+        const task = this.tasks.get(String(body.RecTaskId));
+        if (!task) {
+          respondError("InvalidParameter", `task not found: ${body.RecTaskId}`);
+          return;
+        }
+        respond({ Data: taskData(String(body.RecTaskId), task, this.pollsUntilDone) });
+        return;
+      }
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Real-time messages of a transcript, in send order. */
+function scriptMessages(sentences: Sentence[]): ScriptedMessage[] {
+  const messages: ScriptedMessage[] = [];
+  sentences.forEach((sentence, index) => {
+    const { startMs, endMs, partials } = sentence;
+    messages.push({ atMs: startMs, sliceType: 0, index, text: "", sentence });
+    partials.forEach((text, i) => {
+      const atMs = startMs + ((endMs - startMs) * (i + 1)) / (partials.length + 1);
+      messages.push({ atMs, sliceType: 1, index, text, sentence });
+    });
+    messages.push({ atMs: endMs, sliceType: 2, index, text: sentence.text, sentence });
+  });
+  return messages;
+}
+
+function realtimeResult(msg: ScriptedMessage, wordInfo: boolean) {
+  const { startMs } = msg.sentence;
+  const endMs = msg.sliceType === 2 ? msg.sentence.endMs : Math.round(msg.atMs);
+  const words = wordInfo ? splitWords(msg.text, startMs, endMs) : [];
+  return {
+    slice_type: msg.sliceType,
+    index: msg.index,
+    start_time: startMs,
+    end_time: endMs,
+    voice_text_str: msg.text,
+    word_size: words.length,
+    word_list: words.map((w) => ({
+      word: w.word,
+      start_time: w.startMs,
+      end_time: w.endMs,
+      stable_flag: msg.sliceType === 2 ? 1 : 0,
+    })),
+  };
+}
+
+function sentenceResponse(sentences: Sentence[], wordInfo: boolean) {
+  const words = wordInfo
+    ? sentences.flatMap((s) => splitWords(s.text, s.startMs, s.endMs))
+    : [];
+  return {
+    Result: sentences.map((s) => s.text).join(""),
+    AudioDuration: sentences.length > 0 ? sentences[sentences.length - 1].endMs : 0,
+    WordSize: words.length,
+    WordList: words.map((w) => ({ Word: w.word, StartTime: w.startMs, EndTime: w.endMs })),
+  };
+}
+
+function taskData(recTaskId: string, task: Task, pollsUntilDone: number) {
+  task.polls++;
+  if (task.polls < pollsUntilDone) {
+    const waiting = task.polls === 1;
+    return {
+      RecTaskId: recTaskId,
+      Status: waiting ? 0 : 1,
+      StatusStr: waiting ? "waiting" : "doing",
+    };
+  }
+  if (task.failure !== null) {
+    return { RecTaskId: recTaskId, Status: 3, StatusStr: "failed", ErrorMsg: task.failure };
+  }
+
+  const sentences = task.sentences;
+  return {
+    RecTaskId: recTaskId,
+    Status: 2,
+    StatusStr: "success",
+    Result: sentences
+      .map((s) => `[${formatTime(s.startMs)},${formatTime(s.endMs)}]  ${s.text}\n`)
+      .join(""),
+    AudioDuration: sentences.length > 0 ? sentences[sentences.length - 1].endMs / 1000 : 0,
+    ResultDetail: sentences.map((s) => {
+      const words = splitWords(s.text, s.startMs, s.endMs);
+      return {
+        FinalSentence: s.text,
+        SliceSentence: words.map((w) => w.word).join(" "),
+        WrittenText: s.text,
+        StartMs: s.startMs,
+        EndMs: s.endMs,
+        WordsNum: words.length,
+        Words: words.map((w) => ({
+          Word: w.word,
+          OffsetStartMs: w.startMs - s.startMs,
+          OffsetEndMs: w.endMs - s.startMs,
+        })),
+        SpeechSpeed: 0,
+        SilenceTime: 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Words of a text (space separated, or single characters for text
+ * without spaces) spread evenly over [startMs, endMs].
+ */
+function splitWords(text: string, startMs: number, endMs: number) {
+  const words = text.includes(" ") ? text.split(/\s+/).filter(Boolean) : [...text];
+  const step = words.length > 0 ? (endMs - startMs) / words.length : 0;
+  return words.map((word, i) => ({
+    word,
+    startMs: Math.round(startMs + step * i),
+    endMs: Math.round(startMs + step * (i + 1)),
+  }));
+}
+
+/** "m:ss.mmm", as in the Result text of file recognition. */
+function formatTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, "0");
+  return `${minutes}:${seconds}`;
+}
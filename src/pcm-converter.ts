@@ -0,0 +1,351 @@
+/**
+ * Streaming conversion of arbitrary PCM input to the 16-bit mono PCM at the
+ * sample rate expected by the engine model.
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+
+/** Sample encoding of PCM input. "uint8" is the 8-bit format used by WAV. */
+export type SampleFormat =
+  | "int16"
+  | "int24"
+  | "int32"
+  | "float32"
+  | "int8"
+  | "uint8";
+
+/** Byte order of multi-byte samples. */
+export type Endianness = "le" | "be";
+
+/**
+ * Resampling algorithm:
+ * - "linear": linear interpolation, cheapest but aliases when downsampling.
+ * - "sinc": windowed-sinc low-pass interpolation, more CPU, better accuracy.
+ */
+export type ResamplerQuality = "linear" | "sinc";
+
+/** Format of the audio passed to SpeechRecognizer.write(). */
+export interface PcmInputFormat {
+  /** Sample rate in Hz. */
+  sampleRate: number;
+  /** Interleaved channels, averaged to mono (default 1). */
+  channels?: number;
+  /** Sample encoding (default "int16"). */
+  sampleFormat?: SampleFormat;
+  /** Byte order of multi-byte samples (default "le"). */
+  endianness?: Endianness;
+  /** Resampler used when the sample rate differs (default "sinc"). */
+  resampler?: ResamplerQuality;
+}
+
+const SAMPLE_BYTES: Record<SampleFormat, number> = {
+  int16: 2,
+  int24: 3,
+  int32: 4,
+  float32: 4,
+  int8: 1,
+  uint8: 1,
+};
+
+/** Zero crossings of the sinc kernel on each side. */
+const SINC_ZERO_CROSSINGS = 16;
+/** Kernel table entries per input sample. */
+const SINC_TABLE_RESOLUTION = 256;
+
+/** Throw INVALID_PARAM unless the format describes usable PCM input. */
+export function validatePcmInputFormat(format: PcmInputFormat): void {
+  if (!(format.sampleRate > 0) || !Number.isFinite(format.sampleRate)) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid sample rate: ${format.sampleRate}`,
+    );
+  }
+  const channels = format.channels ?? 1;
+  if (!Number.isInteger(channels) || channels < 1) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid channel count: ${format.channels}`,
+    );
+  }
+  if (format.sampleFormat && !(format.sampleFormat in SAMPLE_BYTES)) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid sample format: ${format.sampleFormat}`,
+    );
+  }
+  if (format.endianness && format.endianness !== "le" && format.endianness !== "be") {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid endianness: ${format.endianness}`,
+    );
+  }
+  if (format.resampler && format.resampler !== "linear" && format.resampler !== "sinc") {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid resampler: ${format.resampler}`,
+    );
+  }
+}
+
+/** Bytes of one interleaved sample frame (all channels). */
+export function pcmFrameBytes(format: PcmInputFormat): number {
+  return (format.channels ?? 1) * SAMPLE_BYTES[format.sampleFormat ?? "int16"];
+}
+
+/**
+ * Converts chunks of input PCM to 16-bit little-endian mono at `outputRate`.
+ * Partial sample frames and resampler history carry over between chunks,
+ * so any chunking of the input yields the same output.
+ */
+export class PcmConverter {
+  private readonly channels: number;
+  private readonly sampleFormat: SampleFormat;
+  private readonly bigEndian: boolean;
+  private readonly frameBytes: number;
+  private readonly resampler: Resampler | null;
+  private pending: Buffer = Buffer.alloc(0);
+
+  constructor(
+    readonly input: PcmInputFormat,
+    readonly outputRate: number,
+  ) {
+    validatePcmInputFormat(input);
+    this.channels = input.channels ?? 1;
+    this.sampleFormat = input.sampleFormat ?? "int16";
+    this.bigEndian = input.endianness === "be";
+    this.frameBytes = pcmFrameBytes(input);
+
+    if (input.sampleRate === outputRate) {
+      this.resampler = null;
+    } else if (input.resampler === "linear") {
+      this.resampler = new LinearResampler(input.sampleRate, outputRate);
+    } else {
+      this.resampler = new SincResampler(input.sampleRate, outputRate);
+    }
+  }
+
+  /** True when the input already matches the output format. */
+  get isPassthrough(): boolean {
+    return (
+      this.resampler === null &&
+      this.channels === 1 &&
+      this.sampleFormat === "int16" &&
+      !this.bigEndian
+    );
+  }
+
+  /** Convert a chunk of input; may return an empty buffer. */
+  convert(data: Buffer): Buffer {
+    if (this.isPassthrough && this.pending.length === 0 && data.length % 2 === 0) {
+      return data;
+    }
+
+    const input = this.pending.length > 0 ? Buffer.concat([this.pending, data]) : data;
+    const usable = input.length - (input.length % this.frameBytes);
+    this.pending = Buffer.from(input.subarray(usable));
+
+    const mono = this.decode(input.subarray(0, usable));
+    return encodeInt16(this.resampler ? this.resampler.process(mono) : mono);
+  }
+
+  /** Emit the samples still held by the resampler at the end of input. */
+  flush(): Buffer {
+    this.pending = Buffer.alloc(0);
+    return encodeInt16(this.resampler ? this.resampler.flush() : new Float32Array(0));
+  }
+
+  /** Decode interleaved frames to mono samples in [-1, 1). */
+  private decode(data: Buffer): Float32Array {
+    const frames = data.length / this.frameBytes;
+    const out = new Float32Array(frames);
+    const sampleBytes = SAMPLE_BYTES[this.sampleFormat];
+
+    for (let f = 0; f < frames; f++) {
+      let sum = 0;
+      for (let c = 0; c < this.channels; c++) {
+        sum += this.readSample(data, (f * this.channels + c) * sampleBytes);
+      }
+      out[f] = sum / this.channels;
+    }
+    return out;
+  }
+
+  private readSample(data: Buffer, offset: number): number {
+    switch (this.sampleFormat) {
+      case "int16":
+        return (
+          (this.bigEndian ? data.readInt16BE(offset) : data.readInt16LE(offset)) /
+          32768
+        );
+      case "int24":
+        return (
+          (this.bigEndian ? data.readIntBE(offset, 3) : data.readIntLE(offset, 3)) /
+          8388608
+        );
+      case "int32":
+        return (
+          (this.bigEndian ? data.readInt32BE(offset) : data.readInt32LE(offset)) /
+          2147483648
+        );
+      case "float32":
+        return this.bigEndian ? data.readFloatBE(offset) : data.readFloatLE(offset);
+      case "int8":
+        return data.readInt8(offset) / 128;
+      case "uint8":
+        return (data[offset] - 128) / 128;
+    }
+  }
+}
+
+function encodeInt16(samples: Float32Array): Buffer {
+  const out = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.round(samples[i] * 32768);
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, v)), i * 2);
+  }
+  return out;
+}
+
+interface Resampler {
+  process(samples: Float32Array): Float32Array;
+  flush(): Float32Array;
+}
+
+class LinearResampler implements Resampler {
+  private readonly step: number;
+  private last: number | null = null;
+  private time = 0; // position of the next output relative to `last`
+
+  constructor(inputRate: number, outputRate: number) {
+    this.step = inputRate / outputRate;
+  }
+
+  process(samples: Float32Array): Float32Array {
+    if (samples.length === 0) return samples;
+
+    // buf[0] is the last sample of the previous chunk, when there is one.
+    const offset = this.last === null ? 0 : 1;
+    const buf = new Float32Array(samples.length + offset);
+    if (this.last !== null) buf[0] = this.last;
+    buf.set(samples, offset);
+
+    const out: number[] = [];
+    while (this.time <= buf.length - 1) {
+      const i = Math.floor(this.time);
+      const frac = this.time - i;
+      const next = i + 1 < buf.length ? buf[i + 1] : buf[i];
+      out.push(buf[i] + (next - buf[i]) * frac);
+      this.time += this.step;
+    }
+
+    this.time -= buf.length - 1;
+    this.last = buf[buf.length - 1];
+    return Float32Array.from(out);
+  }
+
+  flush(): Float32Array {
+    this.last = null;
+    this.time = 0;
+    return new Float32Array(0);
+  }
+}
+
+/**
+ * Band-limited interpolation with a Blackman-windowed sinc kernel. Output
+ * lags the input by the kernel half-width; flush() drains it.
+ */
+class SincResampler implements Resampler {
+  private readonly step: number;
+  private readonly cutoff: number;
+  private readonly halfWidth: number; // in input samples
+  private readonly table: Float32Array;
+
+  private buf: Float32Array;
+  private bufStart: number; // absolute index of buf[0]
+  private time = 0; // absolute input position of the next output sample
+  private inputCount = 0;
+
+  constructor(inputRate: number, outputRate: number) {
+    this.step = inputRate / outputRate;
+    // Low-pass below the lower of the two Nyquist frequencies.
+    this.cutoff = Math.min(1, outputRate / inputRate);
+    this.halfWidth = Math.ceil(SINC_ZERO_CROSSINGS / this.cutoff);
+    this.table = this.buildTable();
+    this.buf = new Float32Array(this.halfWidth);
+    this.bufStart = -this.halfWidth;
+  }
+
+  process(samples: Float32Array): Float32Array {
+    this.inputCount += samples.length;
+    return this.run(samples, Infinity);
+  }
+
+  flush(): Float32Array {
+    // Zero padding lets the last input samples pass through the kernel.
+    const out = this.run(new Float32Array(this.halfWidth + 1), this.inputCount);
+    this.buf = new Float32Array(this.halfWidth);
+    this.bufStart = -this.halfWidth;
+    this.time = 0;
+    this.inputCount = 0;
+    return out;
+  }
+
+  private run(samples: Float32Array, limit: number): Float32Array {
+    const merged = new Float32Array(this.buf.length + samples.length);
+    merged.set(this.buf);
+    merged.set(samples, this.buf.length);
+    this.buf = merged;
+    const end = this.bufStart + this.buf.length;
+
+    const out: number[] = [];
+    while (
+      this.time < limit &&
+      Math.floor(this.time) + this.halfWidth < end
+    ) {
+      out.push(this.interpolate(this.time));
+      this.time += this.step;
+    }
+
+    const keepFrom = Math.max(Math.floor(this.time) - this.halfWidth + 1, this.bufStart);
+    this.buf = this.buf.slice(keepFrom - this.bufStart);
+    this.bufStart = keepFrom;
+    return Float32Array.from(out);
+  }
+
+  private interpolate(t: number): number {
+    const center = Math.floor(t);
+    let sum = 0;
+    for (
+      let k = center - this.halfWidth + 1;
+      k <= center + this.halfWidth;
+      k++
+    ) {
+      const i = k - this.bufStart;
+      if (i < 0) continue;
+      sum += this.buf[i] * this.kernel(Math.abs(t - k));
+    }
+    return sum;
+  }
+
+  private kernel(distance: number): number {
+    const pos = distance * SINC_TABLE_RESOLUTION;
+    const i = Math.floor(pos);
+    if (i + 1 >= this.table.length) return 0;
+    const frac = pos - i;
+    return this.table[i] + (this.table[i + 1] - this.table[i]) * frac;
+  }
+
+  private buildTable(): Float32Array {
+    const size = this.halfWidth * SINC_TABLE_RESOLUTION + 1;
+    const table = new Float32Array(size + 1);
+    for (let i = 0; i < size; i++) {
+      const d = i / SINC_TABLE_RESOLUTION;
+      const x = Math.PI * this.cutoff * d;
+      const sinc = d === 0 ? 1 : Math.sin(x) / x;
+      const w = 0.42 + 0.5 * Math.cos((Math.PI * d) / this.halfWidth) +
+        0.08 * Math.cos((2 * Math.PI * d) / this.halfWidth);
+      table[i] = this.cutoff * sinc * w;
+    }
+    return table;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Async-iterable and WHATWG stream views of real-time recognition events.
+ *
+ * Usage:
+ *   const events = recognizer.results();
+ *   await recognizer.start();
+ *   for await (const evt of events) {
+ *     if (evt.type === "sentenceEnd") console.log(evt.response.result.voice_text_str);
+ *   }
+ */
+
+import { ReadableStream } from "stream/web";
+import {
+  SpeechRecognitionListener,
+  SpeechRecognitionResponse,
+} from "./speech-recognizer";
+
+/** Recognition event yielded by RecognitionEventSource. */
+export type RecognitionEvent =
+  | { type: "start"; response: SpeechRecognitionResponse }
+  | { type: "sentenceBegin"; response: SpeechRecognitionResponse }
+  | { type: "partial"; response: SpeechRecognitionResponse }
+  | { type: "sentenceEnd"; response: SpeechRecognitionResponse }
+  | { type: "complete"; response: SpeechRecognitionResponse };
+
+/**
+ * How events are buffered while the consumer is slower than the service:
+ * - "unbounded": keep every event.
+ * - "dropPartials": a queued partial result is replaced by a newer partial
+ *   of the same sentence; other events are always kept.
+ */
+export type BufferingPolicy = "unbounded" | "dropPartials";
+
+/** Options for RecognitionEventSource. */
+export interface RecognitionEventOptions {
+  buffering?: BufferingPolicy;
+}
+
+/**
+ * Buffers recognition events for pull-based consumers. Iteration ends after
+ * the "complete" event or when the recognizer stops, and throws the error
+ * reported by onFail once the events queued before it are consumed.
+ */
+export class RecognitionEventSource
+  implements SpeechRecognitionListener, AsyncIterable<RecognitionEvent>
+{
+  private readonly buffering: BufferingPolicy;
+  private queue: RecognitionEvent[] = [];
+  private waiters: ((result: IteratorResult<RecognitionEvent>) => void)[] = [];
+  private failWaiters: ((err: Error) => void)[] = [];
+  private error: Error | null = null;
+  private closed = false;
+
+  constructor(
+    options: RecognitionEventOptions = {},
+    private readonly detach: () => void = () => undefined,
+  ) {
+    this.buffering = options.buffering ?? "unbounded";
+  }
+
+  // ---- SpeechRecognitionListener ----
+
+  onRecognitionStart(response: SpeechRecognitionResponse): void {
+    this.enqueue({ type: "start", response });
+  }
+  onSentenceBegin(response: SpeechRecognitionResponse): void {
+    this.enqueue({ type: "sentenceBegin", response });
+  }
+  onRecognitionResultChange(response: SpeechRecognitionResponse): void {
+    this.enqueue({ type: "partial", response });
+  }
+  onSentenceEnd(response: SpeechRecognitionResponse): void {
+    this.enqueue({ type: "sentenceEnd", response });
+  }
+  onRecognitionComplete(response: SpeechRecognitionResponse): void {
+    this.enqueue({ type: "complete", response });
+    this.close();
+  }
+  onFail(_response: SpeechRecognitionResponse | null, error: Error): void {
+    if (this.closed) return;
+    this.error = error;
+    this.close();
+  }
+
+  // ---- Consumer API ----
+
+  /** Number of events waiting to be consumed. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** End iteration after the queued events and stop receiving new ones. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.detach();
+    if (this.queue.length > 0) return;
+
+    for (const waiter of this.waiters) waiter({ value: undefined, done: true });
+    for (const fail of this.failWaiters) fail(this.error!);
+    this.waiters = [];
+    this.failWaiters = [];
+  }
+
+  next(): Promise<IteratorResult<RecognitionEvent>> {
+    const value = this.queue.shift();
+    if (value) {
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.closed) {
+      if (this.error) {
+        const err = this.error;
+        this.error = null;
+        return Promise.reject(err);
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push(resolve);
+      this.failWaiters.push(reject);
+    });
+  }
+
+  return(): Promise<IteratorResult<RecognitionEvent>> {
+    this.queue = [];
+    this.error = null;
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<RecognitionEvent> {
+    return this;
+  }
+
+  /** Expose the events as a WHATWG ReadableStream. */
+  toReadableStream(): ReadableStream<RecognitionEvent> {
+    return new ReadableStream<RecognitionEvent>(
+      {
+        pull: async (controller) => {
+          const { value, done } = await this.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        },
+        cancel: async () => {
+          await this.return();
+        },
+      },
+      { highWaterMark: 0 },
+    );
+  }
+
+  private enqueue(event: RecognitionEvent): void {
+    if (this.closed) return;
+
+    if (this.waiters.length > 0) {
+      const waiter = this.waiters.shift()!;
+      this.failWaiters.shift();
+      waiter({ value: event, done: false });
+      return;
+    }
+
+    if (this.buffering === "dropPartials" && event.type === "partial") {
+      const index = event.response.result?.index;
+      this.queue = this.queue.filter(
+        (e) => e.type !== "partial" || e.response.result?.index !== index,
+      );
+    }
+    this.queue.push(event);
+  }
+}
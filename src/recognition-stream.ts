@@ -0,0 +1,125 @@
+/**
+ * Node.js stream interface for real-time speech recognition.
+ *
+ * Usage:
+ *   const stream = createRecognitionStream(credential, "16k_zh");
+ *   stream.recognizer.setVadSilenceTime(500);
+ *   await pipeline(fs.createReadStream("audio.pcm"), stream, sink);
+ */
+
+import { Duplex } from "stream";
+import { Credential } from "./credential";
+import {
+  RecognizerState,
+  SpeechRecognitionListener,
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "./speech-recognizer";
+
+/** Options for createRecognitionStream. */
+export interface RecognitionStreamOptions {
+  /** Also emit sentence-begin and partial results, not only sentence ends. */
+  partialResults?: boolean;
+}
+
+/**
+ * Duplex stream over a SpeechRecognizer.
+ *
+ * The writable side accepts PCM Buffers; each chunk is acknowledged only
+ * after it has been sent, so producers get backpressure. The readable side
+ * emits SpeechRecognitionResponse objects. Ending the writable side stops
+ * the session, and recognition failures destroy the stream.
+ *
+ * The session starts on the first write, so `recognizer` may be configured
+ * right after construction.
+ */
+export class RecognitionStream extends Duplex {
+  readonly recognizer: SpeechRecognizer;
+  private readonly partialResults: boolean;
+  private started = false;
+  /** Cancels a pending start() or stop() when the stream is destroyed. */
+  private readonly aborter = new AbortController();
+
+  constructor(
+    credential: Credential,
+    engineModelType: string,
+    options: RecognitionStreamOptions = {},
+  ) {
+    super({ readableObjectMode: true, writableObjectMode: false });
+    this.partialResults = options.partialResults ?? false;
+    this.recognizer = new SpeechRecognizer(
+      credential,
+      engineModelType,
+      this.createListener(),
+    );
+  }
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    const send = () => this.recognizer.write(chunk);
+    const pending = this.started
+      ? send()
+      : this.recognizer.start({ signal: this.aborter.signal }).then(() => {
+          this.started = true;
+          return send();
+        });
+    pending.then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    if (!this.started) {
+      this.push(null);
+      callback();
+      return;
+    }
+    this.recognizer.stop({ signal: this.aborter.signal }).then(() => {
+      this.push(null);
+      callback();
+    }, callback);
+  }
+
+  _read(): void {
+    // Results are pushed as they arrive from the service.
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void,
+  ): void {
+    // A destroyed stream has no reader for final results: close at once.
+    this.aborter.abort();
+    if (this.recognizer.getState() === RecognizerState.RUNNING) {
+      this.recognizer.reset();
+    }
+    callback(error);
+  }
+
+  private createListener(): Partial<SpeechRecognitionListener> {
+    const emitPartial = (resp: SpeechRecognitionResponse) => {
+      if (this.partialResults) this.push(resp);
+    };
+    return {
+      onSentenceBegin: emitPartial,
+      onRecognitionResultChange: emitPartial,
+      onSentenceEnd: (resp) => {
+        this.push(resp);
+      },
+      onFail: (_resp, error) => {
+        // Connection failures before the session opens reject start().
+        if (this.started) this.destroy(error);
+      },
+    };
+  }
+}
+
+/** Create a Duplex stream that recognizes the PCM audio written to it. */
+export function createRecognitionStream(
+  credential: Credential,
+  engineModelType: string,
+  options?: RecognitionStreamOptions,
+): RecognitionStream {
+  return new RecognitionStream(credential, engineModelType, options);
+}
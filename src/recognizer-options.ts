@@ -0,0 +1,314 @@
+/**
+ * Typed configuration of SpeechRecognizer and its client-side validation.
+ *
+ * Usage:
+ *   const recognizer = new SpeechRecognizer(credential, "16k_zh", {
+ *     voiceFormat: "pcm",
+ *     vadSilenceTime: 800,
+ *     filterDirty: "replace",
+ *     wordInfo: "words",
+ *   });
+ *   recognizer.configure({ filterPunc: "all" });
+ */
+
+import type { AudioFramer } from "./audio-framers";
+import { VoiceFormat } from "./audio-format";
+import { ASRError, ErrorCode } from "./errors";
+import type { Instrumentation } from "./instrumentation";
+import type { Logger } from "./logger";
+import type { PcmInputFormat } from "./pcm-converter";
+import type { ProxyConfig } from "./proxy";
+import type { OverflowPolicy, SendQueueOptions } from "./send-queue";
+import type { SessionRecorder } from "./session-recording";
+import type { ReconnectPolicy } from "./speech-recognizer";
+import { LocalVadOptions, vadOptionError } from "./vad";
+
+export type VoiceFormatName =
+  | "pcm"
+  | "speex"
+  | "silk"
+  | "mp3"
+  | "opus"
+  | "wav"
+  | "m4a"
+  | "aac";
+/** "math" also converts arithmetic expressions. */
+export type ConvertNumMode = "off" | "smart" | "math";
+export type FilterDirtyMode = "off" | "filter" | "replace";
+export type FilterModalMode = "off" | "partial" | "strict";
+/** "sentenceEnd" drops the full stop at the end of sentences. */
+export type FilterPuncMode = "off" | "sentenceEnd" | "all";
+export type WordInfoMode = "off" | "words" | "wordsWithPunctuation";
+
+/**
+ * Configuration of a SpeechRecognizer, equivalent to its setXxx() methods.
+ * Durations are in ms; 0 keeps the service default. Fields left undefined
+ * are not changed by configure().
+ */
+export interface SpeechRecognizerOptions {
+  endpoint?: string;
+  /** Format of the audio passed to write() (default "pcm"). */
+  voiceFormat?: VoiceFormatName;
+  /** Server-side sentence segmentation (default true). */
+  vad?: boolean;
+  /** Silence that ends a sentence: 240-2000 ms, requires vad (default 1000). */
+  vadSilenceTime?: number;
+  /** Forced sentence break: 5000-90000 ms, requires vad (default 60000). */
+  maxSpeakTime?: number;
+  /** Write numbers as digits (default "smart"). */
+  convertNum?: ConvertNumMode;
+  hotwordId?: string;
+  customizationId?: string;
+  filterDirty?: FilterDirtyMode;
+  filterModal?: FilterModalMode;
+  filterPunc?: FilterPuncMode;
+  /** Word-level timing in the results (default "off"). */
+  wordInfo?: WordInfoMode;
+  /** voice_id of the next session (default a fresh UUID). */
+  voiceId?: string;
+  /** Time allowed for each write() in ms (default 5000). */
+  writeTimeout?: number;
+  reconnect?: ReconnectPolicy | null;
+  sendQueue?: SendQueueOptions | null;
+  localVad?: LocalVadOptions | null;
+  inputFormat?: PcmInputFormat | null;
+  /** Frame compressed input; sets voiceFormat to the framer's. */
+  framer?: AudioFramer | null;
+  proxy?: ProxyConfig | null;
+  instrumentation?: Instrumentation | null;
+  logger?: Logger | null;
+  recorder?: SessionRecorder | null;
+}
+
+/** Query parameter value of each option value. */
+export const VOICE_FORMATS: Record<VoiceFormatName, number> = {
+  pcm: VoiceFormat.PCM,
+  speex: VoiceFormat.SPEEX,
+  silk: VoiceFormat.SILK,
+  mp3: VoiceFormat.MP3,
+  opus: VoiceFormat.OPUS,
+  wav: VoiceFormat.WAV,
+  m4a: VoiceFormat.M4A,
+  aac: VoiceFormat.AAC,
+};
+/** Option value of a voice_format query parameter value. */
+export function voiceFormatName(value: number): VoiceFormatName | undefined {
+  return (Object.keys(VOICE_FORMATS) as VoiceFormatName[]).find(
+    (name) => VOICE_FORMATS[name] === value,
+  );
+}
+export const CONVERT_NUM_MODES: Record<ConvertNumMode, number> = {
+  off: 0,
+  smart: 1,
+  math: 3,
+};
+export const FILTER_DIRTY_MODES: Record<FilterDirtyMode, number> = {
+  off: 0,
+  filter: 1,
+  replace: 2,
+};
+export const FILTER_MODAL_MODES: Record<FilterModalMode, number> = {
+  off: 0,
+  partial: 1,
+  strict: 2,
+};
+export const FILTER_PUNC_MODES: Record<FilterPuncMode, number> = {
+  off: 0,
+  sentenceEnd: 1,
+  all: 2,
+};
+export const WORD_INFO_MODES: Record<WordInfoMode, number> = {
+  off: 0,
+  words: 1,
+  wordsWithPunctuation: 2,
+};
+export const NEED_VAD_MODES = { off: 0, on: 1 };
+
+const OVERFLOW_POLICIES: OverflowPolicy[] = ["block", "dropOldest", "dropNewest"];
+
+export const VAD_SILENCE_TIME_RANGE: [number, number] = [240, 2000];
+export const MAX_SPEAK_TIME_RANGE: [number, number] = [5000, 90000];
+
+/** Query parameter values of the session options. */
+export interface SessionParams {
+  voiceFormat: number;
+  needVad: number;
+  vadSilenceTime: number;
+  maxSpeakTime: number;
+  convertNumMode: number;
+  filterDirty: number;
+  filterModal: number;
+  filterPunc: number;
+  wordInfo: number;
+}
+
+/** The INVALID_PARAM error for the option at `path`. */
+export function invalidOption(path: string, message: string): ASRError {
+  return new ASRError(ErrorCode.INVALID_PARAM, `invalid ${path}: ${message}`);
+}
+
+/** A duration in ms within `range`, or 0 for the service default. */
+export function checkDuration(path: string, value: number, [min, max]: [number, number]): void {
+  if (!Number.isInteger(value) || (value !== 0 && (value < min || value > max))) {
+    throw invalidOption(path, `must be 0 or an integer from ${min} to ${max} ms, got ${value}`);
+  }
+}
+
+/** A query parameter value listed in `modes`. */
+export function checkMode(path: string, value: number, modes: Record<string, number>): void {
+  const allowed = Object.values(modes);
+  if (!allowed.includes(value)) {
+    throw invalidOption(path, `must be one of ${allowed.join(", ")}, got ${value}`);
+  }
+}
+
+export function checkEndpoint(path: string, value: string): void {
+  if (typeof value !== "string" || !/^wss?:\/\/[^/]/.test(value)) {
+    throw invalidOption(path, `must be a ws:// or wss:// URL, got ${JSON.stringify(value)}`);
+  }
+}
+
+export function checkWriteTimeout(path: string, value: number): void {
+  if (!(value > 0) || !Number.isFinite(value)) {
+    throw invalidOption(path, `must be a positive number of ms, got ${value}`);
+  }
+}
+
+export function checkReconnectPolicy(path: string, policy: ReconnectPolicy): void {
+  const check = (field: keyof ReconnectPolicy, valid: (n: number) => boolean, rule: string) => {
+    const value = policy[field];
+    if (value !== undefined && !valid(value)) {
+      throw invalidOption(`${path}.${field}`, `must be ${rule}, got ${value}`);
+    }
+  };
+  check("maxAttempts", (n) => Number.isInteger(n) && n >= 1, "an integer of at least 1");
+  check("initialDelay", (n) => n >= 0 && Number.isFinite(n), "a non-negative number of ms");
+  check("maxDelay", (n) => n >= 0 && Number.isFinite(n), "a non-negative number of ms");
+  check("multiplier", (n) => n >= 1 && Number.isFinite(n), "a number of at least 1");
+  check("replaySeconds", (n) => n >= 0 && Number.isFinite(n), "a non-negative number");
+  if (
+    policy.initialDelay !== undefined &&
+    policy.maxDelay !== undefined &&
+    policy.maxDelay < policy.initialDelay
+  ) {
+    throw invalidOption(`${path}.maxDelay`, "must not be less than initialDelay");
+  }
+}
+
+export function checkSendQueue(path: string, options: SendQueueOptions): void {
+  const { highWaterMark, policy } = options;
+  if (highWaterMark !== undefined && !(Number.isInteger(highWaterMark) && highWaterMark > 0)) {
+    throw invalidOption(
+      `${path}.highWaterMark`,
+      `must be a positive integer of bytes, got ${highWaterMark}`,
+    );
+  }
+  if (policy !== undefined && !OVERFLOW_POLICIES.includes(policy)) {
+    const allowed = OVERFLOW_POLICIES.map((p) => JSON.stringify(p));
+    throw invalidOption(
+      `${path}.policy`,
+      `must be one of ${allowed.join(", ")}, got ${JSON.stringify(policy)}`,
+    );
+  }
+}
+
+/** Local VAD options for an engine with `sampleRate`. */
+export function checkLocalVad(path: string, options: LocalVadOptions, sampleRate: number): void {
+  const error = vadOptionError(options, sampleRate);
+  if (error) throw invalidOption(`${path}.${error.field}`, error.message);
+}
+
+/**
+ * Check the options field by field and return the query parameter values
+ * of those that are set.
+ */
+export function resolveOptions(
+  options: SpeechRecognizerOptions,
+  sampleRate: number,
+): Partial<SessionParams> {
+  const mode = <K extends string>(
+    path: string,
+    value: K | undefined,
+    modes: Record<K, number>,
+  ): number | undefined => {
+    if (value === undefined) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(modes, value)) {
+      const allowed = Object.keys(modes).map((m) => JSON.stringify(m));
+      throw invalidOption(
+        path,
+        `must be one of ${allowed.join(", ")}, got ${JSON.stringify(value)}`,
+      );
+    }
+    return modes[value];
+  };
+  const text = (path: string, value: string | undefined, allowEmpty: boolean) => {
+    if (value !== undefined && (typeof value !== "string" || (!allowEmpty && value === ""))) {
+      throw invalidOption(path, `must be a${allowEmpty ? "" : " non-empty"} string`);
+    }
+  };
+
+  if (options.endpoint !== undefined) checkEndpoint("endpoint", options.endpoint);
+  if (options.vad !== undefined && typeof options.vad !== "boolean") {
+    throw invalidOption("vad", `must be a boolean, got ${options.vad}`);
+  }
+  if (options.vadSilenceTime !== undefined) {
+    checkDuration("vadSilenceTime", options.vadSilenceTime, VAD_SILENCE_TIME_RANGE);
+  }
+  if (options.maxSpeakTime !== undefined) {
+    checkDuration("maxSpeakTime", options.maxSpeakTime, MAX_SPEAK_TIME_RANGE);
+  }
+  text("hotwordId", options.hotwordId, true);
+  text("customizationId", options.customizationId, true);
+  text("voiceId", options.voiceId, false);
+  if (options.writeTimeout !== undefined) {
+    checkWriteTimeout("writeTimeout", options.writeTimeout);
+  }
+  if (options.reconnect) checkReconnectPolicy("reconnect", options.reconnect);
+  if (options.sendQueue) checkSendQueue("sendQueue", options.sendQueue);
+  if (options.localVad) checkLocalVad("localVad", options.localVad, sampleRate);
+
+  return {
+    voiceFormat: mode("voiceFormat", options.voiceFormat, VOICE_FORMATS),
+    needVad: options.vad === undefined ? undefined : options.vad ? 1 : 0,
+    vadSilenceTime: options.vadSilenceTime,
+    maxSpeakTime: options.maxSpeakTime,
+    convertNumMode: mode("convertNum", options.convertNum, CONVERT_NUM_MODES),
+    filterDirty: mode("filterDirty", options.filterDirty, FILTER_DIRTY_MODES),
+    filterModal: mode("filterModal", options.filterModal, FILTER_MODAL_MODES),
+    filterPunc: mode("filterPunc", options.filterPunc, FILTER_PUNC_MODES),
+    wordInfo: mode("wordInfo", options.wordInfo, WORD_INFO_MODES),
+  };
+}
+
+/** Check the options that depend on each other, as a session would use them. */
+export function checkSessionParams(
+  params: Pick<SessionParams, "voiceFormat" | "needVad" | "vadSilenceTime" | "maxSpeakTime"> & {
+    localVad: boolean;
+    inputFormat: boolean;
+    /** voice_format of the framer, if any. */
+    framer: number | null;
+  },
+): void {
+  if (params.needVad === 0) {
+    if (params.vadSilenceTime !== 0) {
+      throw invalidOption("vadSilenceTime", "requires vad to be enabled");
+    }
+    if (params.maxSpeakTime !== 0) {
+      throw invalidOption("maxSpeakTime", "requires vad to be enabled");
+    }
+  }
+  if (params.voiceFormat !== VoiceFormat.PCM) {
+    if (params.localVad) {
+      throw invalidOption("localVad", "requires the pcm voice format");
+    }
+    if (params.inputFormat) {
+      throw invalidOption("inputFormat", "requires the pcm voice format");
+    }
+  }
+  if (params.framer !== null && params.framer !== params.voiceFormat) {
+    throw invalidOption(
+      "framer",
+      `frames voice format ${params.framer}, but voiceFormat is ${params.voiceFormat}`,
+    );
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Concurrency limit shared by recognition sessions and requests.
+ *
+ * Usage:
+ *   const pool = new RecognizerPool({ maxConcurrent: 10 });
+ *   pool.shutdownOnSignal();
+ *
+ *   await pool.runRecognizer(new SpeechRecognizer(credential, "16k_zh"), async (r) => {
+ *     await r.start();
+ *     await r.streamFile("audio.pcm");
+ *   });
+ *   const result = await pool.run(() => sentence.recognizeData(data, "pcm", "16k_zh"));
+ */
+
+import { AbortOptions, cancelledError, onAbort } from "./abort";
+import { ASRError, ErrorCode } from "./errors";
+import { TypedEventEmitter } from "./event-emitter";
+import { RecognizerState } from "./speech-recognizer";
+
+/** Options for RecognizerPool. */
+export interface RecognizerPoolOptions {
+  /** Operations allowed to run at the same time (required, >= 1). */
+  maxConcurrent: number;
+  /** Default time a task may wait in the queue, in ms (default 0 = no limit). */
+  queueTimeout?: number;
+}
+
+/**
+ * Per-task options for run() and runRecognizer(). Aborting `signal` while
+ * the task is queued rejects it with CANCELLED; a running task sees it
+ * through `lease.signal`.
+ */
+export interface PoolTaskOptions extends AbortOptions {
+  /** Higher priorities leave the queue first (default 0); FIFO within one priority. */
+  priority?: number;
+  /** Overrides the pool's queueTimeout for this task. */
+  queueTimeout?: number;
+}
+
+/** Occupancy counters. */
+export interface PoolStats {
+  maxConcurrent: number;
+  /** Tasks currently holding a slot. */
+  active: number;
+  /** Tasks waiting for a slot. */
+  queued: number;
+  /** Tracked sessions that shutdown() would stop. */
+  sessions: number;
+  completed: number;
+  failed: number;
+  /** Tasks that left the queue without running (timeout, cancellation or shutdown). */
+  rejected: number;
+}
+
+/**
+ * Anything that can be stopped gracefully, e.g. a SpeechRecognizer. With
+ * getState() and "stateChange" events, a session that has not connected
+ * yet at shutdown is stopped once its start() opens it.
+ */
+export interface StoppableSession {
+  stop(): Promise<void>;
+  getState?(): RecognizerState;
+  on?(event: "stateChange", listener: (state: RecognizerState) => void): unknown;
+  off?(event: "stateChange", listener: (state: RecognizerState) => void): unknown;
+}
+
+/** Handle passed to a running task. */
+export interface PoolLease {
+  /**
+   * Register a session to be stopped by shutdown(); it is untracked
+   * automatically when the task settles.
+   */
+  track<S extends StoppableSession>(session: S): S;
+  /**
+   * Aborts when the task's `signal` option does or the pool shuts down;
+   * pass it on to the operations the task runs.
+   */
+  readonly signal: AbortSignal;
+}
+
+/** Options for shutdown(). */
+export interface ShutdownOptions {
+  /** Give up waiting after this many ms (default 0 = wait indefinitely). */
+  timeout?: number;
+}
+
+/** Events emitted by RecognizerPool. */
+export interface RecognizerPoolEvents {
+  /** Active or queued counts changed. */
+  occupancy: [stats: PoolStats];
+  /** The pool stopped accepting work. */
+  shutdown: [];
+}
+
+interface Waiter {
+  priority: number;
+  seq: number;
+  grant: () => void;
+  reject: (err: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Limits how many recognition operations run at once. Work beyond
+ * `maxConcurrent` waits in a priority queue; shutdown() rejects queued work,
+ * cancels running tasks through their lease signal, stops every tracked
+ * session and waits for running tasks to settle.
+ */
+export class RecognizerPool extends TypedEventEmitter<RecognizerPoolEvents> {
+  readonly maxConcurrent: number;
+  private readonly queueTimeout: number;
+  private waiters: Waiter[] = [];
+  private active = 0;
+  private seq = 0;
+  private running = new Set<Promise<unknown>>();
+  private sessions = new Set<StoppableSession>();
+  /** Abort the signals of running tasks on shutdown. */
+  private controllers = new Set<AbortController>();
+  /** Unsubscribes sessions waiting to be stopped once they start. */
+  private pendingStarts = new Map<StoppableSession, () => void>();
+  private closing = false;
+  private shutdownPromise: Promise<void> | null = null;
+  private completed = 0;
+  private failed = 0;
+  private rejected = 0;
+
+  constructor(options: RecognizerPoolOptions) {
+    super();
+    if (!Number.isInteger(options.maxConcurrent) || options.maxConcurrent < 1) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `invalid maxConcurrent: ${options.maxConcurrent}`,
+      );
+    }
+    this.maxConcurrent = options.maxConcurrent;
+    this.queueTimeout = options.queueTimeout ?? 0;
+  }
+
+  /** Whether shutdown() has been called. */
+  get isShutdown(): boolean {
+    return this.closing;
+  }
+
+  getStats(): PoolStats {
+    return {
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queued: this.waiters.length,
+      sessions: this.sessions.size,
+      completed: this.completed,
+      failed: this.failed,
+      rejected: this.rejected,
+    };
+  }
+
+  /**
+   * Run a task once a slot is free; resolves or rejects with the task's
+   * outcome. Rejects with TIMEOUT if the task waits longer than the queue
+   * timeout, with CANCELLED if its signal aborts first, and with
+   * ALREADY_STOPPED once the pool is shut down.
+   */
+  async run<T>(
+    task: (lease: PoolLease) => Promise<T>,
+    options: PoolTaskOptions = {},
+  ): Promise<T> {
+    await this.acquire(options);
+
+    const controller = new AbortController();
+    const removeAbort = onAbort(options.signal, () => controller.abort(options.signal?.reason));
+    if (options.signal?.aborted) controller.abort(options.signal.reason);
+    this.controllers.add(controller);
+
+    const tracked = new Set<StoppableSession>();
+    const lease: PoolLease = {
+      track: (session) => {
+        tracked.add(session);
+        this.sessions.add(session);
+        if (this.closing) this.stopSession(session);
+        return session;
+      },
+      signal: controller.signal,
+    };
+
+    const execution = (async () => task(lease))();
+    this.running.add(execution);
+    try {
+      const result = await execution;
+      this.completed++;
+      return result;
+    } catch (err) {
+      this.failed++;
+      throw err;
+    } finally {
+      this.running.delete(execution);
+      this.controllers.delete(controller);
+      removeAbort();
+      for (const session of tracked) {
+        this.sessions.delete(session);
+        this.pendingStarts.get(session)?.();
+        this.pendingStarts.delete(session);
+      }
+      this.release();
+    }
+  }
+
+  /**
+   * Run a task for a real-time recognizer (or any session with stop()),
+   * which shutdown() stops if it is still live.
+   */
+  runRecognizer<S extends StoppableSession, T>(
+    session: S,
+    task: (session: S) => Promise<T>,
+    options?: PoolTaskOptions,
+  ): Promise<T> {
+    return this.run((lease) => task(lease.track(session)), options);
+  }
+
+  /**
+   * Stop accepting work: queued tasks are rejected, the signals of running
+   * tasks abort, stop() is called on every tracked session (on one still
+   * starting, once it is running), and the returned promise resolves once
+   * all running tasks have settled. Calling it again returns the same
+   * promise.
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.closing = true;
+      this.emit("shutdown");
+
+      const waiters = this.waiters;
+      this.waiters = [];
+      for (const waiter of waiters) {
+        this.reject(
+          waiter,
+          new ASRError(ErrorCode.ALREADY_STOPPED, "recognizer pool shut down"),
+        );
+      }
+      if (waiters.length > 0) this.emitOccupancy();
+
+      for (const session of this.sessions) this.stopSession(session);
+      for (const controller of this.controllers) {
+        controller.abort(new Error("recognizer pool shut down"));
+      }
+
+      this.shutdownPromise = this.settled();
+    }
+
+    const timeout = options.timeout ?? 0;
+    if (timeout <= 0) return this.shutdownPromise;
+
+    let timer: NodeJS.Timeout | undefined;
+    return Promise.race([
+      this.shutdownPromise,
+      new Promise<void>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(
+              new ASRError(
+                ErrorCode.TIMEOUT,
+                `shutdown timeout after ${timeout}ms with ${this.active} active tasks`,
+              ),
+            ),
+          timeout,
+        );
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Call shutdown() when the process receives one of `signals`. Once it
+   * completes the signal is raised again, so the process terminates as it
+   * would have without the handler unless other listeners keep it alive.
+   * Returns a function that removes the handlers.
+   */
+  shutdownOnSignal(
+    signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"],
+    options?: ShutdownOptions,
+  ): () => void {
+    const remove = () => {
+      for (const signal of signals) process.off(signal, handler);
+    };
+    const handler = (signal: NodeJS.Signals) => {
+      remove();
+      this.shutdown(options)
+        .catch((err) => process.emitWarning(`${err}`))
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    };
+    for (const signal of signals) process.on(signal, handler);
+    return remove;
+  }
+
+  // ---- Internal methods ----
+
+  private acquire(options: PoolTaskOptions): Promise<void> {
+    if (this.closing) {
+      this.rejected++;
+      return Promise.reject(
+        new ASRError(ErrorCode.ALREADY_STOPPED, "recognizer pool shut down"),
+      );
+    }
+    if (options.signal?.aborted) {
+      this.rejected++;
+      return Promise.reject(cancelledError(options.signal));
+    }
+    if (this.active < this.maxConcurrent && this.waiters.length === 0) {
+      this.active++;
+      this.emitOccupancy();
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        priority: options.priority ?? 0,
+        seq: this.seq++,
+        grant: () => {
+          removeAbort();
+          resolve();
+        },
+        reject: (err) => {
+          removeAbort();
+          reject(err);
+        },
+      };
+      const removeAbort = onAbort(options.signal, () => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        this.reject(waiter, cancelledError(options.signal));
+        this.emitOccupancy();
+      });
+
+      const timeout = options.queueTimeout ?? this.queueTimeout;
+      if (timeout > 0) {
+        waiter.timer = setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          this.reject(
+            waiter,
+            new ASRError(
+              ErrorCode.TIMEOUT,
+              `recognizer pool queue timeout after ${timeout}ms`,
+            ),
+          );
+          this.emitOccupancy();
+        }, timeout);
+      }
+
+      // Keep the queue sorted: highest priority first, then arrival order.
+      let i = this.waiters.length;
+      while (i > 0 && this.waiters[i - 1].priority < waiter.priority) i--;
+      this.waiters.splice(i, 0, waiter);
+      this.emitOccupancy();
+    });
+  }
+
+  private release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // The slot passes straight to the next task.
+      clearTimeout(next.timer);
+      next.grant();
+    } else {
+      this.active--;
+    }
+    this.emitOccupancy();
+  }
+
+  /** Stop a session now, or once it starts if it is not running yet. */
+  private stopSession(session: StoppableSession): void {
+    if (this.pendingStarts.has(session)) return;
+    const state = session.getState?.();
+    const notStarted = state === RecognizerState.IDLE || state === RecognizerState.STARTING;
+    if (!notStarted || !session.on || !session.off) {
+      stopQuietly(session);
+      return;
+    }
+    const onState = (next: RecognizerState) => {
+      if (next === RecognizerState.RUNNING) stopQuietly(session);
+    };
+    session.on("stateChange", onState);
+    this.pendingStarts.set(session, () => session.off?.("stateChange", onState));
+  }
+
+  private reject(waiter: Waiter, err: Error): void {
+    clearTimeout(waiter.timer);
+    this.rejected++;
+    waiter.reject(err);
+  }
+
+  private async settled(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.allSettled([...this.running]);
+    }
+  }
+
+  private emitOccupancy(): void {
+    this.emit("occupancy", this.getStats());
+  }
+}
+
+function stopQuietly(session: StoppableSession): void {
+  // A session that already ended (or never started) rejects; that is fine.
+  session.stop().catch(() => undefined);
+}
@@ -0,0 +1,249 @@
+/**
+ * Incremental changes of real-time sentences, for captions that update in
+ * place instead of re-rendering each partial result.
+ *
+ * Usage:
+ *   const deltas = new ResultDeltaTracker({ throttleMs: 150 }).attach(recognizer);
+ *   deltas.on("delta", (d) => {
+ *     caption.deleteFromEnd(d.removed.length);
+ *     caption.append(d.appended);
+ *     caption.markUnstable(d.unstable.length);
+ *   });
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+import { TypedEventEmitter } from "./event-emitter";
+import {
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+  WordInfo,
+} from "./speech-recognizer";
+
+/** Change of a sentence since the previous delta of the same sentence. */
+export interface ResultDelta {
+  /** Sentence index. */
+  index: number;
+  /** Current text of the sentence. */
+  text: string;
+  /** Prefix of `text` that will not change any more. */
+  stable: string;
+  /** Rest of `text`, which may still be revised. */
+  unstable: string;
+  /** Characters removed from the end of the previously reported text. */
+  removed: string;
+  /** Text appended after removing `removed`. */
+  appended: string;
+  /** The sentence ended (slice_type 2); the whole text is stable. */
+  final: boolean;
+  /**
+   * Whether `stable` comes from the words' stable_flag. Without word info,
+   * the part left unchanged by the latest revision counts as stable.
+   */
+  fromWordInfo: boolean;
+}
+
+/** Options for ResultDeltaTracker. Final results are never delayed. */
+export interface ResultDeltaOptions {
+  /** Report partial results at most once per interval in ms (default 0). */
+  throttleMs?: number;
+  /**
+   * Report partial results only after no update for this long in ms
+   * (default 0). With throttleMs too, continuous updates are still
+   * reported every throttleMs.
+   */
+  debounceMs?: number;
+}
+
+/** Events emitted by ResultDeltaTracker. */
+export interface ResultDeltaEvents {
+  delta: [delta: ResultDelta];
+}
+
+/** Recognizer events that carry sentence results. */
+const RESULT_EVENTS = ["sentenceBegin", "resultChange", "sentenceEnd"] as const;
+
+interface Revision {
+  index: number;
+  text: string;
+  stableLength: number;
+  final: boolean;
+  fromWordInfo: boolean;
+}
+
+/**
+ * Turns the results of a recognizer into deltas. Partial results may be
+ * throttled or debounced; skipped revisions are folded into the next
+ * delta, which is always relative to the last one reported.
+ */
+export class ResultDeltaTracker extends TypedEventEmitter<ResultDeltaEvents> {
+  private readonly throttleMs: number;
+  private readonly debounceMs: number;
+  /** Last revision received and last text reported, per open sentence. */
+  private received = new Map<number, string>();
+  private reported = new Map<number, string>();
+  private pending: Revision | null = null;
+  private pendingSince = 0;
+  private lastReportAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private detachFn: (() => void) | null = null;
+
+  constructor(options: ResultDeltaOptions = {}) {
+    super();
+    for (const key of ["throttleMs", "debounceMs"] as const) {
+      const value = options[key];
+      if (value !== undefined && !(value >= 0 && Number.isFinite(value))) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          `invalid ${key}: must be a non-negative number of ms, got ${value}`,
+        );
+      }
+    }
+    this.throttleMs = options.throttleMs ?? 0;
+    this.debounceMs = options.debounceMs ?? 0;
+  }
+
+  /** Subscribe to a recognizer's results; replaces any previous one. */
+  attach(recognizer: SpeechRecognizer): this {
+    this.detach();
+    const onResult = (resp: SpeechRecognitionResponse) => this.update(resp);
+    const onEnd = () => this.flush();
+
+    for (const event of RESULT_EVENTS) recognizer.on(event, onResult);
+    recognizer.on("complete", onEnd);
+    recognizer.on("fail", onEnd);
+    this.detachFn = () => {
+      for (const event of RESULT_EVENTS) recognizer.off(event, onResult);
+      recognizer.off("complete", onEnd);
+      recognizer.off("fail", onEnd);
+    };
+    return this;
+  }
+
+  /** Stop receiving results; a delayed partial result is reported first. */
+  detach(): void {
+    this.detachFn?.();
+    this.detachFn = null;
+    this.flush();
+  }
+
+  /** Apply one recognition response. */
+  update(resp: SpeechRecognitionResponse): void {
+    const result = resp.result;
+    if (!result || result.slice_type === undefined) return;
+
+    const text = result.voice_text_str ?? "";
+    const final = result.slice_type === 2;
+    const words = result.word_list ?? [];
+    const previous = this.received.get(result.index) ?? "";
+    const fromWordInfo = words.length > 0;
+    let stableLength = text.length;
+    if (!final) {
+      stableLength = fromWordInfo
+        ? stablePrefixLength(text, words)
+        : commonPrefixLength(previous, text);
+    }
+
+    if (this.pending && this.pending.index !== result.index) this.flush();
+    if (final) {
+      this.received.delete(result.index);
+    } else {
+      this.received.set(result.index, text);
+    }
+
+    if (!this.pending) this.pendingSince = Date.now();
+    this.pending = { index: result.index, text, stableLength, final, fromWordInfo };
+    if (final) {
+      this.flush();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /** Report the delayed partial result, if any, now. */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const revision = this.pending;
+    if (!revision) return;
+    this.pending = null;
+
+    const before = this.reported.get(revision.index) ?? "";
+    if (revision.final) {
+      this.reported.delete(revision.index);
+    } else {
+      if (revision.text === before) return;
+      this.reported.set(revision.index, revision.text);
+    }
+    const common = commonPrefixLength(before, revision.text);
+    this.lastReportAt = Date.now();
+    this.emit("delta", {
+      index: revision.index,
+      text: revision.text,
+      stable: revision.text.slice(0, revision.stableLength),
+      unstable: revision.text.slice(revision.stableLength),
+      removed: before.slice(common),
+      appended: revision.text.slice(common),
+      final: revision.final,
+      fromWordInfo: revision.fromWordInfo,
+    });
+  }
+
+  /** Forget all sentences and any delayed result. */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+    this.received.clear();
+    this.reported.clear();
+  }
+
+  private schedule(): void {
+    const now = Date.now();
+    let due = now;
+    if (this.debounceMs > 0) {
+      due = now + this.debounceMs;
+      if (this.throttleMs > 0) {
+        due = Math.min(due, this.pendingSince + this.throttleMs);
+      }
+    } else if (this.throttleMs > 0) {
+      due = this.lastReportAt + this.throttleMs;
+    }
+
+    if (due <= now) {
+      this.flush();
+      return;
+    }
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), due - now);
+  }
+}
+
+/**
+ * Length of the prefix of `text` ending with the last of the leading
+ * words whose stable_flag is set.
+ */
+function stablePrefixLength(text: string, words: WordInfo[]): number {
+  let position = 0;
+  let stable = 0;
+  for (const word of words) {
+    if (word.stable_flag !== 1) break;
+    const at = text.indexOf(word.word, position);
+    if (at < 0) break;
+    position = at + word.word.length;
+    stable = position;
+  }
+  return stable;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a.charCodeAt(i) === b.charCodeAt(i)) i++;
+  // Do not split a surrogate pair.
+  if (i > 0 && i < max && /[\ud800-\udbff]/.test(a[i - 1])) i--;
+  return i;
+}
@@ -0,0 +1,247 @@
+/**
+ * Bounded outbound audio queue for the real-time recognizer.
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+
+/**
+ * What happens when a write would push the queue past its high-water mark:
+ * - "block": write() waits until enough queued audio has been sent.
+ * - "dropOldest": the oldest audio not yet handed to the socket is dropped.
+ * - "dropNewest": the incoming chunk is dropped.
+ */
+export type OverflowPolicy = "block" | "dropOldest" | "dropNewest";
+
+/** Options for SpeechRecognizer.setSendQueue(). */
+export interface SendQueueOptions {
+  /** Bytes queued or in flight before the policy applies (default 64KB). */
+  highWaterMark?: number;
+  /** Overflow policy (default "block"). */
+  policy?: OverflowPolicy;
+}
+
+/** Counters describing the queue. */
+export interface SendQueueStats {
+  queuedBytes: number;
+  queuedChunks: number;
+  inFlightBytes: number;
+  droppedBytes: number;
+  droppedChunks: number;
+}
+
+/** Sends one chunk and calls back once it has been written to the socket. */
+export type SendTransport = (
+  data: Buffer,
+  callback: (err?: Error) => void,
+) => void;
+
+interface BlockedWrite {
+  data: Buffer;
+  resolve: () => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024;
+
+/**
+ * FIFO of audio chunks that hands one chunk at a time to the transport.
+ * Writes resolve once accepted into the queue, so a producer can run ahead
+ * of the network by up to `highWaterMark` bytes.
+ */
+export class SendQueue {
+  readonly highWaterMark: number;
+  readonly policy: OverflowPolicy;
+
+  private queue: Buffer[] = [];
+  private queuedBytes = 0;
+  private inFlight: Buffer | null = null;
+  private blocked: BlockedWrite[] = [];
+  private drainWaiters: (() => void)[] = [];
+  private overflowed = false;
+  private error: Error | null = null;
+  private generation = 0;
+  private droppedBytes = 0;
+  private droppedChunks = 0;
+
+  constructor(
+    options: SendQueueOptions,
+    private readonly transport: SendTransport,
+    private readonly onDrain: () => void = () => undefined,
+  ) {
+    this.highWaterMark = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+    this.policy = options.policy ?? "block";
+  }
+
+  /** Bytes queued or being written. */
+  get occupancy(): number {
+    return this.queuedBytes + (this.inFlight?.length ?? 0);
+  }
+
+  stats(): SendQueueStats {
+    return {
+      queuedBytes: this.queuedBytes,
+      queuedChunks: this.queue.length,
+      inFlightBytes: this.inFlight?.length ?? 0,
+      droppedBytes: this.droppedBytes,
+      droppedChunks: this.droppedChunks,
+    };
+  }
+
+  /** Add a chunk according to the overflow policy. */
+  enqueue(data: Buffer, timeoutMs: number): Promise<void> {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    if (this.blocked.length === 0 && this.fits(data)) {
+      this.accept(data);
+      return Promise.resolve();
+    }
+
+    this.overflowed = true;
+
+    if (this.policy === "dropNewest") {
+      this.recordDrop(data);
+      return Promise.resolve();
+    }
+
+    if (this.policy === "dropOldest") {
+      while (this.queue.length > 0 && !this.fits(data)) {
+        const oldest = this.queue.shift()!;
+        this.queuedBytes -= oldest.length;
+        this.recordDrop(oldest);
+      }
+      this.accept(data);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: BlockedWrite = {
+        data,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.blocked = this.blocked.filter((b) => b !== entry);
+          reject(new ASRError(ErrorCode.WRITE_FAILED, "write timeout"));
+        }, timeoutMs),
+      };
+      this.blocked.push(entry);
+    });
+  }
+
+  /** Resolve once every queued chunk has been written (or the queue failed). */
+  waitForDrain(): Promise<void> {
+    if (this.isEmpty() || this.error) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.drainWaiters.push(resolve));
+  }
+
+  /**
+   * Abandon the current transport: return every chunk that was not yet
+   * written (blocked writes are accepted and resolved) and clear any error.
+   */
+  reset(): Buffer[] {
+    this.generation++;
+    const pending = [...this.queue];
+    for (const entry of this.blocked) {
+      clearTimeout(entry.timer);
+      pending.push(entry.data);
+      entry.resolve();
+    }
+    this.queue = [];
+    this.queuedBytes = 0;
+    this.inFlight = null;
+    this.blocked = [];
+    this.error = null;
+    this.settleDrain();
+    return pending;
+  }
+
+  private fits(data: Buffer): boolean {
+    return (
+      this.occupancy === 0 ||
+      this.occupancy + data.length <= this.highWaterMark
+    );
+  }
+
+  private accept(data: Buffer): void {
+    this.queue.push(data);
+    this.queuedBytes += data.length;
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.inFlight || this.error) return;
+
+    while (this.blocked.length > 0 && this.fits(this.blocked[0].data)) {
+      const entry = this.blocked.shift()!;
+      clearTimeout(entry.timer);
+      this.queue.push(entry.data);
+      this.queuedBytes += entry.data.length;
+      entry.resolve();
+    }
+
+    const next = this.queue.shift();
+    if (!next) {
+      this.settleDrain();
+      return;
+    }
+
+    this.queuedBytes -= next.length;
+    this.inFlight = next;
+    const generation = this.generation;
+
+    this.transport(next, (err) => {
+      if (generation !== this.generation) return;
+      this.inFlight = null;
+      if (err) {
+        this.fail(
+          new ASRError(
+            ErrorCode.WRITE_FAILED,
+            `write audio data failed: ${err.message}`,
+          ),
+        );
+        return;
+      }
+      this.pump();
+    });
+  }
+
+  private fail(err: Error): void {
+    this.error = err;
+    for (const entry of this.blocked) {
+      clearTimeout(entry.timer);
+      entry.reject(err);
+    }
+    this.blocked = [];
+    this.settleDrain();
+  }
+
+  private settleDrain(): void {
+    if (!this.isEmpty() && !this.error) return;
+
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    for (const resolve of waiters) resolve();
+
+    if (this.overflowed && this.isEmpty()) {
+      this.overflowed = false;
+      this.onDrain();
+    }
+  }
+
+  private isEmpty(): boolean {
+    return (
+      this.queue.length === 0 &&
+      this.inFlight === null &&
+      this.blocked.length === 0
+    );
+  }
+
+  private recordDrop(data: Buffer): void {
+    this.droppedBytes += data.length;
+    this.droppedChunks++;
+  }
+}
@@ -8,8 +8,18 @@
  */
 
 import { v4 as uuidv4 } from "uuid";
+import { AbortOptions, cancelledError, onAbort, throwIfAborted } from "./abort";
 import { Credential } from "./credential";
+import { engineCatalog } from "./engines";
 import { ASRError, ErrorCode } from "./errors";
+import { Instrumentation } from "./instrumentation";
+import { Logger, noopLogger, redactLogger } from "./logger";
+import {
+  ProxyConfig,
+  createProxyAgent,
+  httpPost,
+  validateProxyConfig,
+} from "./proxy";
 import { genUserSig } from "./usersig";
 
 export const SENTENCE_ENDPOINT = "https://asr.cloud-rtc.com";
@@ -72,6 +82,9 @@ export class SentenceRecognizer {
   private credential: Credential;
   private endpoint: string;
   private timeout: number; // ms
+  private proxy: ProxyConfig | null = null;
+  private instrumentation: Instrumentation | null = null;
+  private logger: Logger = noopLogger;
 
   constructor(credential: Credential) {
     this.credential = credential;
@@ -89,14 +102,67 @@ export class SentenceRecognizer {
     this.timeout = timeout;
   }
 
-  /** Send a sentence recognition request and return the result. */
+  /**
+   * Send requests through an HTTP(S) or SOCKS5 proxy, or pass null to
+   * connect directly (the default). A ProxyOptions without `url` uses
+   * HTTPS_PROXY and NO_PROXY from the environment.
+   */
+  setProxy(proxy: ProxyConfig | null): void {
+    if (proxy) {
+      validateProxyConfig(proxy);
+    }
+    this.proxy = proxy;
+  }
+
+  /** Record metrics and spans, or pass null to stop (the default). */
+  setInstrumentation(instrumentation: Instrumentation | null): void {
+    this.instrumentation = instrumentation;
+  }
+
+  /**
+   * Log HTTP requests, or pass null to stop (the default).
+   * Secrets are redacted before they reach the logger.
+   */
+  setLogger(logger: Logger | null): void {
+    this.logger = logger
+      ? redactLogger(logger, () => [this.credential.secretKey, this.credential.userSig])
+      : noopLogger;
+  }
+
+  /**
+   * Send a sentence recognition request and return the result. Aborting
+   * `signal` cancels the HTTP request and rejects with CANCELLED.
+   */
   async recognize(
     req: SentenceRecognitionRequest,
+    options: AbortOptions = {},
   ): Promise<SentenceRecognitionResult> {
     this.validateRequest(req);
 
     const requestId = uuidv4();
 
+    if (!this.instrumentation) {
+      return this.send(req, requestId, options.signal);
+    }
+    return this.instrumentation.traceRequest(
+      "sentence_recognition",
+      { "asr.request_id": requestId, "asr.engine": req.engServiceType },
+      async (span) => {
+        const result = await this.send(req, requestId, options.signal);
+        span?.setAttribute("asr.server_request_id", result.requestId);
+        return result;
+      },
+    );
+  }
+
+  /** Send a validated request and parse the result. */
+  private async send(
+    req: SentenceRecognitionRequest,
+    requestId: string,
+    signal?: AbortSignal,
+  ): Promise<SentenceRecognitionResult> {
+    throwIfAborted(signal);
+
     // Generate UserSig using requestId as user ID
     let userSig = this.credential.userSig;
     if (!userSig) {
@@ -133,31 +199,47 @@ export class SentenceRecognizer {
     const body = JSON.stringify(this.buildBody(req));
 
     // Use built-in fetch (Node.js 18+) or fallback to http
+    const log = this.logger.child({ requestId });
+    log.debug("http request", { url: reqUrl, headers });
+    const startedAt = Date.now();
+
     let respBody: string;
     let statusCode: number;
 
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    const removeAbort = onAbort(signal, () => controller.abort());
     try {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(), this.timeout);
-
-      const resp = await fetch(reqUrl, {
-        method: "POST",
+      const resp = await httpPost(
+        reqUrl,
         headers,
         body,
-        signal: controller.signal,
-      });
+        controller.signal,
+        createProxyAgent(this.proxy, reqUrl),
+      );
 
-      clearTimeout(timer);
       statusCode = resp.status;
-      respBody = await resp.text();
+      respBody = resp.body;
     } catch (err) {
+      if (signal?.aborted) {
+        log.info("http request cancelled");
+        throw cancelledError(signal);
+      }
+      log.warn("http request failed", { error: err });
       if (err instanceof ASRError) throw err;
       throw new ASRError(
         ErrorCode.CONNECT_FAILED,
         `http request failed: ${err}`,
       );
+    } finally {
+      clearTimeout(timer);
+      removeAbort();
     }
 
+    log.debug("http response", {
+      status: statusCode,
+      elapsedMs: Date.now() - startedAt,
+    });
     if (statusCode !== 200) {
       throw new ASRError(
         ErrorCode.SERVER_ERROR,
@@ -183,6 +265,11 @@ export class SentenceRecognizer {
 
     // Check for API-level errors
     if (response.Error) {
+      log.warn("server error", {
+        code: response.Error.Code,
+        message: response.Error.Message,
+        serverRequestId: response.RequestId,
+      });
       throw new ASRError(
         ErrorCode.SERVER_ERROR,
         `server error [${response.Error.Code || ""}]: ` +
@@ -199,6 +286,7 @@ export class SentenceRecognizer {
     data: Buffer,
     voiceFormat: string,
     engineModelType: string,
+    options: AbortOptions = {},
   ): Promise<SentenceRecognitionResult> {
     if (!data || data.length === 0) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio data is empty");
@@ -210,19 +298,23 @@ export class SentenceRecognizer {
       );
     }
 
-    return this.recognize({
-      engServiceType: engineModelType,
-      sourceType: SourceType.DATA,
-      voiceFormat,
-      data: data.toString("base64"),
-      dataLen: data.length,
-    });
+    return this.recognize(
+      {
+        engServiceType: engineModelType,
+        sourceType: SourceType.DATA,
+        voiceFormat,
+        data: data.toString("base64"),
+        dataLen: data.length,
+      },
+      options,
+    );
   }
 
   /** Recognize local audio data with a pre-configured request. */
   async recognizeDataWithOptions(
     data: Buffer,
     req: SentenceRecognitionRequest,
+    options: AbortOptions = {},
   ): Promise<SentenceRecognitionResult> {
     if (!data || data.length === 0) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio data is empty");
@@ -237,7 +329,7 @@ export class SentenceRecognizer {
     req.sourceType = SourceType.DATA;
     req.data = data.toString("base64");
     req.dataLen = data.length;
-    return this.recognize(req);
+    return this.recognize(req, options);
   }
 
   /** Convenience: recognize audio from a URL. */
@@ -245,17 +337,21 @@ export class SentenceRecognizer {
     audioURL: string,
     voiceFormat: string,
     engineModelType: string,
+    options: AbortOptions = {},
   ): Promise<SentenceRecognitionResult> {
     if (!audioURL) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "audio URL is empty");
     }
 
-    return this.recognize({
-      engServiceType: engineModelType,
-      sourceType: SourceType.URL,
-      voiceFormat,
-      url: audioURL,
-    });
+    return this.recognize(
+      {
+        engServiceType: engineModelType,
+        sourceType: SourceType.URL,
+        voiceFormat,
+        url: audioURL,
+      },
+      options,
+    );
   }
 
   private buildBody(req: SentenceRecognitionRequest): Record<string, any> {
@@ -315,6 +411,9 @@ export class SentenceRecognizer {
     if (!req.voiceFormat) {
       throw new ASRError(ErrorCode.INVALID_PARAM, "voiceFormat is required");
     }
+    engineCatalog.check(req.engServiceType, "sentence", {
+      voiceFormat: req.voiceFormat,
+    });
     if (req.sourceType === SourceType.URL && !req.url) {
       throw new ASRError(
         ErrorCode.INVALID_PARAM,
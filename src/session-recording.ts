@@ -0,0 +1,413 @@
+/**
+ * Recording and offline replay of real-time recognition sessions.
+ *
+ * Usage:
+ *   const recorder = new SessionRecorder();
+ *   recognizer.setRecorder(recorder);
+ *   ...
+ *   await recorder.save("session.jsonl");
+ *
+ *   const replayer = new SessionReplayer(await loadRecording("session.jsonl"), { speed: 10 });
+ *   await replayer.replayTo({ onSentenceEnd: (r) => console.log(r.result.voice_text_str) });
+ *   await replayer.replayThrough(new SpeechRecognizer(credential, "16k_zh"));
+ */
+
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { ASRError, ErrorCode } from "./errors";
+import type {
+  RecognizerTransport,
+  SpeechRecognitionListener,
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "./speech-recognizer";
+
+/** Value of the header's `format` field. */
+export const RECORDING_FORMAT = "trtc-asr-session";
+
+/** First line of a session file. */
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: 1;
+  engine: string;
+  voiceFormat: number;
+  voiceId: string;
+  /** Wall-clock start of the recording (ISO 8601). */
+  startedAt: string;
+  /** Recognition parameters of the WebSocket URL, without credentials. */
+  params: Record<string, string>;
+}
+
+/**
+ * One recorded event; `t` is the time since the recording started in ms.
+ *
+ * - open: a WebSocket session opened (again after a reconnect).
+ * - audio: a frame sent, or held while reconnecting, base64 in `data`
+ *   (or only its size in `bytes` when audio is not kept); `replayed`
+ *   marks held and recent audio resent after a reconnect.
+ * - message: an inbound message as received, parsed into `response`,
+ *   or kept in `raw` when it is not valid JSON.
+ * - end: the end signal was sent.
+ * - close: the current connection closed.
+ */
+export type RecordedEvent =
+  | { t: number; type: "open"; voiceId: string }
+  | { t: number; type: "audio"; data?: string; bytes: number; replayed?: boolean }
+  | { t: number; type: "message"; response?: SpeechRecognitionResponse; raw?: string }
+  | { t: number; type: "end" }
+  | { t: number; type: "close"; code: number; reason: string };
+
+/** A recorded session: the header followed by its events. */
+export interface SessionRecording {
+  header: RecordingHeader;
+  events: RecordedEvent[];
+}
+
+/** Options for SessionRecorder. */
+export interface SessionRecorderOptions {
+  /** Keep the audio itself rather than only frame sizes (default true). */
+  audio?: boolean;
+}
+
+/** Options for SessionReplayer. */
+export interface ReplayOptions {
+  /** Playback speed; 1 keeps the original timing, Infinity skips all waits (default 1). */
+  speed?: number;
+  /** How long replayThrough() waits for the recognizer to reconnect in ms (default 10000). */
+  reconnectTimeout?: number;
+}
+
+/**
+ * Captures a SpeechRecognizer session; pass it to setRecorder(). Each
+ * start() begins a new recording, kept in memory until the next start().
+ */
+export class SessionRecorder {
+  private readonly keepAudio: boolean;
+  private header: RecordingHeader | null = null;
+  private events: RecordedEvent[] = [];
+  private startedAt = 0;
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.keepAudio = options.audio ?? true;
+  }
+
+  /** A session starts; discards the previous recording. */
+  begin(info: Omit<RecordingHeader, "format" | "version" | "startedAt">): void {
+    this.startedAt = Date.now();
+    this.header = {
+      format: RECORDING_FORMAT,
+      version: 1,
+      ...info,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+    this.events = [];
+  }
+
+  opened(voiceId: string): void {
+    this.push({ t: 0, type: "open", voiceId });
+  }
+
+  audio(data: Buffer, replayed = false): void {
+    this.push({
+      t: 0,
+      type: "audio",
+      ...(this.keepAudio ? { data: data.toString("base64") } : {}),
+      bytes: data.length,
+      ...(replayed ? { replayed } : {}),
+    });
+  }
+
+  message(text: string): void {
+    try {
+      this.push({ t: 0, type: "message", response: JSON.parse(text) });
+    } catch {
+      this.push({ t: 0, type: "message", raw: text });
+    }
+  }
+
+  ended(): void {
+    this.push({ t: 0, type: "end" });
+  }
+
+  closed(code: number, reason: string): void {
+    this.push({ t: 0, type: "close", code, reason });
+  }
+
+  /** The current recording. */
+  getRecording(): SessionRecording {
+    if (!this.header) {
+      throw new ASRError(ErrorCode.NOT_STARTED, "nothing recorded yet");
+    }
+    return { header: { ...this.header }, events: [...this.events] };
+  }
+
+  /** The recording as JSON Lines: the header, then one event per line. */
+  toJSONL(): string {
+    const { header, events } = this.getRecording();
+    return [header, ...events].map((line) => `${JSON.stringify(line)}\n`).join("");
+  }
+
+  /** Write the recording to a file. */
+  async save(path: string): Promise<void> {
+    await fs.writeFile(path, this.toJSONL());
+  }
+
+  private push(event: RecordedEvent): void {
+    if (!this.header) return;
+    event.t = Date.now() - this.startedAt;
+    this.events.push(event);
+  }
+}
+
+/** Parse a session file produced by SessionRecorder.toJSONL(). */
+export function parseRecording(text: string): SessionRecording {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  const parsed = lines.map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch (err) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `invalid session recording at line ${i + 1}: ${err}`,
+      );
+    }
+  });
+
+  const header = parsed[0];
+  if (header?.format !== RECORDING_FORMAT) {
+    throw new ASRError(ErrorCode.INVALID_PARAM, "not a session recording");
+  }
+  if (header.version !== 1) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `unsupported session recording version: ${header.version}`,
+    );
+  }
+  const events = parsed.slice(1) as RecordedEvent[];
+  events.forEach((event, i) => {
+    if (typeof event?.t !== "number" || typeof event.type !== "string") {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `invalid session recording at line ${i + 2}: missing t or type`,
+      );
+    }
+  });
+  return { header, events };
+}
+
+/** Read a session file. */
+export async function loadRecording(path: string): Promise<SessionRecording> {
+  return parseRecording(await fs.readFile(path, "utf-8"));
+}
+
+/** Plays a recording back without any network. */
+export class SessionReplayer {
+  private readonly speed: number;
+  private readonly reconnectTimeout: number;
+
+  constructor(
+    readonly recording: SessionRecording,
+    options: ReplayOptions = {},
+  ) {
+    this.speed = options.speed ?? 1;
+    this.reconnectTimeout = options.reconnectTimeout ?? 10000;
+    if (!(this.speed > 0)) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, "speed must be positive");
+    }
+  }
+
+  /**
+   * Deliver the recorded responses to a listener as received, without
+   * the recognizer's processing (such as the timeline of reconnects).
+   */
+  async replayTo(listener: Partial<SpeechRecognitionListener>): Promise<void> {
+    let opens = 0;
+    for await (const event of this.paced()) {
+      if (event.type === "open") {
+        opens++;
+      } else if (event.type === "message" && event.response) {
+        dispatch(listener, event.response, opens > 1);
+      } else if (event.type === "message") {
+        listener.onFail?.(
+          null,
+          new ASRError(ErrorCode.READ_FAILED, `unmarshal response failed: ${event.raw}`),
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a SpeechRecognizer against the recording: its connections are
+   * replaced with transports that play back the recorded messages, and
+   * the recorded audio is written to it, so its events are produced by
+   * the same code as in the recorded session. Configure the recognizer
+   * as it was when recording (reconnect policy, voice format).
+   */
+  async replayThrough(recognizer: SpeechRecognizer): Promise<void> {
+    const transports: ReplayTransport[] = [];
+    let onTransport: (() => void) | null = null;
+    recognizer.setTransport(() => {
+      const transport = new ReplayTransport();
+      transports.push(transport);
+      onTransport?.();
+      return transport;
+    });
+
+    const opened = async (count: number) => {
+      if (transports.length < count) {
+        let timer: NodeJS.Timeout | undefined;
+        await new Promise<void>((resolve, reject) => {
+          onTransport = () => transports.length >= count && resolve();
+          timer = setTimeout(
+            () =>
+              reject(
+                new ASRError(
+                  ErrorCode.TIMEOUT,
+                  "recognizer did not reconnect as recorded; set the same reconnect policy",
+                ),
+              ),
+            this.reconnectTimeout,
+          );
+        }).finally(() => {
+          onTransport = null;
+          clearTimeout(timer);
+        });
+      }
+      await transports[count - 1].open;
+    };
+
+    let opens = 0;
+    let stopping: Promise<void> | null = null;
+    try {
+      for await (const event of this.paced()) {
+        const transport = transports[transports.length - 1];
+        switch (event.type) {
+          case "open":
+            opens++;
+            if (opens === 1) {
+              await recognizer.start();
+            } else {
+              await opened(opens);
+            }
+            break;
+          case "audio":
+            if (!event.replayed) {
+              const data = event.data
+                ? Buffer.from(event.data, "base64")
+                : Buffer.alloc(event.bytes);
+              await recognizer.write(data);
+            }
+            break;
+          case "message":
+            transport?.deliver(event.raw ?? JSON.stringify(event.response));
+            break;
+          case "end":
+            stopping = recognizer.stop();
+            // Later messages must follow the end signal, unless stop() fails.
+            await Promise.race([transport?.endReceived, stopping.catch(() => undefined)]);
+            break;
+          case "close":
+            transport?.remoteClose(event.code, event.reason);
+            break;
+        }
+      }
+      if (stopping) await stopping;
+    } finally {
+      recognizer.setTransport(null);
+    }
+  }
+
+  /** Recorded events, each yielded at its (scaled) time. */
+  private async *paced(): AsyncGenerator<RecordedEvent> {
+    let last = 0;
+    for (const event of this.recording.events) {
+      const wait = (event.t - last) / this.speed;
+      last = event.t;
+      if (wait > 0 && Number.isFinite(wait)) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      yield event;
+    }
+  }
+}
+
+/** Deliver one response to the listener method for its type. */
+function dispatch(
+  listener: Partial<SpeechRecognitionListener>,
+  resp: SpeechRecognitionResponse,
+  reconnected: boolean,
+): void {
+  if (resp.code !== 0) {
+    listener.onFail?.(resp, new ASRError(resp.code, resp.message));
+    return;
+  }
+  switch (resp.result?.slice_type) {
+    case 0:
+      listener.onSentenceBegin?.(resp);
+      break;
+    case 1:
+      listener.onRecognitionResultChange?.(resp);
+      break;
+    case 2:
+      listener.onSentenceEnd?.(resp);
+      break;
+    default:
+      if (resp.final !== 1 && !reconnected) listener.onRecognitionStart?.(resp);
+      break;
+  }
+  if (resp.final === 1) {
+    listener.onRecognitionComplete?.(resp);
+  }
+}
+
+/** Whether a text frame sent by the recognizer is its end signal. */
+function isEndSignal(text: string): boolean {
+  try {
+    const msg: unknown = JSON.parse(text);
+    return typeof msg === "object" && msg !== null && (msg as { type?: unknown }).type === "end";
+  } catch {
+    return false;
+  }
+}
+
+/** Connection that plays back messages handed to it by the replayer. */
+class ReplayTransport extends EventEmitter implements RecognizerTransport {
+  readonly bufferedAmount = 0;
+  /** Resolves once "open" has been emitted. */
+  readonly open: Promise<void>;
+  /** Resolves once the recognizer sent the end signal. */
+  readonly endReceived: Promise<void>;
+  private resolveEnd!: () => void;
+  private closed = false;
+
+  constructor() {
+    super();
+    this.endReceived = new Promise((resolve) => (this.resolveEnd = resolve));
+    // Handlers are attached right after the transport is created.
+    this.open = new Promise((resolve) =>
+      setImmediate(() => {
+        this.emit("open");
+        resolve();
+      }),
+    );
+  }
+
+  send(data: Buffer | string, callback?: (err?: Error) => void): void {
+    if (typeof data === "string" && isEndSignal(data)) this.resolveEnd();
+    if (callback) setImmediate(() => callback(this.closed ? new Error("closed") : undefined));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  deliver(text: string): void {
+    if (!this.closed) this.emit("message", Buffer.from(text));
+  }
+
+  remoteClose(code: number, reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit("close", code, Buffer.from(reason));
+  }
+}
@@ -2,22 +2,103 @@
  * Real-time speech recognition client for TRTC-ASR.
  */
 
+import { createReadStream, promises as fs } from "fs";
+import { ReadableStream } from "stream/web";
 import WebSocket from "ws";
 import { v4 as uuidv4 } from "uuid";
 import { Credential } from "./credential";
+import {
+  AudioFrame,
+  DEFAULT_FRAME_MS,
+  StreamAudioOptions,
+  paceFrames,
+  readFileFrames,
+  sliceFrames,
+} from "./audio-pacer";
+import {
+  AbortOptions,
+  cancelledError,
+  onAbort,
+  raceAbort,
+  sleep,
+  throwIfAborted,
+} from "./abort";
+import { AudioFramer, encodedFrames } from "./audio-framers";
+import { AudioRingBuffer } from "./audio-ring-buffer";
+import { PCM_SAMPLE_BYTES, pcmBytesPerMs, sampleRateForEngine } from "./audio-format";
+import { engineCatalog } from "./engines";
 import { ASRError, ErrorCode } from "./errors";
+import {
+  PcmConverter,
+  PcmInputFormat,
+  pcmFrameBytes,
+  validatePcmInputFormat,
+} from "./pcm-converter";
+import { Instrumentation, SessionTracker } from "./instrumentation";
+import { Logger, noopLogger, redactLogger } from "./logger";
+import { ProxyConfig, createProxyAgent, validateProxyConfig } from "./proxy";
+import {
+  CONVERT_NUM_MODES,
+  FILTER_DIRTY_MODES,
+  FILTER_MODAL_MODES,
+  FILTER_PUNC_MODES,
+  MAX_SPEAK_TIME_RANGE,
+  NEED_VAD_MODES,
+  SpeechRecognizerOptions,
+  VAD_SILENCE_TIME_RANGE,
+  VOICE_FORMATS,
+  WORD_INFO_MODES,
+  checkDuration,
+  checkEndpoint,
+  checkLocalVad,
+  checkMode,
+  checkReconnectPolicy,
+  checkSendQueue,
+  checkSessionParams,
+  checkWriteTimeout,
+  invalidOption,
+  resolveOptions,
+  voiceFormatName,
+} from "./recognizer-options";
+import { SendQueue, SendQueueOptions, SendQueueStats } from "./send-queue";
+import { SessionRecorder } from "./session-recording";
+import { EventHandler, TypedEventEmitter } from "./event-emitter";
+import { EnergyVad, LocalVadOptions, VadOutput } from "./vad";
+import {
+  RecognitionEvent,
+  RecognitionEventOptions,
+  RecognitionEventSource,
+} from "./recognition-events";
 import { SignatureParams } from "./signature";
+import { WavFormat, WavReader, wavInputFormat } from "./wav-reader";
 import { genUserSig } from "./usersig";
 
 export const ENDPOINT = "wss://asr.cloud-rtc.com";
 
-enum State {
-  IDLE = 0,
-  STARTING = 1,
-  RUNNING = 2,
-  STOPPING = 3,
-  STOPPED = 4,
-}
+/**
+ * Lifecycle of a SpeechRecognizer, reported by getState() and the
+ * "stateChange" event:
+ *
+ * - IDLE: not started yet, or reset(). start() connects; write() and
+ *   stop() reject with NOT_STARTED.
+ * - STARTING: start() is connecting. start() rejects with ALREADY_STARTED,
+ *   write() and stop() with NOT_STARTED.
+ * - RUNNING: the session is open for write(), pause() and stop().
+ * - STOPPING: stop() is flushing audio and waiting for the final results.
+ *   write() rejects with NOT_STARTED, stop() with ALREADY_STOPPED.
+ * - STOPPED: the session ended through stop() or a failure that was
+ *   reported on "fail". write() rejects with NOT_STARTED, start() and
+ *   stop() with ALREADY_STOPPED until reset().
+ */
+export const RecognizerState = {
+  IDLE: 0,
+  STARTING: 1,
+  RUNNING: 2,
+  STOPPING: 3,
+  STOPPED: 4,
+} as const;
+
+export type RecognizerState = (typeof RecognizerState)[keyof typeof RecognizerState];
 
 /** Word-level recognition details. */
 export interface WordInfo {
@@ -48,7 +129,10 @@ export interface SpeechRecognitionResponse {
   result: RecognitionResult;
 }
 
-/** Callback interface for speech recognition events. */
+/**
+ * Callback interface for speech recognition events. Listeners registered
+ * with addRecognitionListener() may implement only some of the methods.
+ */
 export interface SpeechRecognitionListener {
   onRecognitionStart(response: SpeechRecognitionResponse): void;
   onSentenceBegin(response: SpeechRecognitionResponse): void;
@@ -56,13 +140,155 @@ export interface SpeechRecognitionListener {
   onSentenceEnd(response: SpeechRecognitionResponse): void;
   onRecognitionComplete(response: SpeechRecognitionResponse): void;
   onFail(response: SpeechRecognitionResponse | null, error: Error): void;
+  /** Called before each reconnect attempt after an unexpected disconnect. */
+  onReconnecting?(attempt: number, error: Error): void;
+  /** Called once a replacement session is open and audio has been replayed. */
+  onReconnected?(attempt: number, voiceId: string): void;
+}
+
+/** Events emitted by SpeechRecognizer, matching SpeechRecognitionListener. */
+export interface SpeechRecognizerEvents {
+  start: [response: SpeechRecognitionResponse];
+  sentenceBegin: [response: SpeechRecognitionResponse];
+  resultChange: [response: SpeechRecognitionResponse];
+  sentenceEnd: [response: SpeechRecognitionResponse];
+  complete: [response: SpeechRecognitionResponse];
+  fail: [response: SpeechRecognitionResponse | null, error: Error];
+  reconnecting: [attempt: number, error: Error];
+  reconnected: [attempt: number, voiceId: string];
+  /** The send queue emptied after reaching its high-water mark. */
+  drain: [];
+  paused: [];
+  resumed: [];
+  /** The pause idle limit elapsed; the session is being stopped. */
+  idleTimeout: [];
+  /** The local VAD detected speech; offset on the written audio in ms. */
+  speechStart: [offsetMs: number];
+  /** The local VAD detected the end of speech. */
+  speechEnd: [offsetMs: number];
+  /** The lifecycle state changed (see RecognizerState). */
+  stateChange: [state: RecognizerState, previous: RecognizerState];
+}
+
+/** Listener method backing each SpeechRecognizer event. */
+const LISTENER_METHODS: {
+  [K in keyof SpeechRecognizerEvents]?: keyof SpeechRecognitionListener;
+} = {
+  start: "onRecognitionStart",
+  sentenceBegin: "onSentenceBegin",
+  resultChange: "onRecognitionResultChange",
+  sentenceEnd: "onSentenceEnd",
+  complete: "onRecognitionComplete",
+  fail: "onFail",
+  reconnecting: "onReconnecting",
+  reconnected: "onReconnected",
+};
+
+/** Outbound audio counters reported by getSendStats(). */
+export interface SendStats extends SendQueueStats {
+  /** Bytes handed to the socket (including audio replayed on reconnect). */
+  sentBytes: number;
+  /** Bytes buffered by the WebSocket but not yet written to the network. */
+  bufferedAmount: number;
+  /** Playback time of the dropped audio in ms (PCM only, else 0). */
+  droppedMs: number;
+}
+
+/** Options for SpeechRecognizer.streamWav(). */
+export interface WavStreamOptions extends StreamAudioOptions {
+  /**
+   * Resample and convert audio whose sample rate, channels or bit depth
+   * differ from the engine model instead of rejecting it (default false).
+   */
+  convert?: boolean;
+}
+
+/** Frame size and conversion of one WAV stream. */
+interface WavFraming {
+  frameBytes: number;
+  /** Input bytes per ms. */
+  bytesPerMs: number;
+  converter: PcmConverter | null;
 }
 
-/** Real-time speech recognition client using WebSocket. */
-export class SpeechRecognizer {
+/**
+ * Keep-alive settings for SpeechRecognizer.pause(). Aborting `signal`
+ * while queued audio drains rejects with CANCELLED and does not pause.
+ */
+export interface PauseOptions extends AbortOptions {
+  /** Interval between keep-alive frames in ms (default 5000). */
+  keepAliveInterval?: number;
+  /** Duration of each generated PCM silence frame in ms (default 40). */
+  keepAliveFrameMs?: number;
+  /** Keep-alive frame to send instead, e.g. encoded silence for non-PCM. */
+  silenceFrame?: Buffer;
+  /** Stop the session after this long paused in ms (default 0, no limit). */
+  idleTimeout?: number;
+}
+
+/**
+ * The connection of a session. A ws WebSocket is used unless setTransport()
+ * provides another implementation, such as the one of SessionReplayer.
+ */
+export interface RecognizerTransport {
+  readonly bufferedAmount: number;
+  send(data: Buffer | string, callback?: (err?: Error) => void): void;
+  close(): void;
+  on(event: "open", listener: () => void): this;
+  on(event: "error", listener: (err: Error) => void): this;
+  on(event: "message", listener: (data: WebSocket.Data) => void): this;
+  on(event: "close", listener: (code: number, reason: Buffer) => void): this;
+}
+
+/** Creates the transport of a session from its URL and ws options. */
+export type TransportFactory = (
+  url: string,
+  options: WebSocket.ClientOptions,
+) => RecognizerTransport;
+
+/** Automatic reconnection settings for SpeechRecognizer. */
+export interface ReconnectPolicy {
+  /** Maximum reconnect attempts per disconnect (default 3). */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms (default 500). */
+  initialDelay?: number;
+  /** Upper bound of the backoff delay in ms (default 5000). */
+  maxDelay?: number;
+  /** Factor applied to the delay after each failed attempt (default 2). */
+  multiplier?: number;
+  /** Seconds of recent PCM audio replayed into the new session (default 10). */
+  replaySeconds?: number;
+}
+
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 5000,
+  multiplier: 2,
+  replaySeconds: 10,
+};
+
+const DEFAULT_KEEP_ALIVE_INTERVAL = 5000; // ms
+const DEFAULT_KEEP_ALIVE_FRAME_MS = 40;
+
+/** Duration of each frame sent when replaying audio after a reconnect. */
+const REPLAY_FRAME_MS = 200;
+
+/**
+ * Real-time speech recognition client using WebSocket.
+ *
+ * Events can be observed with the typed on()/once()/off() API or through
+ * SpeechRecognitionListener objects; a throwing handler is reported on the
+ * "listenerError" event and never interrupts the session.
+ */
+export class SpeechRecognizer extends TypedEventEmitter<SpeechRecognizerEvents> {
   private credential: Credential;
-  private listener: SpeechRecognitionListener;
-  private ws: WebSocket | null = null;
+  private listenerAdapters = new Map<
+    Partial<SpeechRecognitionListener>,
+    [keyof SpeechRecognizerEvents, EventHandler<unknown[]>][]
+  >();
+  private eventSources = new Set<RecognitionEventSource>();
+  private ws: RecognizerTransport | null = null;
 
   private endpoint = ENDPOINT;
   private engineModelType: string;
@@ -79,30 +305,176 @@ export class SpeechRecognizer {
   private maxSpeakTime = 0;
   private voiceId = "";
   private writeTimeout = 5000; // ms
+  private reconnectPolicy: Required<ReconnectPolicy> | null = null;
+  private sendQueueOptions: SendQueueOptions | null = null;
+  private sendQueue: SendQueue | null = null;
+  private localVadOptions: LocalVadOptions | null = null;
+  private localVad: EnergyVad | null = null;
+  private inputFormat: PcmInputFormat | null = null;
+  private converter: PcmConverter | null = null;
+  private framer: AudioFramer | null = null;
+  private proxy: ProxyConfig | null = null;
+  private instrumentation: Instrumentation | null = null;
+  private tracker: SessionTracker | null = null;
+  private logger: Logger = noopLogger;
+  private recorder: SessionRecorder | null = null;
+  private transportFactory: TransportFactory | null = null;
+  private log: Logger = noopLogger; // child of logger for the current session
 
-  private state: State = State.IDLE;
+  private state: RecognizerState = RecognizerState.IDLE;
+  private generation = 0; // incremented by each start()
+  private paused = false;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
   private doneResolve: (() => void) | null = null;
   private donePromise: Promise<void> | null = null;
 
+  // Reconnection state. Times and indexes reported by replacement sessions
+  // are shifted so listeners see one continuous timeline.
+  private reconnecting = false;
+  /** Aborts the backoff delay of a pending reconnect; close() cancels it. */
+  private reconnectBackoff: AbortController | null = null;
+  private audioHistory = new AudioRingBuffer(0);
+  private sessionCount = 0;
+  private timeOffset = 0; // ms
+  private indexMap = new Map<number, number>();
+  private nextIndex = 0;
+  private committedEndTime = 0; // ms
+  private lastEndTime = 0; // ms
+
+  // Audio is not always sent as written (local VAD gating, dropped or
+  // keep-alive audio), so each written chunk carries its offset on the
+  // written timeline and anchors map sent audio back to it.
+  private writtenBytes = 0;
+  private chunkOrigins = new WeakMap<Buffer, number>(); // ms
+  private timelineAnchors: { sentMs: number; originalMs: number }[] = [];
+
+  /**
+   * `options` are applied as by configure(), so invalid settings throw
+   * here; they may be passed in place of the listener.
+   */
+  constructor(
+    credential: Credential,
+    engineModelType: string,
+    options?: SpeechRecognizerOptions,
+  );
   constructor(
     credential: Credential,
     engineModelType: string,
-    listener: SpeechRecognitionListener,
+    listener?: Partial<SpeechRecognitionListener>,
+    options?: SpeechRecognizerOptions,
+  );
+  constructor(
+    credential: Credential,
+    engineModelType: string,
+    listenerOrOptions?: Partial<SpeechRecognitionListener> | SpeechRecognizerOptions,
+    options?: SpeechRecognizerOptions,
   ) {
+    super();
     this.credential = credential;
-    this.listener = listener;
     this.engineModelType = engineModelType;
+    if (options === undefined && listenerOrOptions && !isListener(listenerOrOptions)) {
+      options = listenerOrOptions as SpeechRecognizerOptions;
+    } else if (listenerOrOptions) {
+      this.addRecognitionListener(listenerOrOptions as Partial<SpeechRecognitionListener>);
+    }
+    if (options) {
+      this.configure(options);
+    }
+  }
+
+  // ---- Listeners ----
+
+  /** Subscribe a (possibly partial) listener object to all its events. */
+  addRecognitionListener(listener: Partial<SpeechRecognitionListener>): void {
+    if (this.listenerAdapters.has(listener)) return;
+
+    const adapters: [keyof SpeechRecognizerEvents, EventHandler<unknown[]>][] = [];
+    for (const [event, method] of Object.entries(LISTENER_METHODS)) {
+      if (!method || typeof listener[method] !== "function") continue;
+      const handler: EventHandler<unknown[]> = (...args) =>
+        (listener[method] as EventHandler<unknown[]>).apply(listener, args);
+      adapters.push([event as keyof SpeechRecognizerEvents, handler]);
+      this.on(event as keyof SpeechRecognizerEvents, handler);
+    }
+    this.listenerAdapters.set(listener, adapters);
+  }
+
+  /** Unsubscribe a listener added with addRecognitionListener(). */
+  removeRecognitionListener(listener: Partial<SpeechRecognitionListener>): void {
+    const adapters = this.listenerAdapters.get(listener);
+    if (!adapters) return;
+    for (const [event, handler] of adapters) {
+      this.off(event, handler);
+    }
+    this.listenerAdapters.delete(listener);
   }
 
   // ---- Configuration setters ----
 
+  /**
+   * Apply several settings at once (see SpeechRecognizerOptions). Every
+   * field is validated, together with the current settings, before any is
+   * applied; the first invalid one throws INVALID_PARAM naming its path.
+   */
+  configure(options: SpeechRecognizerOptions): void {
+    const params = resolveOptions(options, sampleRateForEngine(this.engineModelType));
+    const enabled = <T>(value: T | null | undefined, current: T | null) =>
+      (value === undefined ? current : value) !== null;
+    if (options.framer) checkFramer(options.framer);
+    const framer = options.framer === undefined ? this.framer : options.framer;
+    checkSessionParams({
+      voiceFormat: params.voiceFormat ?? options.framer?.voiceFormat ?? this.voiceFormat,
+      needVad: params.needVad ?? this.needVad,
+      vadSilenceTime: params.vadSilenceTime ?? this.vadSilenceTime,
+      maxSpeakTime: params.maxSpeakTime ?? this.maxSpeakTime,
+      localVad: enabled(options.localVad, this.localVadOptions),
+      inputFormat: enabled(options.inputFormat, this.inputFormat),
+      framer: framer?.voiceFormat ?? null,
+    });
+    if (options.inputFormat) validatePcmInputFormat(options.inputFormat);
+    if (options.proxy) validateProxyConfig(options.proxy);
+
+    if (options.endpoint !== undefined) this.endpoint = options.endpoint;
+    this.voiceFormat = params.voiceFormat ?? this.voiceFormat;
+    this.needVad = params.needVad ?? this.needVad;
+    this.vadSilenceTime = params.vadSilenceTime ?? this.vadSilenceTime;
+    this.maxSpeakTime = params.maxSpeakTime ?? this.maxSpeakTime;
+    this.convertNumMode = params.convertNumMode ?? this.convertNumMode;
+    this.filterDirty = params.filterDirty ?? this.filterDirty;
+    this.filterModal = params.filterModal ?? this.filterModal;
+    this.filterPunc = params.filterPunc ?? this.filterPunc;
+    this.wordInfo = params.wordInfo ?? this.wordInfo;
+    if (options.hotwordId !== undefined) this.hotwordId = options.hotwordId;
+    if (options.customizationId !== undefined) this.customizationId = options.customizationId;
+    if (options.voiceId !== undefined) this.voiceId = options.voiceId;
+    if (options.writeTimeout !== undefined) this.writeTimeout = options.writeTimeout;
+    if (options.reconnect !== undefined) this.setReconnectPolicy(options.reconnect);
+    if (options.sendQueue !== undefined) this.setSendQueue(options.sendQueue);
+    if (options.localVad !== undefined) this.setLocalVad(options.localVad);
+    if (options.inputFormat !== undefined) this.setInputFormat(options.inputFormat);
+    if (options.framer !== undefined) this.setFramer(options.framer);
+    if (options.proxy !== undefined) this.setProxy(options.proxy);
+    if (options.instrumentation !== undefined) this.setInstrumentation(options.instrumentation);
+    if (options.logger !== undefined) this.setLogger(options.logger);
+    if (options.recorder !== undefined) this.setRecorder(options.recorder);
+  }
+
+  /** Override the default WebSocket endpoint (for testing). */
+  setEndpoint(endpoint: string): void {
+    checkEndpoint("endpoint", endpoint);
+    this.endpoint = endpoint;
+  }
   setVoiceFormat(format: number): void {
+    checkMode("voiceFormat", format, VOICE_FORMATS);
     this.voiceFormat = format;
   }
   setNeedVad(needVad: number): void {
+    checkMode("needVad", needVad, NEED_VAD_MODES);
     this.needVad = needVad;
   }
   setConvertNumMode(mode: number): void {
+    checkMode("convertNumMode", mode, CONVERT_NUM_MODES);
     this.convertNumMode = mode;
   }
   setHotwordId(id: string): void {
@@ -112,106 +484,673 @@ export class SpeechRecognizer {
     this.customizationId = id;
   }
   setFilterDirty(mode: number): void {
+    checkMode("filterDirty", mode, FILTER_DIRTY_MODES);
     this.filterDirty = mode;
   }
   setFilterModal(mode: number): void {
+    checkMode("filterModal", mode, FILTER_MODAL_MODES);
     this.filterModal = mode;
   }
   setFilterPunc(mode: number): void {
+    checkMode("filterPunc", mode, FILTER_PUNC_MODES);
     this.filterPunc = mode;
   }
   setWordInfo(mode: number): void {
+    checkMode("wordInfo", mode, WORD_INFO_MODES);
     this.wordInfo = mode;
   }
+  /** 240-2000 ms, or 0 for the service default; requires VAD. */
   setVadSilenceTime(ms: number): void {
+    checkDuration("vadSilenceTime", ms, VAD_SILENCE_TIME_RANGE);
     this.vadSilenceTime = ms;
   }
+  /** 5000-90000 ms, or 0 for the service default; requires VAD. */
   setMaxSpeakTime(ms: number): void {
+    checkDuration("maxSpeakTime", ms, MAX_SPEAK_TIME_RANGE);
     this.maxSpeakTime = ms;
   }
   setVoiceId(id: string): void {
     this.voiceId = id;
   }
   setWriteTimeout(ms: number): void {
+    checkWriteTimeout("writeTimeout", ms);
     this.writeTimeout = ms;
   }
 
+  /**
+   * Enable automatic reconnection after an unexpected disconnect, or pass
+   * null to disable it (the default). Audio replay requires PCM input.
+   */
+  setReconnectPolicy(policy: ReconnectPolicy | null): void {
+    if (!policy) {
+      this.reconnectPolicy = null;
+      return;
+    }
+    checkReconnectPolicy("reconnectPolicy", policy);
+    const d = DEFAULT_RECONNECT_POLICY;
+    this.reconnectPolicy = {
+      maxAttempts: policy.maxAttempts ?? d.maxAttempts,
+      initialDelay: policy.initialDelay ?? d.initialDelay,
+      maxDelay: policy.maxDelay ?? d.maxDelay,
+      multiplier: policy.multiplier ?? d.multiplier,
+      replaySeconds: policy.replaySeconds ?? d.replaySeconds,
+    };
+  }
+
+  /**
+   * Route write() through a bounded queue (see SendQueueOptions), or pass
+   * null to send each chunk directly (the default). With a queue, write()
+   * resolves once the chunk is accepted instead of once it is sent.
+   */
+  setSendQueue(options: SendQueueOptions | null): void {
+    if (options) checkSendQueue("sendQueue", options);
+    this.sendQueueOptions = options;
+  }
+
+  /**
+   * Skip silence on the client with an energy/zero-crossing VAD (PCM only),
+   * or pass null to send all audio (the default). Reported times stay on
+   * the timeline of the audio passed to write(). Unless `hangoverMs` is
+   * given, the silence kept after speech matches vadSilenceTime (1000ms
+   * when unset) so the service still ends sentences on its own VAD.
+   */
+  setLocalVad(options: LocalVadOptions | null): void {
+    if (options) {
+      checkLocalVad("localVad", options, sampleRateForEngine(this.engineModelType));
+    }
+    this.localVadOptions = options;
+  }
+
+  /**
+   * Declare the format of the PCM passed to write(), or pass null when it
+   * already is 16-bit mono at the engine's sample rate (the default). The
+   * audio is then resampled, downmixed and converted before it is sent.
+   */
+  setInputFormat(format: PcmInputFormat | null): void {
+    if (format) {
+      validatePcmInputFormat(format);
+    }
+    this.inputFormat = format;
+  }
+
+  /**
+   * Cut the audio passed to write() on the frame boundaries of a compressed
+   * format (see audio-framers) and send it with the framer's voice format,
+   * or pass null to send written chunks as they are (the default). The
+   * stream methods then pace the audio by its encoded duration.
+   */
+  setFramer(framer: AudioFramer | null): void {
+    if (framer) {
+      checkFramer(framer);
+      this.voiceFormat = framer.voiceFormat;
+    }
+    this.framer = framer;
+  }
+
+  /**
+   * Connect through an HTTP(S) or SOCKS5 proxy, or pass null to connect
+   * directly (the default). A ProxyOptions without `url` uses HTTPS_PROXY
+   * and NO_PROXY from the environment.
+   */
+  setProxy(proxy: ProxyConfig | null): void {
+    if (proxy) {
+      validateProxyConfig(proxy);
+    }
+    this.proxy = proxy;
+  }
+
+  /** Record metrics and spans, or pass null to stop (the default). */
+  setInstrumentation(instrumentation: Instrumentation | null): void {
+    this.instrumentation = instrumentation;
+  }
+
+  /**
+   * Log connections, messages and reconnects, or pass null to stop (the
+   * default). Secrets are redacted before they reach the logger.
+   */
+  setLogger(logger: Logger | null): void {
+    this.logger = logger
+      ? redactLogger(logger, () => [this.credential.secretKey, this.credential.userSig])
+      : noopLogger;
+    this.log = this.logger;
+  }
+
+  /**
+   * Record outbound audio and inbound messages of each session, or pass
+   * null to stop (the default). See SessionRecorder.
+   */
+  setRecorder(recorder: SessionRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Open sessions with a custom transport instead of a WebSocket, or pass
+   * null to restore the default. Used to replay recorded sessions.
+   */
+  setTransport(factory: TransportFactory | null): void {
+    this.transportFactory = factory;
+  }
+
+  /** Outbound audio counters, including dropped audio. */
+  getSendStats(): SendStats {
+    const queueStats = this.sendQueue?.stats() ?? {
+      queuedBytes: 0,
+      queuedChunks: 0,
+      inFlightBytes: 0,
+      droppedBytes: 0,
+      droppedChunks: 0,
+    };
+    const bytesPerMs = this.bytesPerMs();
+    return {
+      ...queueStats,
+      sentBytes: this.audioHistory.totalBytes,
+      bufferedAmount: this.ws?.bufferedAmount ?? 0,
+      droppedMs: bytesPerMs > 0 ? queueStats.droppedBytes / bytesPerMs : 0,
+    };
+  }
+
   // ---- Core operations ----
 
-  /** Initiate the WebSocket connection and begin the recognition session. */
-  start(): Promise<void> {
-    if (this.state !== State.IDLE) {
+  /**
+   * Initiate the WebSocket connection and begin the recognition session.
+   * Aborting `signal` before the connection opens closes it and rejects
+   * with CANCELLED; the recognizer can then be started again.
+   */
+  start(options: AbortOptions = {}): Promise<void> {
+    if (this.state === RecognizerState.STOPPED) {
+      return Promise.reject(
+        new ASRError(
+          ErrorCode.ALREADY_STOPPED,
+          "recognizer stopped; call reset() to start again",
+        ),
+      );
+    }
+    if (this.state !== RecognizerState.IDLE) {
       return Promise.reject(
         new ASRError(ErrorCode.ALREADY_STARTED, "recognizer already started"),
       );
     }
 
-    this.state = State.STARTING;
+    // Settings that depend on each other are only known to be complete now.
+    try {
+      checkSessionParams({
+        voiceFormat: this.voiceFormat,
+        needVad: this.needVad,
+        vadSilenceTime: this.vadSilenceTime,
+        maxSpeakTime: this.maxSpeakTime,
+        localVad: this.localVadOptions !== null,
+        inputFormat: this.inputFormat !== null,
+        framer: this.framer?.voiceFormat ?? null,
+      });
+      engineCatalog.check(this.engineModelType, "realtime", {
+        voiceFormat: voiceFormatName(this.voiceFormat),
+      });
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    const bytesPerMs = this.bytesPerMs();
+    if (options.signal?.aborted) {
+      return Promise.reject(cancelledError(options.signal));
+    }
 
-    return new Promise<void>((resolve, reject) => {
-      try {
-        this.connect(resolve, reject);
-      } catch (err) {
-        this.state = State.IDLE;
-        reject(
-          new ASRError(
-            ErrorCode.CONNECT_FAILED,
-            `websocket connect failed: ${err}`,
-          ),
-        );
-      }
+    this.generation++;
+    this.setState(RecognizerState.STARTING);
+
+    if (!this.voiceId) {
+      this.voiceId = uuidv4();
+    }
+    this.log = this.logger.child({
+      voiceId: this.voiceId,
+      engine: this.engineModelType,
+    });
+    this.recorder?.begin({
+      engine: this.engineModelType,
+      voiceFormat: this.voiceFormat,
+      voiceId: this.voiceId,
+      params: recordedParams(this.signatureParams(this.voiceId)),
     });
+
+    const replayMs = (this.reconnectPolicy?.replaySeconds ?? 0) * 1000;
+    this.audioHistory = new AudioRingBuffer(
+      Math.floor(replayMs * bytesPerMs),
+      PCM_SAMPLE_BYTES,
+    );
+
+    this.sendQueue = this.sendQueueOptions
+      ? new SendQueue(
+          this.sendQueueOptions,
+          (data, cb) => this.sendAudio(data, cb),
+          () => this.emit("drain"),
+        )
+      : null;
+
+    this.localVad = this.localVadOptions
+      ? new EnergyVad(sampleRateForEngine(this.engineModelType), {
+          ...this.localVadOptions,
+          hangoverMs:
+            this.localVadOptions.hangoverMs ?? (this.vadSilenceTime || 1000),
+        })
+      : null;
+    this.converter = this.inputFormat
+      ? new PcmConverter(
+          this.inputFormat,
+          sampleRateForEngine(this.engineModelType),
+        )
+      : null;
+    this.framer?.reset();
+    this.writtenBytes = 0;
+    this.timelineAnchors = [];
+    this.reconnecting = false;
+    this.sessionCount = 0;
+    this.timeOffset = 0;
+    this.indexMap.clear();
+    this.nextIndex = 0;
+    this.committedEndTime = 0;
+    this.lastEndTime = 0;
+
+    this.donePromise = new Promise<void>((res) => {
+      this.doneResolve = res;
+    });
+
+    this.tracker =
+      this.instrumentation?.startSession(this.engineModelType, this.voiceId) ?? null;
+
+    return this.openSession(
+      this.voiceId,
+      () => {
+        this.setState(RecognizerState.RUNNING);
+        this.tracker?.opened(this.voiceId);
+      },
+      options.signal,
+    ).catch((err) => {
+      this.log.error("start failed", { error: err });
+      this.setState(RecognizerState.IDLE);
+      this.endTracking(err);
+      throw err;
+    });
+  }
+
+  /**
+   * Send audio data to the ASR service. Aborting `signal` rejects with
+   * CANCELLED without waiting for the send; audio already queued is still
+   * sent. With a framer, incomplete frames are held until the next write().
+   */
+  write(data: Buffer, options: AbortOptions = {}): Promise<void> {
+    return this.writeAudio(data, options, true);
   }
 
-  /** Send audio data to the ASR service. */
-  write(data: Buffer): Promise<void> {
-    if (this.state !== State.RUNNING) {
+  /** write() for audio the stream methods have already framed. */
+  private writeFrame(data: Buffer, options: AbortOptions): Promise<void> {
+    return this.framer ? this.writeAudio(data, options, false) : this.write(data, options);
+  }
+
+  /**
+   * Send written audio, cut by the framer when `frame` is set and passed
+   * through the input converter unless `convert` is false.
+   */
+  private writeAudio(
+    data: Buffer,
+    options: AbortOptions,
+    frame: boolean,
+    convert = true,
+  ): Promise<void> {
+    if (options.signal?.aborted) {
+      return Promise.reject(cancelledError(options.signal));
+    }
+    if (this.state !== RecognizerState.RUNNING) {
       return Promise.reject(
         new ASRError(ErrorCode.NOT_STARTED, "recognizer not running"),
       );
     }
-    if (!this.ws) {
+    if (this.paused) {
+      return Promise.reject(
+        new ASRError(ErrorCode.NOT_STARTED, "recognizer paused"),
+      );
+    }
+    if (!this.ws && !this.reconnecting) {
       return Promise.reject(
         new ASRError(ErrorCode.NOT_STARTED, "connection not established"),
       );
     }
 
-    return new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new ASRError(ErrorCode.WRITE_FAILED, "write timeout"));
-      }, this.writeTimeout);
+    let chunks: Buffer[];
+    try {
+      if (frame && this.framer) {
+        data = Buffer.concat(this.framer.push(data).map((f) => f.data));
+        if (data.length === 0) return Promise.resolve();
+      }
+      chunks = this.gateAudio(data, convert);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    if (this.reconnecting) {
+      // Kept in the audio history and replayed once the session is restored.
+      for (const chunk of chunks) this.trackSent(chunk);
+      return Promise.resolve();
+    }
+    return raceAbort(
+      Promise.all(chunks.map((chunk) => this.sendChunk(chunk))).then(
+        () => undefined,
+      ),
+      options.signal,
+    );
+  }
 
-      this.ws!.send(data, (err) => {
-        clearTimeout(timeout);
-        if (err) {
-          reject(
-            new ASRError(
-              ErrorCode.WRITE_FAILED,
-              `write audio data failed: ${err.message}`,
-            ),
-          );
-        } else {
-          resolve();
-        }
-      });
+  /**
+   * Suspend audio input while keeping the session open. Short silence
+   * frames are sent every `keepAliveInterval` so the service does not time
+   * out, and write() rejects until resume(). Once `idleTimeout` elapses the
+   * session is stopped cleanly.
+   */
+  async pause(options: PauseOptions = {}): Promise<void> {
+    throwIfAborted(options.signal);
+    if (this.state !== RecognizerState.RUNNING) {
+      throw new ASRError(ErrorCode.NOT_STARTED, "recognizer not running");
+    }
+    if (this.paused) return;
+
+    let frame = options.silenceFrame;
+    if (!frame) {
+      const bytesPerMs = this.bytesPerMs();
+      if (bytesPerMs === 0) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          "silenceFrame is required when voice format is not PCM",
+        );
+      }
+      const frameMs = options.keepAliveFrameMs ?? DEFAULT_KEEP_ALIVE_FRAME_MS;
+      const size = Math.floor(frameMs * bytesPerMs);
+      frame = Buffer.alloc(size - (size % PCM_SAMPLE_BYTES));
+    }
+
+    // Audio written before pausing must precede the keep-alive frames.
+    if (this.sendQueue) {
+      await raceAbort(this.sendQueue.waitForDrain(), options.signal);
+    }
+    if (this.state !== RecognizerState.RUNNING || this.paused) return;
+
+    const keepAliveFrame = frame;
+    this.paused = true;
+    this.keepAliveTimer = setInterval(() => {
+      if (this.ws && !this.reconnecting) {
+        this.sendAudio(keepAliveFrame, () => undefined);
+      }
+    }, options.keepAliveInterval ?? DEFAULT_KEEP_ALIVE_INTERVAL);
+
+    if (options.idleTimeout && options.idleTimeout > 0) {
+      this.idleTimer = setTimeout(() => {
+        this.emit("idleTimeout");
+        this.stop().catch((err) => this.emit("fail", null, err));
+      }, options.idleTimeout);
+    }
+
+    this.emit("paused");
+  }
+
+  /** Resume audio input after pause(). */
+  resume(): void {
+    if (!this.paused) return;
+    this.endPause();
+    this.emit("resumed");
+  }
+
+  /** The lifecycle state (see RecognizerState). */
+  getState(): RecognizerState {
+    return this.state;
+  }
+
+  /** Whether the session is paused. */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Send a whole buffer at real-time pace (see StreamAudioOptions) and,
+   * unless `autoStop` is false, stop the session afterwards. With a framer,
+   * whole frames are sent in chunks of about `frameMs` of encoded audio.
+   */
+  async streamBuffer(
+    data: Buffer,
+    options: StreamAudioOptions = {},
+  ): Promise<void> {
+    let frames: Iterable<AudioFrame> | AsyncIterable<AudioFrame>;
+    if (this.framer) {
+      frames = encodedFrames([data], this.framer, options.frameMs);
+    } else {
+      const { frameBytes, frameMs, bytesPerMs } = this.framing(options);
+      frames = sliceFrames(data, frameBytes, frameMs, bytesPerMs);
+    }
+    await paceFrames(
+      frames,
+      (chunk) => this.writeFrame(chunk, { signal: options.signal }),
+      { ...options, totalBytes: data.length },
+    );
+    if (options.autoStop ?? true) {
+      await this.stop({ signal: options.signal });
+    }
+  }
+
+  /**
+   * Like streamBuffer(), reading the audio file incrementally. With the PCM
+   * voice format, WAV files are detected and handled by streamWav().
+   */
+  async streamFile(
+    path: string,
+    options: WavStreamOptions = {},
+  ): Promise<void> {
+    let totalBytes: number;
+    let isWav = false;
+    try {
+      totalBytes = (await fs.stat(path)).size;
+      if (this.bytesPerMs() > 0) {
+        isWav = await hasWavHeader(path);
+      }
+    } catch (err) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `read audio file failed: ${err}`,
+      );
+    }
+    if (isWav) {
+      await this.streamWav(createReadStream(path), { ...options, totalBytes });
+      return;
+    }
+
+    let frames: AsyncIterable<AudioFrame>;
+    if (this.framer) {
+      frames = encodedFrames(createReadStream(path), this.framer, options.frameMs);
+    } else {
+      const { frameBytes, frameMs, bytesPerMs } = this.framing(options);
+      frames = readFileFrames(path, frameBytes, frameMs, bytesPerMs);
+    }
+    await paceFrames(
+      frames,
+      (chunk) => this.writeFrame(chunk, { signal: options.signal }),
+      { ...options, totalBytes },
+    );
+    if (options.autoStop ?? true) {
+      await this.stop({ signal: options.signal });
+    }
+  }
+
+  /**
+   * Stream WAV audio, e.g. a file or a live recorder's output, at real-time
+   * pace. The header is parsed as it arrives and only the samples are sent.
+   * Audio that does not match the engine model is rejected with
+   * INVALID_PARAM unless `convert` is set. Resolves with the WAV format.
+   */
+  async streamWav(
+    source: AsyncIterable<Buffer> | Iterable<Buffer>,
+    options: WavStreamOptions & { totalBytes?: number } = {},
+  ): Promise<WavFormat> {
+    const reader = new WavReader();
+    // The WAV's own conversion replaces the input converter for its frames.
+    await paceFrames(
+      this.wavFrames(source, reader, options),
+      (chunk) => this.writeAudio(chunk, { signal: options.signal }, false, false),
+      options,
+    );
+    const format = reader.format;
+    if (!format) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, "missing fmt chunk");
+    }
+    if (options.autoStop ?? true) {
+      await this.stop({ signal: options.signal });
+    }
+    return format;
+  }
+
+  /**
+   * Async-iterable view of the recognition events. Subscribe before
+   * start() to receive every event; iteration ends with the session.
+   */
+  results(options?: RecognitionEventOptions): RecognitionEventSource {
+    const source = new RecognitionEventSource(options, () => {
+      this.removeRecognitionListener(source);
+      this.eventSources.delete(source);
     });
+    this.addRecognitionListener(source);
+    this.eventSources.add(source);
+    return source;
+  }
+
+  /** WHATWG ReadableStream of the recognition events. */
+  readableStream(
+    options?: RecognitionEventOptions,
+  ): ReadableStream<RecognitionEvent> {
+    return this.results(options).toReadableStream();
+  }
+
+  /**
+   * Gracefully stop the recognition session. Aborting `signal` gives up
+   * waiting for queued audio and the final results: the connection is
+   * closed at once and stop() rejects with CANCELLED.
+   */
+  async stop(options: AbortOptions = {}): Promise<void> {
+    throwIfAborted(options.signal);
+    const removeAbort = onAbort(options.signal, () => this.abortStop());
+    try {
+      await raceAbort(this.stopSession(), options.signal);
+    } finally {
+      removeAbort();
+      if (this.state === RecognizerState.STOPPED) {
+        for (const source of [...this.eventSources]) source.close();
+      }
+    }
   }
 
-  /** Gracefully stop the recognition session. */
-  async stop(): Promise<void> {
-    if (this.state !== State.RUNNING) {
+  /**
+   * Make the recognizer startable again for a new utterance, keeping its
+   * configuration and listeners. A running session is closed at once,
+   * without its final results. The voice ID is cleared, so the next
+   * start() uses a fresh one unless setVoiceId() is called again. Throws
+   * while start() or stop() is in progress.
+   */
+  reset(): void {
+    if (this.state === RecognizerState.STARTING) {
+      throw new ASRError(
+        ErrorCode.ALREADY_STARTED,
+        "recognizer starting; abort start() before reset()",
+      );
+    }
+    if (this.state === RecognizerState.STOPPING) {
+      throw new ASRError(
+        ErrorCode.ALREADY_STOPPED,
+        "recognizer stopping; wait for stop() before reset()",
+      );
+    }
+    if (this.state === RecognizerState.RUNNING) {
+      this.log.info("session reset");
+      this.sendQueue?.reset();
+      this.close();
+      this.resolveDone();
+      for (const source of [...this.eventSources]) source.close();
+    }
+    this.reconnecting = false;
+    this.voiceId = "";
+    this.setState(RecognizerState.IDLE);
+  }
+
+  // ---- Internal methods ----
+
+  /** Errors also reach the instrumentation, except those start() rejects with. */
+  protected emit<K extends keyof SpeechRecognizerEvents>(
+    event: K,
+    ...args: SpeechRecognizerEvents[K]
+  ): void {
+    if (event === "fail" && this.state !== RecognizerState.STARTING) {
+      this.tracker?.error(args[1]);
+    }
+    super.emit(event, ...args);
+  }
+
+  private setState(state: RecognizerState): void {
+    const previous = this.state;
+    if (state === previous) return;
+    this.state = state;
+    this.emit("stateChange", state, previous);
+  }
+
+  /**
+   * Report the failure that ended a running session, then close it. A
+   * "fail" handler may already have reset() and restarted the recognizer.
+   */
+  private failSession(resp: SpeechRecognitionResponse | null, err: Error): void {
+    const generation = this.generation;
+    this.emit("fail", resp, err);
+    if (generation !== this.generation) return;
+    this.close();
+    this.resolveDone();
+    if (this.state === RecognizerState.RUNNING) {
+      this.setState(RecognizerState.STOPPED);
+    }
+  }
+
+  /** Close a stopping session without waiting for its final results. */
+  private abortStop(): void {
+    if (this.state !== RecognizerState.STOPPING) return;
+    this.log.info("stop cancelled");
+    this.sendQueue?.reset();
+    this.close();
+    this.setState(RecognizerState.STOPPED);
+    this.resolveDone();
+  }
+
+  private async stopSession(): Promise<void> {
+    if (this.state >= RecognizerState.STOPPING) {
+      throw new ASRError(ErrorCode.ALREADY_STOPPED, "recognizer already stopped");
+    }
+    if (this.state !== RecognizerState.RUNNING) {
       throw new ASRError(ErrorCode.NOT_STARTED, "recognizer not running");
     }
 
-    this.state = State.STOPPING;
+    this.setState(RecognizerState.STOPPING);
+    this.endPause();
+
+    if (this.reconnecting) {
+      // The connection is already gone; abandon the pending reconnect.
+      this.close();
+      this.setState(RecognizerState.STOPPED);
+      this.resolveDone();
+      return;
+    }
+
+    this.flushInput();
+
+    // Flush queued audio before signalling the end of the stream.
+    if (this.sendQueue) {
+      await this.sendQueue.waitForDrain();
+    }
 
     if (!this.ws) {
-      this.state = State.STOPPED;
+      this.setState(RecognizerState.STOPPED);
       throw new ASRError(ErrorCode.NOT_STARTED, "connection not established");
     }
 
     // Send end signal
     const ws = this.ws;
+    this.log.debug("sending end signal");
+    this.recorder?.ended();
     try {
       await new Promise<void>((resolve, reject) => {
         const endMsg = JSON.stringify({ type: "end" });
@@ -234,56 +1173,34 @@ export class SpeechRecognizer {
         });
       });
     } catch (err) {
+      this.log.warn("send end signal failed", { error: err });
       this.close();
-      this.state = State.STOPPED;
+      this.setState(RecognizerState.STOPPED);
       throw err;
     }
 
     // Wait for read loop to finish (with 10s timeout)
     if (this.donePromise) {
+      let timer: NodeJS.Timeout | undefined;
       await Promise.race([
         this.donePromise,
-        new Promise<void>((resolve) => setTimeout(resolve, 10000)),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, 10000);
+        }),
       ]);
+      clearTimeout(timer);
     }
 
     this.close();
-    this.state = State.STOPPED;
+    this.setState(RecognizerState.STOPPED);
   }
 
-  // ---- Internal methods ----
-
-  private connect(resolve: () => void, reject: (err: Error) => void): void {
-    if (!this.voiceId) {
-      this.voiceId = uuidv4();
-    }
-
-    // Generate UserSig if not already set
-    if (!this.credential.userSig) {
-      try {
-        this.credential.userSig = genUserSig(
-          this.credential.sdkAppId,
-          this.credential.secretKey,
-          this.voiceId,
-          86400,
-        );
-      } catch (err) {
-        this.state = State.IDLE;
-        reject(
-          new ASRError(
-            ErrorCode.AUTH_FAILED,
-            `generate user sig failed: ${err}`,
-          ),
-        );
-        return;
-      }
-    }
-
-    // Build request parameters
-    const sigParams = new SignatureParams({
+  /** URL query parameters of a session. */
+  private signatureParams(voiceId: string): SignatureParams {
+    return new SignatureParams({
       appId: this.credential.appId,
       engineModelType: this.engineModelType,
-      voiceId: this.voiceId,
+      voiceId,
       voiceFormat: this.voiceFormat,
       needVad: this.needVad,
       convertNumMode: this.convertNumMode,
@@ -296,64 +1213,518 @@ export class SpeechRecognizer {
       vadSilenceTime: this.vadSilenceTime,
       maxSpeakTime: this.maxSpeakTime,
     });
+  }
 
-    const queryString = sigParams.buildQueryStringWithSignature(
-      this.credential.userSig,
-    );
-    const wsUrl = `${this.endpoint}/asr/v2/${this.credential.appId}?${queryString}`;
-
-    const headers = {
-      "X-TRTC-SdkAppId": String(this.credential.sdkAppId),
-      "X-TRTC-UserSig": this.credential.userSig,
-    };
+  /**
+   * Open a WebSocket session; resolves once the connection is open.
+   * `onOpen` runs synchronously before any message is handled.
+   */
+  private openSession(
+    voiceId: string,
+    onOpen?: () => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      // Generate UserSig if not already set
+      if (!this.credential.userSig) {
+        try {
+          this.credential.userSig = genUserSig(
+            this.credential.sdkAppId,
+            this.credential.secretKey,
+            voiceId,
+            86400,
+          );
+        } catch (err) {
+          reject(
+            new ASRError(
+              ErrorCode.AUTH_FAILED,
+              `generate user sig failed: ${err}`,
+            ),
+          );
+          return;
+        }
+      }
 
-    this.donePromise = new Promise<void>((res) => {
-      this.doneResolve = res;
-    });
+      const sigParams = this.signatureParams(voiceId);
+      const queryString = sigParams.buildQueryStringWithSignature(
+        this.credential.userSig,
+      );
+      const wsUrl = `${this.endpoint}/asr/v2/${this.credential.appId}?${queryString}`;
 
-    this.ws = new WebSocket(wsUrl, {
-      headers,
-      handshakeTimeout: 10000,
-    });
+      const headers = {
+        "X-TRTC-SdkAppId": String(this.credential.sdkAppId),
+        "X-TRTC-UserSig": this.credential.userSig,
+      };
 
-    this.ws.on("open", () => {
-      this.state = State.RUNNING;
-      resolve();
-    });
+      this.log.debug("connecting", {
+        sessionVoiceId: voiceId,
+        url: wsUrl,
+        headers,
+        proxy: this.proxy !== null,
+      });
 
-    this.ws.on("error", (err) => {
-      if (this.state === State.STARTING) {
-        this.state = State.IDLE;
+      let ws: RecognizerTransport;
+      try {
+        const options: WebSocket.ClientOptions = {
+          headers,
+          handshakeTimeout: 10000,
+          agent: createProxyAgent(this.proxy, wsUrl),
+        };
+        ws = this.transportFactory
+          ? this.transportFactory(wsUrl, options)
+          : new WebSocket(wsUrl, options);
+      } catch (err) {
         reject(
           new ASRError(
             ErrorCode.CONNECT_FAILED,
-            `websocket connect failed: ${err.message}`,
+            `websocket connect failed: ${err}`,
           ),
         );
+        return;
       }
+
+      this.ws = ws;
+      let opened = false;
+
+      const removeAbort = onAbort(signal, () => {
+        if (opened) return;
+        this.log.info("connect cancelled", { sessionVoiceId: voiceId });
+        // Detached first so the close is not reported.
+        if (ws === this.ws) this.ws = null;
+        try {
+          ws.close();
+        } catch {
+          // ignore
+        }
+        reject(cancelledError(signal));
+      });
+
+      ws.on("open", () => {
+        opened = true;
+        removeAbort();
+        this.log.info("connected", { sessionVoiceId: voiceId });
+        this.recorder?.opened(voiceId);
+        onOpen?.();
+        resolve();
+      });
+
+      ws.on("error", (err) => {
+        this.log.warn("websocket error", { sessionVoiceId: voiceId, error: err });
+        if (!opened) {
+          removeAbort();
+          reject(
+            new ASRError(
+              ErrorCode.CONNECT_FAILED,
+              `websocket connect failed: ${err.message}`,
+            ),
+          );
+        }
+      });
+
+      ws.on("message", (data: WebSocket.Data) => {
+        if (ws === this.ws) {
+          this.handleMessage(data);
+        }
+      });
+
+      ws.on("close", (code, reason) => {
+        this.log.debug("websocket closed", {
+          sessionVoiceId: voiceId,
+          code,
+          reason: reason.toString(),
+        });
+        if (ws === this.ws) {
+          this.recorder?.closed(code, reason.toString());
+        }
+        this.handleClose(ws);
+      });
     });
+  }
 
-    this.ws.on("message", (data: WebSocket.Data) => {
-      this.handleMessage(data);
+  private handleClose(ws: RecognizerTransport): void {
+    // Sockets closed on purpose, replaced, or failing during a reconnect
+    // attempt are not reported.
+    if (ws !== this.ws || this.reconnecting) {
+      return;
+    }
+
+    const err = new ASRError(
+      ErrorCode.READ_FAILED,
+      "websocket connection closed unexpectedly",
+    );
+    this.log.warn("connection closed unexpectedly", {
+      reconnect: this.state === RecognizerState.RUNNING && this.reconnectPolicy !== null,
     });
 
-    this.ws.on("close", () => {
-      if (this.state < State.STOPPING) {
-        this.listener.onFail(
-          null,
-          new ASRError(
-            ErrorCode.READ_FAILED,
-            "websocket connection closed unexpectedly",
-          ),
-        );
+    if (this.state === RecognizerState.RUNNING && this.reconnectPolicy) {
+      this.ws = null;
+      // Audio still queued is replayed with the history.
+      for (const chunk of this.sendQueue?.reset() ?? []) {
+        this.trackSent(chunk);
       }
-      if (this.doneResolve) {
-        this.doneResolve();
-        this.doneResolve = null;
+      void this.reconnect(err);
+      return;
+    }
+
+    if (this.state === RecognizerState.RUNNING) {
+      this.failSession(null, err);
+      return;
+    }
+    this.endPause();
+    if (this.state < RecognizerState.STOPPING) {
+      this.emit("fail", null, err);
+    }
+    this.resolveDone();
+  }
+
+  /** Re-establish a lost session according to the reconnect policy. */
+  private async reconnect(cause: Error): Promise<void> {
+    const policy = this.reconnectPolicy!;
+    let delay = policy.initialDelay;
+    let lastError = cause;
+    // The recognizer may be reset() and started again meanwhile.
+    const generation = this.generation;
+    const live = () =>
+      this.state === RecognizerState.RUNNING && this.generation === generation;
+
+    this.reconnecting = true;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      this.emit("reconnecting", attempt, lastError);
+      this.tracker?.reconnecting(attempt, lastError);
+      this.log.warn("reconnecting", { attempt, delayMs: delay, error: lastError });
+
+      const backoff = new AbortController();
+      this.reconnectBackoff = backoff;
+      try {
+        await sleep(delay, backoff.signal);
+      } catch {
+        break;
+      } finally {
+        if (this.reconnectBackoff === backoff) this.reconnectBackoff = null;
       }
+      if (!live()) {
+        break;
+      }
+
+      const voiceId = uuidv4();
+      try {
+        // Results may arrive in the same tick as "open", so the timeline
+        // must be switched before the socket delivers any message.
+        await this.openSession(voiceId, () => {
+          this.tracker?.opened(voiceId);
+          this.resumeTimeline();
+          this.replayAudio();
+          this.reconnecting = false;
+        });
+      } catch (err) {
+        lastError = err as Error;
+        delay = Math.min(delay * policy.multiplier, policy.maxDelay);
+        if (!live()) {
+          break;
+        }
+        continue;
+      }
+
+      this.log.info("reconnected", { attempt, sessionVoiceId: voiceId });
+      this.emit("reconnected", attempt, voiceId);
+      return;
+    }
+
+    if (this.generation !== generation) {
+      return;
+    }
+    this.reconnecting = false;
+    if (this.state !== RecognizerState.RUNNING) {
+      return;
+    }
+
+    const err = new ASRError(
+      ErrorCode.READ_FAILED,
+      `websocket reconnect failed after ${policy.maxAttempts} attempts: ` +
+        `${lastError.message}`,
+    );
+    this.log.error("reconnect failed", { error: err });
+    this.failSession(null, err);
+  }
+
+  /** Send one chunk through the queue or directly. */
+  private sendChunk(data: Buffer): Promise<void> {
+    if (this.sendQueue) {
+      return this.sendQueue.enqueue(data, this.writeTimeout);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new ASRError(ErrorCode.WRITE_FAILED, "write timeout"));
+      }, this.writeTimeout);
+
+      this.sendAudio(data, (err) => {
+        clearTimeout(timeout);
+        if (err) {
+          reject(
+            new ASRError(
+              ErrorCode.WRITE_FAILED,
+              `write audio data failed: ${err.message}`,
+            ),
+          );
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /** Hand one audio chunk to the socket, recording it for replay. */
+  private sendAudio(data: Buffer, callback: (err?: Error) => void): void {
+    if (!this.ws) {
+      callback(new Error("connection not established"));
+      return;
+    }
+    this.trackSent(data);
+    this.ws.send(data, callback);
+  }
+
+  /** Prepare written audio for sending. Returns the chunks to send. */
+  private gateAudio(data: Buffer, convert: boolean): Buffer[] {
+    if (this.bytesPerMs() === 0) {
+      return [data];
+    }
+    const converter = convert ? this.converter : null;
+    return this.tagAudio(converter ? converter.convert(data) : data);
+  }
+
+  /** Tag converted PCM with its offset and pass it through the local VAD. */
+  private tagAudio(data: Buffer): Buffer[] {
+    const bytesPerMs = this.bytesPerMs();
+    if (this.localVad) {
+      return this.applyVad(this.localVad.process(data));
+    }
+    if (data.length === 0) {
+      return [];
+    }
+    // A view, so the same Buffer written twice gets two offsets.
+    const chunk = data.subarray(0);
+    this.chunkOrigins.set(chunk, this.writtenBytes / bytesPerMs);
+    this.writtenBytes += data.length;
+    return [chunk];
+  }
+
+  private applyVad(output: VadOutput): Buffer[] {
+    for (const event of output.events) {
+      this.emit(event.type, event.offsetMs);
+    }
+    return output.chunks.map((chunk) => {
+      this.chunkOrigins.set(chunk.data, chunk.offsetMs);
+      return chunk.data;
     });
   }
 
+  /** Send audio still buffered by the converter or local VAD. */
+  private flushInput(): void {
+    const chunks: Buffer[] = [];
+    if (this.converter) {
+      chunks.push(...this.tagAudio(this.converter.flush()));
+    }
+    if (this.localVad) {
+      chunks.push(...this.applyVad(this.localVad.flush()));
+    }
+
+    for (const chunk of chunks) {
+      if (this.sendQueue) {
+        this.sendQueue.enqueue(chunk, this.writeTimeout).catch(() => undefined);
+      } else if (this.ws) {
+        this.sendAudio(chunk, () => undefined);
+      }
+    }
+  }
+
+  /** Record audio handed to the socket for replay and time mapping. */
+  private trackSent(data: Buffer): void {
+    const origin = this.chunkOrigins.get(data);
+    const bytesPerMs = this.bytesPerMs();
+    if (origin !== undefined && bytesPerMs > 0) {
+      const sentMs = this.audioHistory.totalBytes / bytesPerMs;
+      const last = this.timelineAnchors[this.timelineAnchors.length - 1];
+      const shift = last ? last.originalMs - last.sentMs : 0;
+      if (Math.abs(origin - sentMs - shift) > 1e-6) {
+        this.timelineAnchors.push({ sentMs, originalMs: origin });
+      }
+    }
+    this.audioHistory.push(data);
+    this.recorder?.audio(data);
+    this.tracker?.audioSent(
+      data.length,
+      bytesPerMs > 0 ? this.audioHistory.totalBytes / bytesPerMs : 0,
+    );
+  }
+
+  /**
+   * Map a time on the sent audio to the written audio. An end time that
+   * falls on a gap belongs to the audio before it.
+   */
+  private toOriginalTime(ms: number, isEnd: boolean): number {
+    for (let i = this.timelineAnchors.length - 1; i >= 0; i--) {
+      const anchor = this.timelineAnchors[i];
+      if (anchor.sentMs < ms || (!isEnd && anchor.sentMs === ms)) {
+        return Math.round(anchor.originalMs + ms - anchor.sentMs);
+      }
+    }
+    return ms;
+  }
+
+  /** Start a new timeline segment for a replacement session. */
+  private resumeTimeline(): void {
+    const bytesPerMs = this.bytesPerMs();
+    this.timeOffset =
+      bytesPerMs > 0
+        ? Math.floor(this.audioHistory.startOffset / bytesPerMs)
+        : this.lastEndTime;
+    this.indexMap.clear();
+    this.sessionCount++;
+  }
+
+  /** Resend the retained audio history on the current socket. */
+  private replayAudio(): void {
+    const ws = this.ws;
+    if (!ws) return;
+    const audio = this.audioHistory.read();
+    const frameSize = Math.max(
+      Math.floor(REPLAY_FRAME_MS * this.bytesPerMs()),
+      PCM_SAMPLE_BYTES,
+    );
+    let failed = false;
+    // A failed send closes the socket, which starts the next attempt.
+    const onSent = (err?: Error) => {
+      if (!err || failed) return;
+      failed = true;
+      this.log.warn("replaying audio failed", { error: err });
+    };
+    for (let offset = 0; offset < audio.length; offset += frameSize) {
+      const frame = audio.subarray(offset, offset + frameSize);
+      this.recorder?.audio(frame, true);
+      ws.send(frame, onSent);
+    }
+  }
+
+  /**
+   * Payload of a WAV stream, cut into frames once the format is known and
+   * converted to the engine's PCM format if needed.
+   */
+  private async *wavFrames(
+    source: AsyncIterable<Buffer> | Iterable<Buffer>,
+    reader: WavReader,
+    options: WavStreamOptions,
+  ): AsyncGenerator<AudioFrame> {
+    let framing: WavFraming | null = null;
+    let pending: Buffer = Buffer.alloc(0);
+
+    for await (const chunk of source) {
+      const payload = reader.push(chunk);
+      if (!framing && reader.format) {
+        framing = this.useWavFormat(reader.format, options);
+      }
+      pending = pending.length > 0 ? Buffer.concat([pending, payload]) : payload;
+
+      while (framing && pending.length >= framing.frameBytes) {
+        const frame = pending.subarray(0, framing.frameBytes);
+        yield {
+          data: framing.converter ? framing.converter.convert(frame) : frame,
+          durationMs: framing.frameBytes / framing.bytesPerMs,
+        };
+        pending = pending.subarray(framing.frameBytes);
+      }
+    }
+
+    reader.end();
+    if (framing && (pending.length > 0 || framing.converter)) {
+      const { converter } = framing;
+      yield {
+        data: converter
+          ? Buffer.concat([converter.convert(pending), converter.flush()])
+          : pending,
+        durationMs: pending.length / framing.bytesPerMs,
+      };
+    }
+  }
+
+  /** Check a WAV format against the engine and set up any conversion. */
+  private useWavFormat(
+    format: WavFormat,
+    options: WavStreamOptions,
+  ): WavFraming {
+    const input = wavInputFormat(format);
+    const sampleRate = sampleRateForEngine(this.engineModelType);
+    const matches =
+      input.sampleRate === sampleRate &&
+      input.channels === 1 &&
+      input.sampleFormat === "int16";
+
+    if (!matches && !options.convert) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `wav format ${format.sampleRate}Hz/${format.channels}ch/` +
+          `${format.bitsPerSample}bit does not match engine ` +
+          `${this.engineModelType} (${sampleRate}Hz/1ch/16bit)`,
+      );
+    }
+    const converter = matches ? null : new PcmConverter(input, sampleRate);
+
+    const frameMs = options.frameMs ?? DEFAULT_FRAME_MS;
+    const bytesPerMs = (format.sampleRate * format.blockAlign) / 1000;
+    let frameBytes = options.frameBytes ?? Math.floor(frameMs * bytesPerMs);
+    frameBytes -= frameBytes % format.blockAlign;
+    if (frameBytes <= 0) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        "frame size must be positive",
+      );
+    }
+    return { frameBytes, bytesPerMs, converter };
+  }
+
+  /** Frame size and duration for paced streaming of the configured format. */
+  private framing(options: StreamAudioOptions): {
+    frameBytes: number;
+    frameMs: number;
+    bytesPerMs: number;
+  } {
+    const frameMs = options.frameMs ?? DEFAULT_FRAME_MS;
+    // Frames are cut from the audio as written, before any conversion.
+    const alignment = this.inputFormat
+      ? pcmFrameBytes(this.inputFormat)
+      : PCM_SAMPLE_BYTES;
+    const bytesPerMs =
+      this.inputFormat && this.bytesPerMs() > 0
+        ? (this.inputFormat.sampleRate * alignment) / 1000
+        : this.bytesPerMs();
+    let frameBytes = options.frameBytes ?? 0;
+    if (!frameBytes) {
+      if (bytesPerMs === 0) {
+        throw new ASRError(
+          ErrorCode.INVALID_PARAM,
+          "frameBytes is required when voice format is not PCM",
+        );
+      }
+      frameBytes = Math.floor(frameMs * bytesPerMs);
+      frameBytes -= frameBytes % alignment;
+    }
+    if (frameBytes <= 0 || !(frameMs > 0)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        "frame size must be positive",
+      );
+    }
+    return { frameBytes, frameMs, bytesPerMs };
+  }
+
+  private bytesPerMs(): number {
+    return pcmBytesPerMs(
+      this.voiceFormat,
+      sampleRateForEngine(this.engineModelType),
+    );
+  }
+
   private handleMessage(data: WebSocket.Data): void {
     let text: string;
     if (typeof data === "string") {
@@ -363,58 +1734,147 @@ export class SpeechRecognizer {
     } else {
       return;
     }
+    this.recorder?.message(text);
 
     let resp: SpeechRecognitionResponse;
     try {
       resp = JSON.parse(text);
     } catch (err) {
-      this.listener.onFail(
-        null,
-        new ASRError(ErrorCode.READ_FAILED, `unmarshal response failed: ${err}`),
+      const error = new ASRError(
+        ErrorCode.READ_FAILED,
+        `unmarshal response failed: ${err}`,
       );
+      this.log.error("invalid message", { error, length: text.length });
+      this.emit("fail", null, error);
       return;
     }
 
     if (resp.code !== 0) {
-      this.listener.onFail(resp, new ASRError(resp.code, resp.message));
-      this.close();
-      if (this.doneResolve) {
-        this.doneResolve();
-        this.doneResolve = null;
-      }
+      this.log.error("server error", {
+        code: resp.code,
+        message: resp.message,
+        sessionVoiceId: resp.voice_id,
+      });
+      this.failSession(resp, new ASRError(resp.code, resp.message));
+      return;
+    }
+
+    this.log.debug("message", {
+      messageId: resp.message_id,
+      sliceType: resp.result?.slice_type,
+      index: resp.result?.index,
+      final: resp.final,
+    });
+
+    if (!this.adjustTimeline(resp)) {
       return;
     }
 
     this.dispatchEvent(resp);
 
     if (resp.final === 1) {
-      this.listener.onRecognitionComplete(resp);
-      if (this.doneResolve) {
-        this.doneResolve();
-        this.doneResolve = null;
+      this.log.info("recognition complete");
+      this.emit("complete", resp);
+      this.resolveDone();
+    }
+  }
+
+  /**
+   * Map times and sentence indexes of the current session onto the
+   * continuous timeline of the written audio. Returns false for sentences
+   * that only repeat replayed audio already reported by an earlier session.
+   */
+  private adjustTimeline(resp: SpeechRecognitionResponse): boolean {
+    const result = resp.result;
+    if (!result || result.slice_type === undefined) {
+      return true;
+    }
+
+    if (this.sessionCount > 0) {
+      result.start_time += this.timeOffset;
+      result.end_time += this.timeOffset;
+      for (const word of result.word_list || []) {
+        word.start_time += this.timeOffset;
+        word.end_time += this.timeOffset;
+      }
+
+      let index = this.indexMap.get(result.index);
+      if (index === undefined) {
+        if (result.start_time < this.committedEndTime) {
+          return false;
+        }
+        index = this.nextIndex;
+        this.indexMap.set(result.index, index);
       }
+      result.index = index;
     }
+
+    this.nextIndex = Math.max(this.nextIndex, result.index + 1);
+    this.lastEndTime = Math.max(this.lastEndTime, result.end_time);
+    if (result.slice_type === 2) {
+      this.committedEndTime = Math.max(this.committedEndTime, result.end_time);
+    }
+    // Times are still on the sent audio here, which latency is measured on.
+    this.tracker?.result(result.slice_type, result.index, result.end_time);
+
+    if (this.timelineAnchors.length > 0) {
+      result.start_time = this.toOriginalTime(result.start_time, false);
+      result.end_time = this.toOriginalTime(result.end_time, true);
+      for (const word of result.word_list || []) {
+        word.start_time = this.toOriginalTime(word.start_time, false);
+        word.end_time = this.toOriginalTime(word.end_time, true);
+      }
+    }
+    return true;
   }
 
   private dispatchEvent(resp: SpeechRecognitionResponse): void {
     switch (resp.result?.slice_type) {
       case 0:
-        this.listener.onSentenceBegin(resp);
+        this.emit("sentenceBegin", resp);
         break;
       case 1:
-        this.listener.onRecognitionResultChange(resp);
+        this.emit("resultChange", resp);
         break;
       case 2:
-        this.listener.onSentenceEnd(resp);
+        this.emit("sentenceEnd", resp);
         break;
       default:
-        if (resp.final === 1) return;
-        this.listener.onRecognitionStart(resp);
+        // Replacement sessions are announced through onReconnected.
+        if (resp.final === 1 || this.sessionCount > 0) return;
+        this.emit("start", resp);
         break;
     }
   }
 
+  private resolveDone(): void {
+    if (this.doneResolve) {
+      this.doneResolve();
+      this.doneResolve = null;
+    }
+    // A failed start() is recorded with the error it rejects with.
+    if (this.state !== RecognizerState.STARTING) {
+      this.endTracking();
+    }
+  }
+
+  private endTracking(err?: unknown): void {
+    this.tracker?.end(err);
+    this.tracker = null;
+  }
+
+  private endPause(): void {
+    if (this.keepAliveTimer) clearInterval(this.keepAliveTimer);
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.keepAliveTimer = null;
+    this.idleTimer = null;
+    this.paused = false;
+  }
+
   private close(): void {
+    this.endTracking();
+    this.endPause();
+    this.reconnectBackoff?.abort();
     if (this.ws) {
       try {
         this.ws.close();
@@ -425,3 +1885,45 @@ export class SpeechRecognizer {
     }
   }
 }
+
+/** A framer implements AudioFramer with a known voice format. */
+function checkFramer(framer: AudioFramer): void {
+  if (typeof framer.push !== "function" || typeof framer.reset !== "function") {
+    throw invalidOption("framer", "must implement push() and reset()");
+  }
+  checkMode("framer.voiceFormat", framer.voiceFormat, VOICE_FORMATS);
+}
+
+/** Whether a constructor argument is a listener rather than options. */
+function isListener(
+  value: Partial<SpeechRecognitionListener> | SpeechRecognizerOptions,
+): boolean {
+  return Object.values(LISTENER_METHODS).some(
+    (method) => typeof (value as Record<string, unknown>)[method!] === "function",
+  );
+}
+
+/** Recognition parameters of a session, without credentials and nonces. */
+function recordedParams(params: SignatureParams): Record<string, string> {
+  const query = Object.fromEntries(new URLSearchParams(params.buildQueryString()));
+  for (const key of ["secretid", "timestamp", "expired", "nonce", "voice_id"]) {
+    delete query[key];
+  }
+  return query;
+}
+
+/** Whether a file starts with a RIFF/WAVE header. */
+async function hasWavHeader(path: string): Promise<boolean> {
+  const handle = await fs.open(path, "r");
+  try {
+    const header = Buffer.alloc(12);
+    const { bytesRead } = await handle.read(header, 0, 12, 0);
+    return (
+      bytesRead === 12 &&
+      header.toString("latin1", 0, 4) === "RIFF" &&
+      header.toString("latin1", 8, 12) === "WAVE"
+    );
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,512 @@
+/**
+ * Subtitle export (SRT, WebVTT, TTML) for all three recognizers.
+ *
+ * Usage:
+ *   // Batch: file recognition results
+ *   const status = await fileRecognizer.waitForResult(taskId);
+ *   const srt = formatSubtitles(segmentsFromFileResult(status), "srt");
+ *
+ *   // Incremental: real-time cues as sentences end
+ *   const writer = new SubtitleWriter("vtt");
+ *   writer.attach(recognizer, (chunk) => out.write(chunk));
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+import { TaskStatus, SentenceDetail } from "./file-recognizer";
+import { SentenceRecognitionResult } from "./sentence-recognizer";
+import {
+  RecognitionResult,
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "./speech-recognizer";
+import { TranscriptSentence } from "./transcript-aggregator";
+
+/** Output formats supported by the subtitle writers. */
+export type SubtitleFormat = "srt" | "vtt" | "ttml";
+
+/** A word with its timing in ms from the start of the audio. */
+export interface TimedWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+/** Recognized text with its timing, the common input of the writers. */
+export interface TimedSegment {
+  text: string;
+  startMs: number;
+  endMs: number;
+  /** Word timings; cues are split by interpolated times without them. */
+  words?: TimedWord[];
+}
+
+/** A subtitle cue. Times are in ms. */
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+}
+
+/** Line-breaking and timing rules for cues. */
+export interface SubtitleOptions {
+  /**
+   * Maximum line width in columns (default 42). CJK characters count as
+   * two columns, so a line holds at most 21 of them.
+   */
+  maxCharsPerLine?: number;
+  /** Maximum lines per cue (default 2). */
+  maxLines?: number;
+  /** Minimum cue duration in ms, when the next cue allows it (default 1000). */
+  minDuration?: number;
+  /** Maximum cue duration in ms (default 7000). */
+  maxDuration?: number;
+  /** TTML xml:lang (default "zh"). */
+  language?: string;
+}
+
+const FORMATS: SubtitleFormat[] = ["srt", "vtt", "ttml"];
+
+const DEFAULT_OPTIONS: Required<SubtitleOptions> = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minDuration: 1000,
+  maxDuration: 7000,
+  language: "zh",
+};
+
+const CJK =
+  /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]|[\ud840-\ud87f][\udc00-\udfff]/;
+
+/** Characters that must not start a line (kinsoku shori). */
+const NO_LINE_START = new Set(
+  Array.from("，。、；：！？）」』】〉》”’…・,.;:!?)]}%"),
+);
+
+// ---- Adapters ----
+
+/** Segment for a real-time result (e.g. from a "sentenceEnd" event). */
+export function segmentFromRealtime(result: RecognitionResult): TimedSegment {
+  return {
+    text: result.voice_text_str,
+    startMs: result.start_time,
+    endMs: result.end_time,
+    words: result.word_list?.length
+      ? result.word_list.map((w) => ({
+          text: w.word,
+          startMs: w.start_time,
+          endMs: w.end_time,
+        }))
+      : undefined,
+  };
+}
+
+/** Segments for the final sentences of a TranscriptAggregator. */
+export function segmentsFromTranscript(
+  sentences: readonly TranscriptSentence[],
+): TimedSegment[] {
+  return sentences
+    .filter((s) => s.final && s.text)
+    .map((s) => ({
+      text: s.text,
+      startMs: s.startTime,
+      endMs: s.endTime,
+      words: s.words.length
+        ? s.words.map((w) => ({
+            text: w.word,
+            startMs: w.start_time,
+            endMs: w.end_time,
+          }))
+        : undefined,
+    }));
+}
+
+/** Segments for a SentenceRecognizer result. */
+export function segmentsFromSentenceResult(
+  result: SentenceRecognitionResult,
+): TimedSegment[] {
+  if (!result.result) return [];
+  const words = (result.wordList ?? []).map((w) => ({
+    text: w.word,
+    startMs: w.startTime,
+    endMs: w.endTime,
+  }));
+  return [
+    {
+      text: result.result,
+      startMs: words.length ? words[0].startMs : 0,
+      endMs: words.length ? words[words.length - 1].endMs : result.audioDuration,
+      words: words.length ? words : undefined,
+    },
+  ];
+}
+
+/** Segments for a FileRecognizer task result or its resultDetail. */
+export function segmentsFromFileResult(
+  result: TaskStatus | SentenceDetail[],
+): TimedSegment[] {
+  const details = Array.isArray(result) ? result : result.resultDetail ?? [];
+  return details
+    .filter((d) => d.finalSentence)
+    .map((d) => ({
+      text: d.finalSentence,
+      startMs: d.startMs,
+      endMs: d.endMs,
+      // Word offsets are relative to the sentence start.
+      words: d.words?.length
+        ? d.words.map((w) => ({
+            text: w.word,
+            startMs: d.startMs + w.offsetStartMs,
+            endMs: d.startMs + w.offsetEndMs,
+          }))
+        : undefined,
+    }));
+}
+
+// ---- Writers ----
+
+/**
+ * Formats cues one segment at a time, keeping the cue numbering and the
+ * timeline of earlier segments (cues never overlap the previous one).
+ */
+export class SubtitleWriter {
+  private readonly options: Required<SubtitleOptions>;
+  private count = 0;
+  private lastEnd = 0;
+
+  constructor(
+    readonly format: SubtitleFormat,
+    options: SubtitleOptions = {},
+  ) {
+    if (!FORMATS.includes(format)) {
+      throw new ASRError(ErrorCode.INVALID_PARAM, `unsupported subtitle format: ${format}`);
+    }
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    checkOptions(this.options);
+  }
+
+  /** Text preceding the first cue. */
+  header(): string {
+    switch (this.format) {
+      case "srt":
+        return "";
+      case "vtt":
+        return "WEBVTT\n\n";
+      case "ttml":
+        return (
+          '<?xml version="1.0" encoding="UTF-8"?>\n' +
+          `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXml(this.options.language)}">\n` +
+          "  <body>\n    <div>\n"
+        );
+    }
+  }
+
+  /** Text following the last cue. */
+  footer(): string {
+    return this.format === "ttml" ? "    </div>\n  </body>\n</tt>\n" : "";
+  }
+
+  /**
+   * Split segments into cues. `nextStartMs` bounds the minimum-duration
+   * extension of the last cue when the following audio is known.
+   */
+  cues(segments: TimedSegment[], nextStartMs?: number): SubtitleCue[] {
+    const cues = segments.flatMap((s) => splitSegment(s, this.options));
+    for (let i = 0; i < cues.length; i++) {
+      const cue = cues[i];
+      const next = i + 1 < cues.length ? cues[i + 1].startMs : nextStartMs;
+      cue.startMs = Math.max(cue.startMs, this.lastEnd);
+      cue.endMs = Math.min(cue.endMs, cue.startMs + this.options.maxDuration);
+      const minEnd = Math.min(
+        cue.startMs + this.options.minDuration,
+        next ?? Infinity,
+      );
+      cue.endMs = Math.max(cue.endMs, minEnd, cue.startMs);
+      this.lastEnd = cue.endMs;
+    }
+    return cues;
+  }
+
+  /** Format the cues of one or more segments. */
+  write(segments: TimedSegment | TimedSegment[], nextStartMs?: number): string {
+    const list = Array.isArray(segments) ? segments : [segments];
+    return this.cues(list, nextStartMs)
+      .map((cue) => this.formatCue(cue))
+      .join("");
+  }
+
+  /**
+   * Write cues as real-time sentences end. The header is written at once,
+   * the footer when the session completes. Returns a function that stops.
+   */
+  attach(
+    recognizer: SpeechRecognizer,
+    output: (chunk: string) => void,
+  ): () => void {
+    const onSentenceEnd = (resp: SpeechRecognitionResponse) => {
+      if (resp.result?.voice_text_str) {
+        output(this.write(segmentFromRealtime(resp.result)));
+      }
+    };
+    const onComplete = () => output(this.footer());
+
+    output(this.header());
+    recognizer.on("sentenceEnd", onSentenceEnd);
+    recognizer.on("complete", onComplete);
+    return () => {
+      recognizer.off("sentenceEnd", onSentenceEnd);
+      recognizer.off("complete", onComplete);
+    };
+  }
+
+  private formatCue(cue: SubtitleCue): string {
+    this.count++;
+    switch (this.format) {
+      case "srt":
+        return (
+          `${this.count}\n${timestamp(cue.startMs, ",")} --> ` +
+          `${timestamp(cue.endMs, ",")}\n${cue.lines.join("\n")}\n\n`
+        );
+      case "vtt":
+        return (
+          `${timestamp(cue.startMs, ".")} --> ${timestamp(cue.endMs, ".")}\n` +
+          `${cue.lines.map(escapeVtt).join("\n")}\n\n`
+        );
+      case "ttml":
+        return (
+          `      <p begin="${timestamp(cue.startMs, ".")}" ` +
+          `end="${timestamp(cue.endMs, ".")}">` +
+          `${cue.lines.map(escapeXml).join("<br/>")}</p>\n`
+        );
+    }
+  }
+}
+
+/** Format a complete subtitle document. */
+export function formatSubtitles(
+  segments: TimedSegment[],
+  format: SubtitleFormat,
+  options?: SubtitleOptions,
+): string {
+  const writer = new SubtitleWriter(format, options);
+  return writer.header() + writer.write(segments) + writer.footer();
+}
+
+/** Throw INVALID_PARAM for limits that would make cues empty or endless. */
+function checkOptions(options: Required<SubtitleOptions>): void {
+  for (const key of ["maxCharsPerLine", "maxLines"] as const) {
+    const value = options[key];
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `invalid ${key}: must be a positive integer, got ${value}`,
+      );
+    }
+  }
+  const { minDuration, maxDuration } = options;
+  if (!(maxDuration > 0 && Number.isFinite(maxDuration))) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid maxDuration: must be a positive number of ms, got ${maxDuration}`,
+    );
+  }
+  if (!(minDuration >= 0 && minDuration <= maxDuration)) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `invalid minDuration: must be between 0 and maxDuration (${maxDuration} ms), ` +
+        `got ${minDuration}`,
+    );
+  }
+}
+
+// ---- Line breaking ----
+
+interface Token {
+  text: string;
+  startMs: number;
+  endMs: number;
+  width: number;
+  spaceBefore: boolean;
+}
+
+function splitSegment(
+  segment: TimedSegment,
+  options: Required<SubtitleOptions>,
+): SubtitleCue[] {
+  const tokens = tokenize(segment, options.maxCharsPerLine);
+  const cues: SubtitleCue[] = [];
+  let lines: Token[][] = [[]];
+
+  const flush = () => {
+    const all = lines.flat();
+    if (all.length > 0) {
+      cues.push({
+        startMs: all[0].startMs,
+        endMs: all[all.length - 1].endMs,
+        lines: lines.filter((l) => l.length > 0).map(joinLine),
+      });
+    }
+    lines = [[]];
+  };
+
+  for (const token of tokens) {
+    let line = lines[lines.length - 1];
+    const cueStart = lines[0][0]?.startMs;
+
+    if (cueStart !== undefined && token.endMs - cueStart > options.maxDuration) {
+      flush();
+    } else if (
+      line.length > 0 &&
+      lineWidth(line) + gap(token) + token.width > options.maxCharsPerLine &&
+      !NO_LINE_START.has(token.text[0])
+    ) {
+      if (lines.length < options.maxLines) {
+        lines.push([]);
+      } else {
+        flush();
+      }
+    }
+    line = lines[lines.length - 1];
+    if (line.length === 0) token.spaceBefore = false;
+    line.push(token);
+  }
+  flush();
+  return cues;
+}
+
+/**
+ * Split text into breakable units: single CJK characters and runs of other
+ * non-space characters, timed from the word list when possible.
+ */
+function tokenize(segment: TimedSegment, maxWidth: number): Token[] {
+  const chars = Array.from(segment.text);
+  const [starts, ends] = charTimes(segment, chars);
+  const tokens: Token[] = [];
+  let spaceBefore = false;
+
+  for (let i = 0; i < chars.length; ) {
+    if (/\s/.test(chars[i])) {
+      spaceBefore = true;
+      i++;
+      continue;
+    }
+
+    let j = i + 1;
+    if (!isCjk(chars[i])) {
+      while (
+        j < chars.length &&
+        !/\s/.test(chars[j]) &&
+        !isCjk(chars[j]) &&
+        j - i < maxWidth
+      ) {
+        j++;
+      }
+    }
+    tokens.push({
+      text: chars.slice(i, j).join(""),
+      startMs: starts[i],
+      endMs: ends[j - 1],
+      width: chars.slice(i, j).reduce((w, c) => w + (isCjk(c) ? 2 : 1), 0),
+      spaceBefore,
+    });
+    spaceBefore = false;
+    i = j;
+  }
+  return tokens;
+}
+
+/** Start and end time of every character. */
+function charTimes(segment: TimedSegment, chars: string[]): [number[], number[]] {
+  const starts = new Array<number>(chars.length).fill(NaN);
+  const ends = new Array<number>(chars.length).fill(NaN);
+  let matched = false;
+
+  let cursor = 0;
+  for (const word of segment.words ?? []) {
+    const wordChars = Array.from(word.text.trim());
+    const pos = findChars(chars, wordChars, cursor);
+    if (wordChars.length === 0 || pos < 0) continue;
+    const step = (word.endMs - word.startMs) / wordChars.length;
+    for (let k = 0; k < wordChars.length; k++) {
+      starts[pos + k] = word.startMs + step * k;
+      ends[pos + k] = word.startMs + step * (k + 1);
+    }
+    cursor = pos + wordChars.length;
+    matched = true;
+  }
+
+  if (!matched) {
+    // No usable word timings: spread the segment evenly over its text.
+    const visible = chars.filter((c) => !/\s/.test(c)).length || 1;
+    const step = (segment.endMs - segment.startMs) / visible;
+    let n = 0;
+    chars.forEach((c, i) => {
+      starts[i] = segment.startMs + step * n;
+      if (!/\s/.test(c)) n++;
+      ends[i] = segment.startMs + step * n;
+    });
+  }
+
+  // Punctuation and unmatched characters take the time of their neighbours.
+  let prevEnd = NaN;
+  for (let i = 0; i < chars.length; i++) {
+    if (Number.isNaN(starts[i])) {
+      const time = Number.isNaN(prevEnd) ? nextStart(starts, i, segment.startMs) : prevEnd;
+      starts[i] = time;
+      ends[i] = time;
+    }
+    prevEnd = ends[i];
+  }
+
+  return [starts.map(Math.round), ends.map(Math.round)];
+}
+
+function nextStart(starts: number[], from: number, fallback: number): number {
+  for (let i = from; i < starts.length; i++) {
+    if (!Number.isNaN(starts[i])) return starts[i];
+  }
+  return fallback;
+}
+
+function findChars(chars: string[], word: string[], from: number): number {
+  const lower = word.map((c) => c.toLowerCase());
+  outer: for (let i = from; i + lower.length <= chars.length; i++) {
+    for (let k = 0; k < lower.length; k++) {
+      if (chars[i + k].toLowerCase() !== lower[k]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function isCjk(ch: string): boolean {
+  return CJK.test(ch);
+}
+
+function gap(token: Token): number {
+  return token.spaceBefore ? 1 : 0;
+}
+
+function lineWidth(line: Token[]): number {
+  return line.reduce((w, t, i) => w + t.width + (i > 0 ? gap(t) : 0), 0);
+}
+
+function joinLine(line: Token[]): string {
+  return line.map((t, i) => (i > 0 && t.spaceBefore ? " " : "") + t.text).join("");
+}
+
+function timestamp(ms: number, separator: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeXml(text: string): string {
+  return escapeVtt(text).replace(/"/g, "&quot;");
+}
@@ -0,0 +1,15 @@
+/**
+ * Test helpers, published as "trtc-asr/testing".
+ */
+
+export {
+  MockASRServer,
+  MockServerOptions,
+  MockServerEvents,
+  MockTranscript,
+  MockSentence,
+  MockApi,
+  MockFault,
+  MockSession,
+  MockRequest,
+} from "./mock-server";
@@ -0,0 +1,293 @@
+/**
+ * Session transcript built from real-time recognition results.
+ *
+ * Usage:
+ *   const transcript = new TranscriptAggregator().attach(recognizer);
+ *   await recognizer.start();
+ *   ...
+ *   console.log(transcript.getText());
+ *   await fs.writeFile("transcript.json", JSON.stringify(transcript));
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+import { TypedEventEmitter } from "./event-emitter";
+import {
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+  WordInfo,
+} from "./speech-recognizer";
+
+/** One version of a sentence as reported by the service. */
+export interface SentenceRevision {
+  /** 0 = sentence begin, 1 = partial result, 2 = sentence end. */
+  sliceType: number;
+  text: string;
+  startTime: number;
+  endTime: number;
+  words: WordInfo[];
+  /** Local time the revision was received (ms since epoch). */
+  receivedAt: number;
+}
+
+/** Current state of a sentence and the revisions that led to it. */
+export interface TranscriptSentence {
+  index: number;
+  text: string;
+  startTime: number;
+  endTime: number;
+  words: WordInfo[];
+  /** True once the sentence end has been received. */
+  final: boolean;
+  revisions: SentenceRevision[];
+}
+
+/** Serialized form produced by toJSON(). */
+export interface TranscriptSnapshot {
+  version: 1;
+  voiceId: string;
+  complete: boolean;
+  sentences: TranscriptSentence[];
+}
+
+/** Options for TranscriptAggregator. */
+export interface TranscriptOptions {
+  /** Keep every intermediate revision (default true). */
+  keepRevisions?: boolean;
+  /** Separator used by getText() (default "", suited to Chinese). */
+  separator?: string;
+}
+
+/** Events emitted by TranscriptAggregator. */
+export interface TranscriptEvents {
+  /** A sentence was added or revised. */
+  update: [sentence: TranscriptSentence];
+  /** A sentence became final. */
+  sentenceFinal: [sentence: TranscriptSentence];
+  /** The service reported the end of the session. */
+  complete: [];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/** Recognizer events that carry sentence results. */
+const RESULT_EVENTS = ["sentenceBegin", "resultChange", "sentenceEnd"] as const;
+
+/**
+ * Maintains the ordered sentences of a session. Results may arrive with
+ * out-of-order or repeated `index` values: sentences are kept in start time
+ * order, identical repeats are ignored, a late partial never reverts a final
+ * sentence, and an index reused after its sentence ended starts a new one.
+ */
+export class TranscriptAggregator extends TypedEventEmitter<TranscriptEvents> {
+  private readonly keepRevisions: boolean;
+  private readonly separator: string;
+  private list: TranscriptSentence[] = [];
+  private open = new Map<number, TranscriptSentence>();
+  private voiceId = "";
+  private complete = false;
+  private detachFn: (() => void) | null = null;
+
+  constructor(options: TranscriptOptions = {}) {
+    super();
+    this.keepRevisions = options.keepRevisions ?? true;
+    this.separator = options.separator ?? "";
+  }
+
+  /** Subscribe to a recognizer's results; replaces any previous one. */
+  attach(recognizer: SpeechRecognizer): this {
+    this.detach();
+    const onResult = (resp: SpeechRecognitionResponse) => this.update(resp);
+    const onComplete = (resp: SpeechRecognitionResponse) => {
+      this.voiceId = resp.voice_id || this.voiceId;
+      this.complete = true;
+      this.emit("complete");
+    };
+
+    for (const event of RESULT_EVENTS) recognizer.on(event, onResult);
+    recognizer.on("complete", onComplete);
+    this.detachFn = () => {
+      for (const event of RESULT_EVENTS) recognizer.off(event, onResult);
+      recognizer.off("complete", onComplete);
+    };
+    return this;
+  }
+
+  /** Stop receiving results from the attached recognizer. */
+  detach(): void {
+    this.detachFn?.();
+    this.detachFn = null;
+  }
+
+  /** Apply one recognition response. */
+  update(resp: SpeechRecognitionResponse): void {
+    const result = resp.result;
+    if (!result || result.slice_type === undefined) return;
+    if (resp.voice_id) this.voiceId = resp.voice_id;
+
+    const revision: SentenceRevision = {
+      sliceType: result.slice_type,
+      text: result.voice_text_str ?? "",
+      startTime: result.start_time,
+      endTime: result.end_time,
+      words: [...(result.word_list ?? [])],
+      receivedAt: Date.now(),
+    };
+
+    let sentence = this.open.get(result.index);
+    if (sentence?.final) {
+      if (revision.startTime < sentence.endTime || sameContent(sentence, revision)) {
+        // Repeat or stale partial of a finished sentence.
+        return;
+      }
+      // The index was reused for a new sentence.
+      sentence = undefined;
+    }
+
+    if (!sentence) {
+      sentence = {
+        index: result.index,
+        text: "",
+        startTime: revision.startTime,
+        endTime: revision.endTime,
+        words: [],
+        final: false,
+        revisions: [],
+      };
+      this.open.set(result.index, sentence);
+      this.insert(sentence);
+    } else if (sameContent(sentence, revision) && revision.sliceType !== 2) {
+      return;
+    }
+
+    sentence.text = revision.text;
+    sentence.startTime = revision.startTime;
+    sentence.endTime = revision.endTime;
+    sentence.words = revision.words;
+    if (this.keepRevisions) {
+      sentence.revisions.push(revision);
+    }
+    this.reorder(sentence);
+
+    this.emit("update", sentence);
+    if (revision.sliceType === 2) {
+      sentence.final = true;
+      this.emit("sentenceFinal", sentence);
+    }
+  }
+
+  /** Sentences in order of start time. */
+  get sentences(): readonly TranscriptSentence[] {
+    return this.list;
+  }
+
+  /** Whether the service reported the end of the session. */
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  /** Full transcript; partial sentences are included unless finalOnly. */
+  getText(options: { finalOnly?: boolean } = {}): string {
+    return this.list
+      .filter((s) => s.text && (!options.finalOnly || s.final))
+      .map((s) => s.text)
+      .join(this.separator);
+  }
+
+  /** Remove all sentences. */
+  clear(): void {
+    this.list = [];
+    this.open.clear();
+    this.voiceId = "";
+    this.complete = false;
+  }
+
+  /** Serializable snapshot; also used by JSON.stringify(). */
+  toJSON(): TranscriptSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      voiceId: this.voiceId,
+      complete: this.complete,
+      sentences: this.list.map(copySentence),
+    };
+  }
+
+  /** Rebuild an aggregator from toJSON() output or its JSON string. */
+  static fromJSON(
+    snapshot: TranscriptSnapshot | string,
+    options?: TranscriptOptions,
+  ): TranscriptAggregator {
+    let data: TranscriptSnapshot;
+    try {
+      data = typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+    } catch (err) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `parse transcript failed: ${err}`,
+      );
+    }
+    if (!data || data.version !== SNAPSHOT_VERSION || !Array.isArray(data.sentences)) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        `unsupported transcript snapshot version: ${data?.version}`,
+      );
+    }
+
+    const aggregator = new TranscriptAggregator(options);
+    aggregator.voiceId = data.voiceId ?? "";
+    aggregator.complete = !!data.complete;
+    for (const s of data.sentences) {
+      const sentence = copySentence(s);
+      aggregator.insert(sentence);
+      // Later results for the same index continue the latest sentence.
+      const current = aggregator.open.get(sentence.index);
+      if (!current || current.startTime <= sentence.startTime) {
+        aggregator.open.set(sentence.index, sentence);
+      }
+    }
+    return aggregator;
+  }
+
+  private insert(sentence: TranscriptSentence): void {
+    let i = this.list.length;
+    while (i > 0 && compare(this.list[i - 1], sentence) > 0) i--;
+    this.list.splice(i, 0, sentence);
+  }
+
+  /** Restore the order after a sentence's start time changed. */
+  private reorder(sentence: TranscriptSentence): void {
+    const i = this.list.indexOf(sentence);
+    const prev = this.list[i - 1];
+    const next = this.list[i + 1];
+    if ((prev && compare(prev, sentence) > 0) || (next && compare(sentence, next) > 0)) {
+      this.list.splice(i, 1);
+      this.insert(sentence);
+    }
+  }
+}
+
+function compare(a: TranscriptSentence, b: TranscriptSentence): number {
+  return a.startTime - b.startTime || a.index - b.index;
+}
+
+function sameContent(sentence: TranscriptSentence, revision: SentenceRevision): boolean {
+  return (
+    sentence.text === revision.text &&
+    sentence.startTime === revision.startTime &&
+    sentence.endTime === revision.endTime
+  );
+}
+
+function copySentence(s: TranscriptSentence): TranscriptSentence {
+  return {
+    index: s.index,
+    text: s.text,
+    startTime: s.startTime,
+    endTime: s.endTime,
+    words: (s.words ?? []).map((w) => ({ ...w })),
+    final: !!s.final,
+    revisions: (s.revisions ?? []).map((r) => ({
+      ...r,
+      words: (r.words ?? []).map((w) => ({ ...w })),
+    })),
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Client-side voice activity detection for 16-bit mono PCM.
+ *
+ * A frame counts as speech when its energy reaches `energyThreshold`, or
+ * when it is at most ZCR_MARGIN_DB quieter and has a high zero-crossing
+ * rate (unvoiced consonants such as "s" and "f").
+ */
+
+/** Options for SpeechRecognizer.setLocalVad(). */
+export interface LocalVadOptions {
+  /** Frame energy in dBFS at or above which a frame is speech (default -40). */
+  energyThreshold?: number;
+  /** Zero-crossing rate marking quieter frames as speech (default 0.25). */
+  zcrThreshold?: number;
+  /** Analysis frame length in ms (default 20). */
+  frameMs?: number;
+  /** Consecutive speech needed to open the gate in ms (default 60). */
+  minSpeechMs?: number;
+  /**
+   * Silence still sent after speech in ms. Defaults to the recognizer's
+   * vadSilenceTime (or 1000ms when unset) so the service's own VAD sees
+   * enough silence to end the sentence.
+   */
+  hangoverMs?: number;
+  /** Audio sent before the detected speech start in ms (default 300). */
+  preRollMs?: number;
+}
+
+/** Gated audio with its position on the original timeline. */
+export interface VadChunk {
+  data: Buffer;
+  offsetMs: number;
+}
+
+/** Speech boundary on the original timeline. */
+export interface VadEvent {
+  type: "speechStart" | "speechEnd";
+  offsetMs: number;
+}
+
+/** Output of EnergyVad.process() and flush(). */
+export interface VadOutput {
+  chunks: VadChunk[];
+  events: VadEvent[];
+}
+
+interface Frame {
+  data: Buffer;
+  offsetMs: number;
+}
+
+const ZCR_MARGIN_DB = 10;
+const SAMPLE_BYTES = 2;
+
+/**
+ * The first invalid field of `options` at `sampleRate` and what it must
+ * be, or null when all are valid.
+ */
+export function vadOptionError(
+  options: LocalVadOptions,
+  sampleRate: number,
+): { field: keyof LocalVadOptions; message: string } | null {
+  const rules: [keyof LocalVadOptions, (n: number) => boolean, string][] = [
+    ["energyThreshold", (n) => Number.isFinite(n), "a finite number of dBFS"],
+    ["zcrThreshold", (n) => n >= 0 && Number.isFinite(n), "a non-negative number"],
+    ["frameMs", (n) => n > 0 && Number.isFinite(n), "a positive number of ms"],
+    ["minSpeechMs", (n) => n >= 0 && Number.isFinite(n), "a non-negative number of ms"],
+    ["hangoverMs", (n) => n >= 0 && Number.isFinite(n), "a non-negative number of ms"],
+    ["preRollMs", (n) => n >= 0 && Number.isFinite(n), "a non-negative number of ms"],
+  ];
+  for (const [field, valid, rule] of rules) {
+    const value = options[field];
+    if (value !== undefined && !(typeof value === "number" && valid(value))) {
+      return { field, message: `must be ${rule}, got ${value}` };
+    }
+  }
+  const frameMs = options.frameMs ?? 20;
+  if (Math.floor((sampleRate * frameMs) / 1000) < 1) {
+    return {
+      field: "frameMs",
+      message: `must hold at least one sample at ${sampleRate}Hz, got ${frameMs}`,
+    };
+  }
+  return null;
+}
+
+/** Energy and zero-crossing based gate with hangover and pre-roll. */
+export class EnergyVad {
+  private readonly energyThreshold: number;
+  private readonly zcrThreshold: number;
+  private readonly frameMs: number;
+  private readonly frameBytes: number;
+  private readonly minSpeechFrames: number;
+  private readonly hangoverFrames: number;
+  private readonly preRollFrames: number;
+
+  private pending: Buffer = Buffer.alloc(0);
+  private processedBytes = 0;
+  private preRoll: Frame[] = [];
+  private candidate: Frame[] = [];
+  private speaking = false;
+  private hangoverLeft = 0;
+  private lastSpeechEndMs = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    options: LocalVadOptions = {},
+  ) {
+    const error = vadOptionError(options, sampleRate);
+    if (error) {
+      throw new RangeError(`invalid ${error.field}: ${error.message}`);
+    }
+    this.energyThreshold = options.energyThreshold ?? -40;
+    this.zcrThreshold = options.zcrThreshold ?? 0.25;
+    this.frameMs = options.frameMs ?? 20;
+    this.frameBytes =
+      Math.floor((sampleRate * this.frameMs) / 1000) * SAMPLE_BYTES;
+
+    const frames = (ms: number) => Math.ceil(ms / this.frameMs);
+    this.minSpeechFrames = Math.max(frames(options.minSpeechMs ?? 60), 1);
+    this.hangoverFrames = frames(options.hangoverMs ?? 1000);
+    this.preRollFrames = frames(options.preRollMs ?? 300);
+  }
+
+  /** Whether the gate is currently open. */
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /** Feed PCM audio; returns the audio to send and speech boundaries. */
+  process(pcm: Buffer): VadOutput {
+    const out: VadOutput = { chunks: [], events: [] };
+    let data = this.pending.length > 0 ? Buffer.concat([this.pending, pcm]) : pcm;
+
+    while (data.length >= this.frameBytes) {
+      const frame: Frame = {
+        data: data.subarray(0, this.frameBytes),
+        offsetMs: this.bytesToMs(this.processedBytes),
+      };
+      data = data.subarray(this.frameBytes);
+      this.processedBytes += this.frameBytes;
+      this.processFrame(frame, out);
+    }
+
+    this.pending = Buffer.from(data);
+    return out;
+  }
+
+  /** Emit buffered speech at the end of input. */
+  flush(): VadOutput {
+    const out: VadOutput = { chunks: [], events: [] };
+    if (this.speaking) {
+      if (this.pending.length > 0) {
+        this.emitFrames(
+          [{ data: this.pending, offsetMs: this.bytesToMs(this.processedBytes) }],
+          out,
+        );
+        this.lastSpeechEndMs = this.bytesToMs(
+          this.processedBytes + this.pending.length,
+        );
+      }
+      this.speaking = false;
+      out.events.push({ type: "speechEnd", offsetMs: this.lastSpeechEndMs });
+    }
+    this.processedBytes += this.pending.length;
+    this.pending = Buffer.alloc(0);
+    this.preRoll = [];
+    this.candidate = [];
+    return out;
+  }
+
+  private processFrame(frame: Frame, out: VadOutput): void {
+    const speech = this.isSpeech(frame.data);
+
+    if (!this.speaking) {
+      if (speech) {
+        this.candidate.push(frame);
+        if (this.candidate.length >= this.minSpeechFrames) {
+          this.speaking = true;
+          this.hangoverLeft = this.hangoverFrames;
+          out.events.push({
+            type: "speechStart",
+            offsetMs: this.candidate[0].offsetMs,
+          });
+          this.emitFrames([...this.preRoll, ...this.candidate], out);
+          this.lastSpeechEndMs = frame.offsetMs + this.frameMs;
+          this.preRoll = [];
+          this.candidate = [];
+        }
+        return;
+      }
+
+      this.preRoll.push(...this.candidate, frame);
+      this.candidate = [];
+      if (this.preRoll.length > this.preRollFrames) {
+        this.preRoll.splice(0, this.preRoll.length - this.preRollFrames);
+      }
+      return;
+    }
+
+    if (speech) {
+      this.hangoverLeft = this.hangoverFrames;
+      this.lastSpeechEndMs = frame.offsetMs + this.frameMs;
+      this.emitFrames([frame], out);
+    } else if (this.hangoverLeft > 0) {
+      this.hangoverLeft--;
+      this.emitFrames([frame], out);
+    } else {
+      this.speaking = false;
+      out.events.push({ type: "speechEnd", offsetMs: this.lastSpeechEndMs });
+      this.preRoll = this.preRollFrames > 0 ? [frame] : [];
+    }
+  }
+
+  /** Append frames to the output, merging contiguous ones. */
+  private emitFrames(frames: Frame[], out: VadOutput): void {
+    for (const frame of frames) {
+      const last = out.chunks[out.chunks.length - 1];
+      const lastEnd = last
+        ? last.offsetMs + this.bytesToMs(last.data.length)
+        : -1;
+      if (last && Math.abs(lastEnd - frame.offsetMs) < 1e-6) {
+        last.data = Buffer.concat([last.data, frame.data]);
+      } else {
+        out.chunks.push({ data: frame.data, offsetMs: frame.offsetMs });
+      }
+    }
+  }
+
+  private isSpeech(frame: Buffer): boolean {
+    const samples = frame.length / SAMPLE_BYTES;
+    let energy = 0;
+    let crossings = 0;
+    let prev = 0;
+    for (let i = 0; i < samples; i++) {
+      const s = frame.readInt16LE(i * SAMPLE_BYTES);
+      energy += s * s;
+      if (i > 0 && (s >= 0) !== (prev >= 0)) crossings++;
+      prev = s;
+    }
+
+    const rms = Math.sqrt(energy / samples) / 32768;
+    const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+    if (db >= this.energyThreshold) return true;
+
+    const zcr = samples > 1 ? crossings / (samples - 1) : 0;
+    return db >= this.energyThreshold - ZCR_MARGIN_DB && zcr >= this.zcrThreshold;
+  }
+
+  private bytesToMs(bytes: number): number {
+    return (bytes / SAMPLE_BYTES / this.sampleRate) * 1000;
+  }
+}
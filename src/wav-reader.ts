@@ -0,0 +1,229 @@
+/**
+ * Incremental RIFF/WAVE parser that separates the header from the audio.
+ */
+
+import { ASRError, ErrorCode } from "./errors";
+import { PcmInputFormat, SampleFormat } from "./pcm-converter";
+
+/** WAVE format codes. */
+export const WavEncoding = {
+  PCM: 0x0001,
+  IEEE_FLOAT: 0x0003,
+  EXTENSIBLE: 0xfffe,
+} as const;
+
+/** Audio format described by the "fmt " chunk. */
+export interface WavFormat {
+  /** Format code, resolved from the sub-format for WAVE_FORMAT_EXTENSIBLE. */
+  encoding: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  /** Size of the data chunk in bytes, or null when unknown (streaming). */
+  dataSize: number | null;
+}
+
+type Stage = "riff" | "chunk" | "fmt" | "skip" | "data" | "done";
+
+/** Data sizes written by recorders that do not know the final length. */
+const UNKNOWN_SIZES = new Set([0, 0xffffffff]);
+
+/** Largest "fmt " chunk accepted; WAVE_FORMAT_EXTENSIBLE needs 40 bytes. */
+const MAX_FMT_SIZE = 64;
+
+/**
+ * Parses a WAV byte stream chunk by chunk. push() returns the audio payload
+ * contained in each input chunk; `format` is available once the "fmt "
+ * chunk has been read. "LIST", "fact" and other chunks are skipped, and
+ * anything after the data chunk is discarded.
+ */
+export class WavReader {
+  private stage: Stage = "riff";
+  private buf: Buffer = Buffer.alloc(0);
+  private chunkSize = 0;
+  private skipRemaining = 0;
+  private dataRemaining: number | null = null;
+  private dataPad = 0;
+  private wavFormat: WavFormat | null = null;
+
+  /** Parsed format, or null before the "fmt " chunk. */
+  get format(): WavFormat | null {
+    return this.wavFormat;
+  }
+
+  /** Whether the header is complete and audio is being returned. */
+  get inData(): boolean {
+    return this.stage === "data" || this.stage === "done";
+  }
+
+  /** Feed bytes; returns the audio payload found in them. */
+  push(chunk: Buffer): Buffer {
+    this.buf = this.buf.length > 0 ? Buffer.concat([this.buf, chunk]) : chunk;
+    const payload: Buffer[] = [];
+
+    for (;;) {
+      switch (this.stage) {
+        case "riff":
+          if (this.buf.length < 12) return Buffer.concat(payload);
+          if (
+            this.buf.toString("latin1", 0, 4) !== "RIFF" ||
+            this.buf.toString("latin1", 8, 12) !== "WAVE"
+          ) {
+            throw new ASRError(ErrorCode.INVALID_PARAM, "not a riff/wave file");
+          }
+          this.consume(12);
+          this.stage = "chunk";
+          break;
+
+        case "chunk": {
+          if (this.buf.length < 8) return Buffer.concat(payload);
+          const id = this.buf.toString("latin1", 0, 4);
+          const size = this.buf.readUInt32LE(4);
+          this.consume(8);
+          if (id === "fmt ") {
+            if (size > MAX_FMT_SIZE) {
+              throw new ASRError(
+                ErrorCode.INVALID_PARAM,
+                `wav fmt chunk too large: ${size} bytes`,
+              );
+            }
+            this.chunkSize = size;
+            this.stage = "fmt";
+          } else if (id === "data") {
+            if (!this.wavFormat) {
+              throw new ASRError(
+                ErrorCode.INVALID_PARAM,
+                "wav data chunk before fmt chunk",
+              );
+            }
+            const known = !UNKNOWN_SIZES.has(size);
+            this.dataRemaining = known ? size : null;
+            this.dataPad = known ? size & 1 : 0;
+            this.wavFormat.dataSize = known ? size : null;
+            this.stage = "data";
+          } else {
+            this.skipRemaining = size + (size & 1);
+            this.stage = "skip";
+          }
+          break;
+        }
+
+        case "fmt":
+          if (this.buf.length < this.chunkSize) return Buffer.concat(payload);
+          this.wavFormat = parseFmt(this.buf.subarray(0, this.chunkSize));
+          this.consume(this.chunkSize);
+          this.skipRemaining = this.chunkSize & 1;
+          this.stage = "skip";
+          break;
+
+        case "skip": {
+          const n = Math.min(this.skipRemaining, this.buf.length);
+          this.consume(n);
+          this.skipRemaining -= n;
+          if (this.skipRemaining > 0) return Buffer.concat(payload);
+          this.stage = "chunk";
+          break;
+        }
+
+        case "data": {
+          const n =
+            this.dataRemaining === null
+              ? this.buf.length
+              : Math.min(this.dataRemaining, this.buf.length);
+          if (n > 0) {
+            payload.push(this.buf.subarray(0, n));
+            this.consume(n);
+          }
+          if (this.dataRemaining === null) return Buffer.concat(payload);
+          this.dataRemaining -= n;
+          if (this.dataRemaining > 0) return Buffer.concat(payload);
+          this.stage = "done";
+          break;
+        }
+
+        case "done":
+          // Pad byte and trailing chunks (e.g. a LIST chunk) are not audio.
+          this.buf = Buffer.alloc(0);
+          return Buffer.concat(payload);
+      }
+    }
+  }
+
+  /** Signal the end of input; throws if no audio data was found. */
+  end(): void {
+    if (!this.inData) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        "wav header incomplete: no data chunk",
+      );
+    }
+  }
+
+  private consume(n: number): void {
+    this.buf = this.buf.subarray(n);
+  }
+}
+
+function parseFmt(chunk: Buffer): WavFormat {
+  if (chunk.length < 16) {
+    throw new ASRError(ErrorCode.INVALID_PARAM, "wav fmt chunk too short");
+  }
+
+  let encoding = chunk.readUInt16LE(0);
+  const format: WavFormat = {
+    encoding,
+    channels: chunk.readUInt16LE(2),
+    sampleRate: chunk.readUInt32LE(4),
+    byteRate: chunk.readUInt32LE(8),
+    blockAlign: chunk.readUInt16LE(12),
+    bitsPerSample: chunk.readUInt16LE(14),
+    dataSize: null,
+  };
+
+  if (encoding === WavEncoding.EXTENSIBLE) {
+    if (chunk.length < 40) {
+      throw new ASRError(
+        ErrorCode.INVALID_PARAM,
+        "wav extensible fmt chunk too short",
+      );
+    }
+    // The sub-format GUID starts with the actual format code.
+    encoding = chunk.readUInt16LE(24);
+    format.encoding = encoding;
+  }
+
+  if (format.channels === 0 || format.sampleRate === 0 || format.blockAlign === 0) {
+    throw new ASRError(ErrorCode.INVALID_PARAM, "invalid wav fmt chunk");
+  }
+  return format;
+}
+
+/** PCM input format for the converter; throws for unsupported encodings. */
+export function wavInputFormat(format: WavFormat): PcmInputFormat {
+  let sampleFormat: SampleFormat | undefined;
+  const bytesPerSample = format.blockAlign / format.channels;
+
+  if (format.encoding === WavEncoding.PCM) {
+    // Samples are stored in whole bytes; 20-bit audio uses 3-byte containers.
+    sampleFormat = ({ 1: "uint8", 2: "int16", 3: "int24", 4: "int32" } as const)[
+      bytesPerSample
+    ];
+  } else if (format.encoding === WavEncoding.IEEE_FLOAT && bytesPerSample === 4) {
+    sampleFormat = "float32";
+  }
+
+  if (!sampleFormat) {
+    throw new ASRError(
+      ErrorCode.INVALID_PARAM,
+      `unsupported wav encoding: format ${format.encoding}, ` +
+        `${format.bitsPerSample} bits`,
+    );
+  }
+  return {
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    sampleFormat,
+  };
+}
@@ -0,0 +1,166 @@
+import { AddressInfo, Server, Socket, createServer } from "net";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { FileRecognizer } from "../src/file-recognizer";
+import { RecognizerPool } from "../src/recognizer-pool";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+// 200ms of 16kHz 16-bit PCM.
+const CHUNK = Buffer.alloc(6400);
+
+const cancelled = expect.objectContaining({ code: ErrorCode.CANCELLED });
+
+/** A signal aborted after `ms`. */
+function abortAfter(ms: number, reason?: unknown): AbortSignal {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(reason), ms);
+  return controller.signal;
+}
+
+/** Expect `promise` to reject with CANCELLED within `withinMs`. */
+async function expectCancelled(promise: Promise<unknown>, withinMs = 1000) {
+  const started = Date.now();
+  await expect(promise).rejects.toEqual(cancelled);
+  expect(Date.now() - started).toBeLessThan(withinMs);
+}
+
+describe("cancellation", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。"], pollsUntilDone: 100 });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("start() closes a connection that has not opened", async () => {
+    // Accepts TCP connections but never answers the WebSocket handshake.
+    const sockets: Socket[] = [];
+    const silent: Server = createServer((socket) => sockets.push(socket));
+    await new Promise<void>((resolve) => silent.listen(0, "127.0.0.1", resolve));
+    const { port } = silent.address() as AddressInfo;
+
+    try {
+      const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+      recognizer.setEndpoint(`ws://127.0.0.1:${port}`);
+      const failures: unknown[] = [];
+      recognizer.on("fail", (_r, err) => failures.push(err));
+
+      const started = recognizer.start({ signal: abortAfter(50, "client gone") });
+      await expect(started).rejects.toMatchObject({
+        code: ErrorCode.CANCELLED,
+        message: expect.stringContaining("client gone"),
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(failures).toEqual([]);
+
+      // The recognizer can start again.
+      recognizer.setEndpoint(server.wsEndpoint);
+      await recognizer.start();
+      await recognizer.stop();
+    } finally {
+      for (const socket of sockets) socket.destroy();
+      await new Promise((resolve) => silent.close(resolve));
+    }
+  });
+
+  test("stop() gives up waiting for final results", async () => {
+    server.injectFault("realtime", { type: "latency", ms: 5000 });
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+
+    await expectCancelled(recognizer.stop({ signal: abortAfter(50) }));
+    await expect(recognizer.write(CHUNK)).rejects.toMatchObject({
+      code: ErrorCode.NOT_STARTED,
+    });
+  });
+
+  test("streaming stops sending but keeps the session", async () => {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+    await recognizer.start();
+
+    const controller = new AbortController();
+    const streaming = recognizer.streamBuffer(Buffer.alloc(CHUNK.length * 20), {
+      signal: controller.signal,
+      onProgress: (p) => p.bytesSent >= 2 * CHUNK.length && controller.abort(),
+    });
+    await expectCancelled(streaming);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(server.sessions[0].audioBytes).toBe(2 * CHUNK.length);
+
+    await recognizer.write(CHUNK);
+    await recognizer.stop();
+  });
+
+  test("sentence recognition aborts the request", async () => {
+    const recognizer = new SentenceRecognizer(credential());
+    recognizer.setEndpoint(server.httpEndpoint);
+
+    server.injectFault("sentence", { type: "latency", ms: 5000 });
+    await expectCancelled(
+      recognizer.recognizeData(Buffer.alloc(320), "pcm", "16k_zh", {
+        signal: abortAfter(50),
+      }),
+    );
+
+    // Nothing is sent once the signal has aborted.
+    const requests = server.requests.length;
+    await expect(
+      recognizer.recognizeURL("https://example.com/a.wav", "wav", "16k_zh", {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toEqual(cancelled);
+    expect(server.requests).toHaveLength(requests);
+  });
+
+  test("waiting for a file task stops between polls", async () => {
+    const recognizer = new FileRecognizer(credential());
+    recognizer.setEndpoint(server.httpEndpoint);
+    const taskId = await recognizer.createTaskFromURL("https://example.com/a.wav", "16k_zh");
+
+    await expectCancelled(
+      recognizer.waitForResultWithInterval(taskId, 60000, 600000, {
+        signal: abortAfter(50),
+      }),
+    );
+    expect(server.requests.filter((r) => r.api === "describeTask")).toHaveLength(1);
+  });
+
+  test("pool tasks leave the queue when aborted", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 1 });
+    let release!: () => void;
+    const running = pool.run(() => new Promise<void>((resolve) => (release = resolve)));
+
+    const controller = new AbortController();
+    const queued = pool.run(async () => "ran", { signal: controller.signal });
+    expect(pool.getStats().queued).toBe(1);
+    controller.abort();
+    await expect(queued).rejects.toEqual(cancelled);
+    expect(pool.getStats()).toMatchObject({ queued: 0, rejected: 1 });
+
+    release();
+    await running;
+    // A running task sees its signal abort through lease.signal.
+    const task = new AbortController();
+    const reason = pool.run(
+      (lease) =>
+        new Promise((resolve) =>
+          lease.signal.addEventListener("abort", () => resolve(lease.signal.reason)),
+        ),
+      { signal: task.signal },
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+    task.abort("client gone");
+    await expect(reason).resolves.toBe("client gone");
+  });
+});
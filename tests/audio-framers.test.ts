@@ -0,0 +1,225 @@
+import WebSocket from "ws";
+import { Mp3Framer, OggFramer, SpeexFramer, encodedFrames } from "../src/audio-framers";
+import { AudioFrame } from "../src/audio-pacer";
+import { VoiceFormat } from "../src/audio-format";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+/** An MPEG-2 Layer III frame: 32 kbps at 16kHz, 144 bytes and 36ms. */
+function mp3Frame(fill = 0): Buffer {
+  const frame = Buffer.alloc(144, fill);
+  frame.set([0xff, 0xf3, 0x48, 0xc4]);
+  return frame;
+}
+
+/** An ID3v2 tag with a 20-byte body. */
+const ID3_TAG = Buffer.concat([
+  Buffer.from("ID3\x03\x00\x00\x00\x00\x00\x14", "latin1"),
+  Buffer.alloc(20),
+]);
+
+/** An Ogg page holding `body` as one packet. */
+function oggPage(granule: number, body: Buffer, beginOfStream = false): Buffer {
+  const header = Buffer.alloc(27);
+  header.write("OggS", 0, "latin1");
+  header[5] = beginOfStream ? 0x02 : 0;
+  header.writeBigInt64LE(BigInt(granule), 6);
+  const segments: number[] = [];
+  for (let left = body.length; ; left -= 255) {
+    segments.push(Math.min(left, 255));
+    if (left < 255) break;
+  }
+  header[26] = segments.length;
+  return Buffer.concat([header, Buffer.from(segments), body]);
+}
+
+/** Push `data` in chunks of `size` bytes. */
+function pushAll(framer: { push(chunk: Buffer): AudioFrame[] }, data: Buffer, size: number) {
+  const frames: AudioFrame[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    frames.push(...framer.push(data.subarray(offset, offset + size)));
+  }
+  return frames;
+}
+
+describe("audio framers", () => {
+  test("Mp3Framer skips ID3 tags and junk between frames", () => {
+    const framer = new Mp3Framer();
+    const padded = mp3Frame(1);
+    padded[2] |= 0x02; // padding bit: one more byte
+    const input = Buffer.concat([
+      ID3_TAG,
+      mp3Frame(),
+      Buffer.from("junk"),
+      Buffer.concat([padded, Buffer.alloc(1, 1)]),
+      mp3Frame(),
+      mp3Frame().subarray(0, 50),
+    ]);
+
+    const frames = pushAll(framer, input, 37);
+    expect(framer.voiceFormat).toBe(VoiceFormat.MP3);
+    expect(frames.map((f) => f.data.length)).toEqual([144, 145, 144]);
+    expect(frames.map((f) => f.durationMs)).toEqual([36, 36, 36]);
+    expect(frames[1].data[144]).toBe(1);
+
+    // The truncated frame is dropped by reset().
+    framer.reset();
+    expect(framer.push(mp3Frame())).toHaveLength(1);
+  });
+
+  test("OggFramer emits pages timed by granule position", () => {
+    const opus = new OggFramer("opus");
+    const stream = Buffer.concat([
+      oggPage(0, Buffer.from("OpusHead-------"), true),
+      oggPage(0, Buffer.from("OpusTags")),
+      oggPage(9600, Buffer.alloc(300)),
+      oggPage(-1, Buffer.alloc(255)),
+      oggPage(19200, Buffer.alloc(40)),
+    ]);
+    const pages = pushAll(opus, stream, 50);
+    expect(opus.voiceFormat).toBe(VoiceFormat.OPUS);
+    expect(pages.map((p) => p.durationMs)).toEqual([0, 0, 200, 0, 200]);
+    expect(Buffer.concat(pages.map((p) => p.data))).toEqual(stream);
+    expect(() => opus.push(Buffer.alloc(30))).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+    // The corrupt bytes are dropped; a split capture pattern is kept.
+    const next = oggPage(28800, Buffer.alloc(10));
+    expect(() => opus.push(Buffer.concat([Buffer.alloc(30, 1), next.subarray(0, 2)]))).toThrow(
+      "invalid ogg page",
+    );
+    expect(opus.push(next.subarray(2)).map((p) => p.durationMs)).toEqual([200]);
+
+    // Ogg-Speex takes the granule rate from its header.
+    const speexHeader = Buffer.alloc(80);
+    speexHeader.write("Speex   ", 0, "latin1");
+    speexHeader.writeUInt32LE(8000, 36);
+    const speex = new OggFramer("speex");
+    const frames = speex.push(
+      Buffer.concat([oggPage(0, speexHeader, true), oggPage(1600, Buffer.alloc(200))]),
+    );
+    expect(speex.voiceFormat).toBe(VoiceFormat.SPEEX);
+    expect(frames.map((f) => f.durationMs)).toEqual([0, 200]);
+  });
+
+  test("SpeexFramer cuts fixed-size frames and encodedFrames groups them", async () => {
+    expect(() => new SpeexFramer({ frameBytes: 0 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+    const framer = new SpeexFramer({ frameBytes: 38 });
+    expect(pushAll(framer, Buffer.alloc(38 * 3 + 10), 25).map((f) => f.durationMs)).toEqual([
+      20, 20, 20,
+    ]);
+
+    framer.reset();
+    const chunks: AudioFrame[] = [];
+    for await (const chunk of encodedFrames([Buffer.alloc(38 * 25)], framer, 200)) {
+      chunks.push(chunk);
+    }
+    expect(chunks.map((c) => [c.data.length, c.durationMs])).toEqual([
+      [380, 200],
+      [380, 200],
+      [190, 100],
+    ]);
+  });
+});
+
+describe("SpeechRecognizer with a framer", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  /** A recognizer that records the binary messages it sends. */
+  function createRecognizer(sent: Buffer[]) {
+    const credential = new Credential(1300000000, 1400000000, "test-secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh", { framer: new Mp3Framer() });
+    recognizer.setEndpoint(server.wsEndpoint);
+    recognizer.setTransport((url, options) => {
+      const ws = new WebSocket(url, options);
+      const send = ws.send.bind(ws);
+      (ws as any).send = (data: Buffer | string, cb?: (err?: Error) => void) => {
+        if (Buffer.isBuffer(data)) sent.push(Buffer.from(data));
+        send(data, cb);
+      };
+      return ws;
+    });
+    return recognizer;
+  }
+
+  test("write() sends whole frames with the framer's voice format", async () => {
+    const sent: Buffer[] = [];
+    const recognizer = createRecognizer(sent);
+    const audio = Buffer.concat([ID3_TAG, ...Array.from({ length: 5 }, () => mp3Frame())]);
+
+    await recognizer.start();
+    for (let offset = 0; offset < audio.length; offset += 100) {
+      await recognizer.write(audio.subarray(offset, offset + 100));
+    }
+    await recognizer.stop();
+
+    expect(server.sessions[0].query.voice_format).toBe(String(VoiceFormat.MP3));
+    expect(server.sessions[0].audioBytes).toBe(5 * 144);
+    for (const message of sent) {
+      expect(message.length % 144).toBe(0);
+      expect(message[0]).toBe(0xff);
+    }
+  });
+
+  test("streamBuffer() paces by encoded duration", async () => {
+    const sent: Buffer[] = [];
+    const recognizer = createRecognizer(sent);
+    // 40 frames of 36ms.
+    const audio = Buffer.concat(Array.from({ length: 40 }, () => mp3Frame()));
+    let secondsSent = 0;
+
+    await recognizer.start();
+    const startedAt = Date.now();
+    await recognizer.streamBuffer(audio, {
+      speed: 4,
+      onProgress: (p) => (secondsSent = p.secondsSent),
+    });
+
+    // Chunks of six frames (216ms); the last is sent after 1296ms of audio.
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300);
+    expect(sent.map((m) => m.length)).toEqual([...Array(6).fill(864), 576]);
+    expect(secondsSent).toBeCloseTo(1.44);
+    expect(server.sessions[0].audioBytes).toBe(audio.length);
+  });
+
+  test("write() rejects a corrupt page and the session continues", async () => {
+    const sent: Buffer[] = [];
+    const recognizer = createRecognizer(sent);
+    recognizer.setFramer(new OggFramer("opus"));
+    await recognizer.start();
+
+    let pending: Promise<void> | undefined;
+    expect(() => (pending = recognizer.write(Buffer.alloc(64, 1)))).not.toThrow();
+    await expect(pending).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAM,
+      message: expect.stringContaining("invalid ogg page"),
+    });
+
+    const page = oggPage(9600, Buffer.alloc(100));
+    await recognizer.write(page);
+    await recognizer.stop();
+    expect(sent).toEqual([page]);
+  });
+
+  test("a framer must match the voice format", () => {
+    const credential = new Credential(1300000000, 1400000000, "test-secret");
+    const create = () =>
+      new SpeechRecognizer(credential, "16k_zh", { framer: new Mp3Framer(), voiceFormat: "pcm" });
+    expect(create).toThrow(
+      expect.objectContaining({ message: expect.stringContaining("invalid framer") }),
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { paceFrames, sliceFrames, StreamProgress } from "../src/audio-pacer";
+import { VoiceFormat } from "../src/audio-format";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+function createRecognizer(engine = "16k_zh") {
+  const credential = new Credential(1300000000, 1400000000, "secret");
+  const recognizer = new SpeechRecognizer(credential, engine) as any;
+  const sent: Buffer[] = [];
+  recognizer.write = jest.fn(async (data: Buffer) => {
+    sent.push(data);
+  });
+  recognizer.stop = jest.fn(async () => undefined);
+  return { recognizer, sent };
+}
+
+describe("paceFrames", () => {
+  test("schedules frames against the start time", async () => {
+    const frames = sliceFrames(Buffer.alloc(6400 * 5), 6400, 200, 32);
+    const started = Date.now();
+
+    const progress = await paceFrames(frames, async () => undefined, {
+      speed: 10,
+    });
+
+    // Four 20ms waits; the first frame is sent immediately.
+    const elapsed = Date.now() - started;
+    expect(elapsed).toBeGreaterThanOrEqual(75);
+    expect(elapsed).toBeLessThan(1000);
+    expect(progress).toMatchObject({ bytesSent: 32000, secondsSent: 1 });
+  });
+
+  test("slow writes are not followed by an extra full sleep", async () => {
+    const frames = sliceFrames(Buffer.alloc(6400 * 3), 6400, 200, 32);
+    const started = Date.now();
+
+    await paceFrames(
+      frames,
+      () => new Promise((resolve) => setTimeout(resolve, 50)),
+      { speed: 4 },
+    );
+
+    // Frames are due at 0, 50 and 100ms; each write takes 50ms.
+    expect(Date.now() - started).toBeLessThan(250);
+  });
+
+  test("rejects invalid speeds", async () => {
+    await expect(
+      paceFrames([], async () => undefined, { speed: 0 }),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAM });
+  });
+});
+
+describe("SpeechRecognizer paced streaming", () => {
+  test("16k engines use 6400-byte frames and stop at the end", async () => {
+    const { recognizer, sent } = createRecognizer("16k_zh");
+    const progress: StreamProgress[] = [];
+
+    await recognizer.streamBuffer(Buffer.alloc(16000), {
+      speed: "max",
+      onProgress: (p: StreamProgress) => progress.push(p),
+    });
+
+    expect(sent.map((b) => b.length)).toEqual([6400, 6400, 3200]);
+    expect(progress[2]).toEqual({
+      bytesSent: 16000,
+      secondsSent: 0.5,
+      totalBytes: 16000,
+    });
+    expect(recognizer.stop).toHaveBeenCalledTimes(1);
+  });
+
+  test("8k engines use 3200-byte frames", async () => {
+    const { recognizer, sent } = createRecognizer("8k_zh");
+
+    await recognizer.streamBuffer(Buffer.alloc(6400), {
+      speed: "max",
+      autoStop: false,
+    });
+
+    expect(sent.map((b) => b.length)).toEqual([3200, 3200]);
+    expect(recognizer.stop).not.toHaveBeenCalled();
+  });
+
+  test("non-PCM formats require frameBytes", async () => {
+    const { recognizer } = createRecognizer();
+    recognizer.setVoiceFormat(VoiceFormat.MP3);
+
+    await expect(
+      recognizer.streamBuffer(Buffer.alloc(100)),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAM });
+  });
+
+  test("streamFile reads the file incrementally", async () => {
+    const { recognizer, sent } = createRecognizer();
+    const file = path.join(os.tmpdir(), `trtc-asr-pacer-${process.pid}.pcm`);
+    fs.writeFileSync(file, Buffer.alloc(7000, 1));
+
+    try {
+      await recognizer.streamFile(file, { speed: "max", frameMs: 100 });
+    } finally {
+      fs.unlinkSync(file);
+    }
+
+    expect(sent.map((b) => b.length)).toEqual([3200, 3200, 600]);
+    expect(recognizer.stop).toHaveBeenCalledTimes(1);
+  });
+
+  test("streamFile with a missing file throws INVALID_PARAM", async () => {
+    const { recognizer } = createRecognizer();
+
+    await expect(
+      recognizer.streamFile("/nonexistent/audio.pcm"),
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAM });
+  });
+});
@@ -0,0 +1,236 @@
+import fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Credential } from "../src/credential";
+import {
+  ChannelSentence,
+  DualChannelTranscriber,
+  mergeChannels,
+  recognizeStereo,
+} from "../src/dual-channel";
+import { ErrorCode } from "../src/errors";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { RecognizerState } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+/** `ms` of 16-bit stereo silence at 8kHz. */
+const stereo = (ms: number) => Buffer.alloc(ms * 32);
+
+/** A 16-bit WAV file holding `data`. */
+function wav(data: Buffer, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVEfmt ", 8, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+const summary = (sentences: ChannelSentence[]) =>
+  sentences.map((s) => `${s.speaker}:${s.text}:${s.overlap ? "overlap" : "clear"}`);
+
+describe("mergeChannels", () => {
+  test("orders by start time and detects cross-talk", () => {
+    const merged = mergeChannels(
+      [
+        [
+          { text: "您好", startMs: 0, endMs: 1000 },
+          { text: "请讲", startMs: 2000, endMs: 3000 },
+        ],
+        [
+          { text: "喂", startMs: 1000, endMs: 1500 },
+          { text: "我要退款", startMs: 2800, endMs: 4000 },
+        ],
+      ],
+      { speakers: ["agent", "customer"], minOverlapMs: 100 },
+    );
+
+    // Touching sentences do not overlap; 200ms of shared speech does.
+    expect(summary(merged)).toEqual([
+      "agent:您好:clear",
+      "customer:喂:clear",
+      "agent:请讲:overlap",
+      "customer:我要退款:overlap",
+    ]);
+    expect(merged[0]).toMatchObject({ channel: 0, startMs: 0, endMs: 1000 });
+    expect(
+      summary(mergeChannels([[{ text: "请讲", startMs: 2000, endMs: 3000 }], []])),
+    ).toEqual(["left:请讲:clear"]);
+  });
+});
+
+describe("DualChannelTranscriber", () => {
+  let agent: MockASRServer;
+  let customer: MockASRServer;
+
+  beforeEach(async () => {
+    agent = new MockASRServer({
+      transcript: [
+        { text: "您好", startMs: 0, endMs: 1000 },
+        { text: "请问有什么可以帮您", startMs: 1000, endMs: 2000 },
+      ],
+    });
+    customer = new MockASRServer({
+      transcript: [{ text: "我要退款", startMs: 1500, endMs: 2500 }],
+    });
+    await agent.start();
+    await customer.start();
+  });
+
+  afterEach(async () => {
+    await agent.close();
+    await customer.close();
+  });
+
+  function createTranscriber() {
+    const call = new DualChannelTranscriber(credential(), "8k_zh", {
+      speakers: ["agent", "customer"],
+      recognizer: { endpoint: agent.wsEndpoint },
+    });
+    call.recognizers[1].setEndpoint(customer.wsEndpoint);
+    return call;
+  }
+
+  test("streams each channel to its own session", async () => {
+    const call = createTranscriber();
+    const events: string[] = [];
+    call.on("sentence", (s) => events.push(`${s.speaker}:${s.text}`));
+    call.on("overlap", (a, b) => events.push(`overlap:${a.text}/${b.text}`));
+
+    await call.start();
+    const audio = stereo(3000);
+    // Chunks that split sample frames.
+    for (let offset = 0; offset < audio.length; offset += 6401) {
+      await call.write(audio.subarray(offset, offset + 6401));
+    }
+    await call.stop();
+
+    expect(agent.sessions[0].audioBytes).toBe(48000);
+    expect(customer.sessions[0].audioBytes).toBe(48000);
+    expect(events).toEqual([
+      "agent:您好",
+      "agent:请问有什么可以帮您",
+      "customer:我要退款",
+      "overlap:请问有什么可以帮您/我要退款",
+    ]);
+    expect(summary(call.getTranscript())).toEqual([
+      "agent:您好:clear",
+      "agent:请问有什么可以帮您:overlap",
+      "customer:我要退款:overlap",
+    ]);
+  });
+
+  test("transcribes a WAV recording and can be reused after reset()", async () => {
+    const call = createTranscriber();
+    // 16kHz input is resampled to the 8k engine.
+    const transcript = await call.transcribe(wav(Buffer.alloc(3000 * 64), 16000, 2), {
+      speed: "max",
+    });
+
+    expect(summary(transcript)).toEqual([
+      "agent:您好:clear",
+      "agent:请问有什么可以帮您:overlap",
+      "customer:我要退款:overlap",
+    ]);
+    expect(Math.abs(agent.sessions[0].audioBytes - 48000)).toBeLessThanOrEqual(2);
+    await expect(call.transcribe(wav(stereo(100), 8000, 2))).rejects.toMatchObject({
+      code: ErrorCode.ALREADY_STARTED,
+    });
+
+    call.reset();
+    expect(call.getTranscript()).toEqual([]);
+    await expect(call.transcribe(wav(Buffer.alloc(3200), 8000, 1))).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAM,
+      message: expect.stringContaining("stereo audio required, got 1 channel(s)"),
+    });
+    await call.transcribe(stereo(3000), { speed: "max" });
+    expect(call.getTranscript()).toHaveLength(3);
+  });
+
+  test("closes the file when a recording is rejected", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "trtc-asr-"));
+    const file = path.join(dir, "mono.wav");
+    await fs.promises.writeFile(file, wav(Buffer.alloc(3200), 8000, 1));
+    const open = jest.spyOn(fs, "createReadStream");
+    try {
+      const call = createTranscriber();
+      await expect(call.transcribe(file)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_PARAM,
+      });
+      expect(open).toHaveBeenCalledTimes(1);
+      expect(open.mock.results[0].value.destroyed).toBe(true);
+      expect(call.recognizers.map((r) => r.getState())).toEqual([
+        RecognizerState.IDLE,
+        RecognizerState.IDLE,
+      ]);
+    } finally {
+      open.mockRestore();
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("reports which channel failed mid-stream", async () => {
+    customer.injectFault("realtime", { type: "serverError", code: 4008, afterMs: 400 });
+    const call = createTranscriber();
+    const failed: number[] = [];
+    call.on("fail", (channel) => failed.push(channel));
+
+    const failure = {
+      code: 4008,
+      message: expect.stringContaining("customer channel failed: "),
+    };
+    // The later writes of the failed channel would reject with NOT_STARTED.
+    await expect(call.transcribe(stereo(3000), { speed: 10 })).rejects.toMatchObject(failure);
+    expect(failed).toEqual([1]);
+    expect(call.recognizers[0].getState()).not.toBe(RecognizerState.RUNNING);
+
+    // The error may also arrive only after the last write.
+    call.reset();
+    customer.injectFault("realtime", { type: "serverError", code: 4008, afterMs: 400 });
+    await expect(call.transcribe(stereo(3000), { speed: "max" })).rejects.toMatchObject(failure);
+    expect(failed).toEqual([1, 1]);
+  });
+
+  test("a channel that fails to start leaves neither running", async () => {
+    const call = createTranscriber();
+    await customer.close();
+
+    await expect(call.start()).rejects.toBeDefined();
+    expect(call.recognizers.map((r) => r.getState())).not.toContain(
+      RecognizerState.RUNNING,
+    );
+  });
+});
+
+describe("recognizeStereo", () => {
+  test("sends one sentence request per channel", async () => {
+    const server = new MockASRServer({ transcript: ["您好。"] });
+    await server.start();
+    try {
+      const recognizer = new SentenceRecognizer(credential());
+      recognizer.setEndpoint(server.httpEndpoint);
+
+      const sentences = await recognizeStereo(recognizer, wav(stereo(500), 8000, 2), "8k_zh", {
+        speakers: ["agent", "customer"],
+      });
+
+      expect(server.requests).toHaveLength(2);
+      for (const request of server.requests) {
+        expect(request.body).toMatchObject({ EngSerViceType: "8k_zh", DataLen: 8000 });
+      }
+      expect(summary(sentences)).toEqual(["agent:您好。:overlap", "customer:您好。:overlap"]);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { sampleRateForEngine } from "../src/audio-format";
+import { Credential } from "../src/credential";
+import { EngineCatalog, EngineModel, engineCatalog } from "../src/engines";
+import { ErrorCode } from "../src/errors";
+import { FileRecognizer, FileSourceType } from "../src/file-recognizer";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+const invalid = (message: string) =>
+  expect.objectContaining({
+    code: ErrorCode.INVALID_PARAM,
+    message: expect.stringContaining(message),
+  });
+
+function model(overrides: Partial<EngineModel> = {}): EngineModel {
+  return {
+    name: "8k_custom",
+    sampleRate: 8000,
+    languages: ["zh"],
+    recognizers: ["realtime"],
+    voiceFormats: ["pcm"],
+    ...overrides,
+  };
+}
+
+describe("EngineCatalog", () => {
+  afterEach(() => {
+    engineCatalog.unregister("8k_custom");
+    engineCatalog.unregister("custom_telephone");
+  });
+
+  test("lists the built-in models by recognizer and language", () => {
+    expect(engineCatalog.get("16k_zh")).toMatchObject({ sampleRate: 16000 });
+    expect(engineCatalog.list({ language: "en" }).map((m) => m.name)).toEqual(["16k_zh_en"]);
+    expect(engineCatalog.list({ recognizer: "file" }).map((m) => m.name)).toEqual([
+      "8k_zh",
+      "16k_zh",
+      "16k_zh_en",
+    ]);
+
+    engineCatalog.register(model());
+    expect(engineCatalog.list({ recognizer: "sentence" })).toHaveLength(3);
+    expect(engineCatalog.list({ recognizer: "realtime" })).toHaveLength(4);
+  });
+
+  test("built-in models accept the formats of each recognizer", () => {
+    expect(() => engineCatalog.check("16k_zh", "realtime", { voiceFormat: "amr" })).toThrow(
+      invalid("does not support voice format amr in realtime recognition"),
+    );
+    expect(() => engineCatalog.check("8k_zh", "realtime", { voiceFormat: "ogg-opus" })).toThrow(
+      invalid("does not support voice format ogg-opus"),
+    );
+    expect(() => engineCatalog.check("16k_zh_en", "sentence", { voiceFormat: "flac" })).toThrow(
+      invalid("does not support voice format flac in sentence recognition"),
+    );
+    engineCatalog.check("16k_zh", "realtime", { voiceFormat: "opus" });
+    engineCatalog.check("16k_zh", "sentence", { voiceFormat: "amr" });
+    engineCatalog.check("8k_zh", "file", { voiceFormat: "flac", channels: 2 });
+
+    engineCatalog.check("16k_zh", "sentence", { voiceFormat: "WAV" });
+    engineCatalog.check("16k_zh", "realtime", { voiceFormat: "PCM" });
+    expect(() => engineCatalog.check("16k_zh", "realtime", { voiceFormat: "AMR" })).toThrow(
+      invalid("does not support voice format AMR in realtime recognition"),
+    );
+  });
+
+  test("register() validates models", () => {
+    const catalog = new EngineCatalog();
+    expect(() => catalog.register(model({ name: "" }))).toThrow(invalid("engine name"));
+    expect(() => catalog.register(model({ sampleRate: 0 }))).toThrow(invalid("sampleRate"));
+    expect(() => catalog.register(model({ recognizers: [] }))).toThrow(invalid("recognizers"));
+    expect(() => catalog.register(model({ recognizers: ["stream" as any] }))).toThrow(
+      invalid('unknown recognizer "stream"'),
+    );
+    expect(() => catalog.register(model({ voiceFormats: [] }))).toThrow(invalid("voiceFormats"));
+    expect(() => catalog.register(model({ recognizerFormats: { realtime: [] } }))).toThrow(
+      invalid("recognizerFormats.realtime"),
+    );
+    expect(() => catalog.register(model({ maxChannels: 0 }))).toThrow(invalid("maxChannels"));
+    expect(catalog.list()).toEqual([]);
+  });
+
+  test("sample rates come from the catalog, then the name prefix", () => {
+    engineCatalog.register(model({ name: "custom_telephone" }));
+    expect(sampleRateForEngine("custom_telephone")).toBe(8000);
+    expect(sampleRateForEngine("8k_unreleased")).toBe(8000);
+    expect(sampleRateForEngine("16k_unreleased")).toBe(16000);
+  });
+});
+
+describe("engine checks in the recognizers", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    engineCatalog.unregister("8k_custom");
+    await server.close();
+  });
+
+  test("unsupported requests are rejected before anything is sent", async () => {
+    engineCatalog.register(model());
+
+    const speech = new SpeechRecognizer(credential(), "8k_custom", { voiceFormat: "wav" });
+    speech.setEndpoint(server.wsEndpoint);
+    await expect(speech.start()).rejects.toEqual(invalid("does not support voice format wav"));
+
+    const sentence = new SentenceRecognizer(credential());
+    sentence.setEndpoint(server.httpEndpoint);
+    await expect(sentence.recognizeData(Buffer.alloc(320), "pcm", "8k_custom")).rejects.toEqual(
+      invalid("does not support sentence recognition"),
+    );
+
+    // Built-in models reject formats their recognizer does not take.
+    await expect(sentence.recognizeData(Buffer.alloc(320), "opus", "16k_zh")).rejects.toEqual(
+      invalid("does not support voice format opus in sentence recognition"),
+    );
+
+    const file = new FileRecognizer(credential());
+    file.setEndpoint(server.httpEndpoint);
+    const request = {
+      engineModelType: "16k_zh",
+      channelNum: 2,
+      resTextFormat: 0,
+      sourceType: FileSourceType.URL,
+      url: "https://example.com/a.wav",
+    };
+    await expect(file.createTask(request)).rejects.toEqual(invalid("at most 1 channel(s)"));
+
+    expect(server.sessions).toEqual([]);
+    expect(server.requests).toEqual([]);
+
+    // 8k_zh accepts dual-channel telephone audio; unregistered models pass through.
+    await file.createTask({ ...request, engineModelType: "8k_zh" });
+    await sentence.recognizeData(Buffer.alloc(320), "pcm", "16k_unreleased");
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test("real-time input is resampled to the catalog's sample rate", async () => {
+    engineCatalog.register(model());
+    const recognizer = new SpeechRecognizer(credential(), "8k_custom", {
+      inputFormat: { sampleRate: 16000, resampler: "linear" },
+    });
+    recognizer.setEndpoint(server.wsEndpoint);
+
+    await recognizer.start();
+    // 200ms at 16kHz, sent as 200ms at 8kHz.
+    await recognizer.write(Buffer.alloc(6400));
+    await recognizer.stop();
+    expect(server.sessions[0].audioBytes).toBe(3200);
+  });
+});
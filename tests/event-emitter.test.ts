@@ -0,0 +1,156 @@
+import { Credential } from "../src/credential";
+import { TypedEventEmitter } from "../src/event-emitter";
+import {
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "../src/speech-recognizer";
+
+interface TestEvents {
+  ping: [value: number];
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  fire(value: number): void {
+    this.emit("ping", value);
+  }
+}
+
+function sentenceEnd(text: string): string {
+  const resp: SpeechRecognitionResponse = {
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final: 0,
+    result: {
+      slice_type: 2,
+      index: 0,
+      start_time: 0,
+      end_time: 0,
+      voice_text_str: text,
+      word_size: 0,
+      word_list: [],
+    },
+  };
+  return JSON.stringify(resp);
+}
+
+function createRecognizer(listener?: object): any {
+  const credential = new Credential(1300000000, 1400000000, "secret");
+  return new SpeechRecognizer(credential, "16k_zh", listener);
+}
+
+describe("TypedEventEmitter", () => {
+  test("on/off/once manage handlers", () => {
+    const emitter = new TestEmitter();
+    const seen: string[] = [];
+    const handler = (v: number) => seen.push(`on:${v}`);
+
+    emitter.on("ping", handler);
+    emitter.once("ping", (v) => seen.push(`once:${v}`));
+    emitter.fire(1);
+    emitter.fire(2);
+    emitter.off("ping", handler);
+    emitter.fire(3);
+
+    expect(seen).toEqual(["on:1", "once:1", "on:2"]);
+    expect(emitter.listenerCount("ping")).toBe(0);
+  });
+
+  test("a throwing handler is isolated and reported", () => {
+    const emitter = new TestEmitter();
+    const seen: number[] = [];
+    const errors: [unknown, string][] = [];
+
+    emitter.on("ping", () => {
+      throw new Error("bug");
+    });
+    emitter.on("ping", (v) => seen.push(v));
+    emitter.on("listenerError", (err, event) => errors.push([err, event]));
+
+    expect(() => emitter.fire(7)).not.toThrow();
+    expect(seen).toEqual([7]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0][1]).toBe("ping");
+  });
+
+  test("without a listenerError handler a warning is emitted", () => {
+    const emitter = new TestEmitter();
+    const warn = jest
+      .spyOn(process, "emitWarning")
+      .mockImplementation(() => undefined);
+    emitter.on("ping", () => {
+      throw new Error("bug");
+    });
+
+    emitter.fire(1);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe("SpeechRecognizer events", () => {
+  test("constructor listener and on() handlers both receive events", () => {
+    const texts: string[] = [];
+    const recognizer = createRecognizer({
+      onSentenceEnd: (r: SpeechRecognitionResponse) =>
+        texts.push(`listener:${r.result.voice_text_str}`),
+    });
+    recognizer.on("sentenceEnd", (r: SpeechRecognitionResponse) =>
+      texts.push(`on:${r.result.voice_text_str}`),
+    );
+
+    recognizer.handleMessage(sentenceEnd("hi"));
+
+    expect(texts).toEqual(["listener:hi", "on:hi"]);
+  });
+
+  test("a throwing listener does not break message processing", () => {
+    const texts: string[] = [];
+    const errors: unknown[] = [];
+    const recognizer = createRecognizer({
+      onSentenceEnd: () => {
+        throw new Error("ui bug");
+      },
+    });
+    recognizer.on("sentenceEnd", (r: SpeechRecognitionResponse) =>
+      texts.push(r.result.voice_text_str),
+    );
+    recognizer.on("listenerError", (err: unknown) => errors.push(err));
+
+    recognizer.handleMessage(sentenceEnd("a"));
+    recognizer.handleMessage(sentenceEnd("b"));
+
+    expect(texts).toEqual(["a", "b"]);
+    expect(errors).toHaveLength(2);
+  });
+
+  test("partial listeners can be added and removed", () => {
+    const texts: string[] = [];
+    const recognizer = createRecognizer();
+    const listener = {
+      onSentenceEnd: (r: SpeechRecognitionResponse) =>
+        texts.push(r.result.voice_text_str),
+    };
+
+    recognizer.addRecognitionListener(listener);
+    recognizer.addRecognitionListener(listener);
+    recognizer.handleMessage(sentenceEnd("a"));
+    recognizer.removeRecognitionListener(listener);
+    recognizer.handleMessage(sentenceEnd("b"));
+
+    expect(texts).toEqual(["a"]);
+    expect(recognizer.listenerCount("sentenceEnd")).toBe(0);
+  });
+
+  test("fail events carry the server error", () => {
+    const errors: Error[] = [];
+    const recognizer = createRecognizer();
+    recognizer.on("fail", (_r: unknown, err: Error) => errors.push(err));
+
+    recognizer.handleMessage(JSON.stringify({ code: 4002, message: "auth" }));
+
+    expect(errors[0]).toMatchObject({ code: 4002 });
+  });
+});
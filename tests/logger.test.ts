@@ -0,0 +1,204 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+import { Credential } from "../src/credential";
+import {
+  LogFields,
+  Logger,
+  LogLevel,
+  REDACTED,
+  consoleLogger,
+  pinoLogger,
+  redact,
+  redactLogger,
+} from "../src/logger";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+const SECRET_KEY = "0123456789abcdef0123456789abcdef";
+
+interface Entry {
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+function memoryLogger(entries: Entry[], bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) =>
+    entries.push({ level, message, fields: { ...bindings, ...fields } });
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (fields) => memoryLogger(entries, { ...bindings, ...fields }),
+  };
+}
+
+describe("redact", () => {
+  test("removes secret keys, signature parameters and secret values", () => {
+    const err = Object.assign(new Error(`bad key ${SECRET_KEY}`), { code: 1005 });
+    const fields = redact(
+      {
+        secretKey: "k",
+        headers: { "X-TRTC-UserSig": "sig", "x-trtc-sdkappid": "1400000000" },
+        url: "wss://host/asr/v2/1?secretid=1&signature=abc%2Bdef&voice_id=v",
+        nested: [{ user_sig: "sig" }, { Signature: "sig" }],
+        error: err,
+        audio: Buffer.alloc(3200),
+      },
+      [SECRET_KEY],
+    );
+
+    expect(fields).toEqual({
+      secretKey: REDACTED,
+      headers: { "X-TRTC-UserSig": REDACTED, "x-trtc-sdkappid": "1400000000" },
+      url: `wss://host/asr/v2/1?secretid=1&signature=${REDACTED}&voice_id=v`,
+      nested: [{ user_sig: REDACTED }, { Signature: REDACTED }],
+      error: { name: "Error", message: `bad key ${REDACTED}`, code: 1005 },
+      audio: "[Buffer 3200 bytes]",
+    });
+  });
+
+  test("copies shared objects and truncates only cycles", () => {
+    const shared = { userSig: "sig", rate: 16000 };
+    const cyclic: Record<string, unknown> = { name: "loop" };
+    cyclic.self = cyclic;
+
+    expect(redact({ a: shared, b: [shared, shared], cyclic })).toEqual({
+      a: { userSig: REDACTED, rate: 16000 },
+      b: [
+        { userSig: REDACTED, rate: 16000 },
+        { userSig: REDACTED, rate: 16000 },
+      ],
+      cyclic: { name: "loop", self: "[Truncated]" },
+    });
+  });
+
+  test("applies to messages and child bindings of a wrapped logger", () => {
+    const entries: Entry[] = [];
+    const logger = redactLogger(memoryLogger(entries), () => [SECRET_KEY]);
+    logger.child({ userSig: "sig" }).warn(`key=${SECRET_KEY}`, { a: 1 });
+    expect(entries).toEqual([
+      { level: "warn", message: `key=${REDACTED}`, fields: { userSig: REDACTED, a: 1 } },
+    ]);
+  });
+});
+
+describe("adapters", () => {
+  test("consoleLogger filters by level and merges child fields", () => {
+    const lines: unknown[][] = [];
+    const out = {
+      debug: (...args: unknown[]) => lines.push(["debug", ...args]),
+      info: (...args: unknown[]) => lines.push(["info", ...args]),
+      warn: (...args: unknown[]) => lines.push(["warn", ...args]),
+      error: (...args: unknown[]) => lines.push(["error", ...args]),
+    };
+    const logger = consoleLogger({ level: "info", console: out });
+    logger.debug("hidden");
+    logger.child({ voiceId: "v" }).info("connected", { attempt: 1 });
+    logger.error("plain");
+    expect(lines).toEqual([
+      ["info", "[trtc-asr] connected", { voiceId: "v", attempt: 1 }],
+      ["error", "[trtc-asr] plain"],
+    ]);
+
+    lines.length = 0;
+    consoleLogger({ json: true, console: out }).warn("closed", { code: 1006 });
+    expect(JSON.parse(lines[0][1] as string)).toMatchObject({
+      level: "warn",
+      msg: "closed",
+      code: 1006,
+    });
+  });
+
+  test("pinoLogger passes fields before the message", () => {
+    const calls: unknown[][] = [];
+    const pino: any = {
+      debug: (obj: object, msg: string) => calls.push(["debug", obj, msg]),
+      info: (obj: object, msg: string) => calls.push(["info", obj, msg]),
+      warn: (obj: object, msg: string) => calls.push(["warn", obj, msg]),
+      error: (obj: object, msg: string) => calls.push(["error", obj, msg]),
+      child: (bindings: object) => {
+        calls.push(["child", bindings]);
+        return pino;
+      },
+    };
+    const logger = pinoLogger(pino);
+    logger.child({ requestId: "r" }).info("http request");
+    expect(calls).toEqual([
+      ["child", { requestId: "r" }],
+      ["info", {}, "http request"],
+    ]);
+  });
+});
+
+describe("recognizer logging", () => {
+  test("logs a real-time session without leaking credentials", async () => {
+    const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => server.once("listening", resolve));
+    server.on("connection", (socket) => {
+      socket.send(JSON.stringify({ code: 0, message: "success", voice_id: "v", final: 0 }));
+      socket.on("message", () =>
+        socket.send(JSON.stringify({ code: 4002, message: "auth failed", voice_id: "v" })),
+      );
+    });
+
+    try {
+      const entries: Entry[] = [];
+      const credential = new Credential(1300000000, 1400000000, SECRET_KEY);
+      const recognizer = new SpeechRecognizer(credential, "16k_zh");
+      recognizer.setEndpoint(`ws://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      recognizer.setVoiceId("voice-1");
+      recognizer.setLogger(memoryLogger(entries));
+      recognizer.on("fail", () => undefined);
+
+      await recognizer.start();
+      await recognizer.write(Buffer.alloc(640));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const connecting = entries.find((e) => e.message === "connecting")!;
+      expect(connecting.fields).toMatchObject({ voiceId: "voice-1", engine: "16k_zh" });
+      expect(connecting.fields.url).toContain(`signature=${REDACTED}`);
+      expect(connecting.fields.headers).toMatchObject({ "X-TRTC-UserSig": REDACTED });
+      expect(entries.find((e) => e.message === "server error")).toMatchObject({
+        level: "error",
+        fields: { code: 4002, message: "auth failed" },
+      });
+
+      const text = JSON.stringify(entries);
+      expect(credential.userSig).not.toBe("");
+      expect(text).not.toContain(credential.userSig);
+      expect(text).not.toContain(encodeURIComponent(credential.userSig));
+      expect(text).not.toContain(SECRET_KEY);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  test("logs HTTP requests with the request id", async () => {
+    const server = http.createServer((_req, res) => {
+      res.end(JSON.stringify({ Response: { RequestId: "server-1", Result: "hi" } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const entries: Entry[] = [];
+      const recognizer = new SentenceRecognizer(
+        new Credential(1300000000, 1400000000, SECRET_KEY),
+      );
+      recognizer.setEndpoint(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      recognizer.setLogger(memoryLogger(entries));
+      await recognizer.recognizeData(Buffer.alloc(320), "pcm", "16k_zh");
+
+      expect(entries.map((e) => e.message)).toEqual(["http request", "http response"]);
+      expect(entries[0].fields).toMatchObject({
+        requestId: expect.any(String),
+        headers: { "X-TRTC-UserSig": REDACTED },
+      });
+      expect(entries[1].fields).toMatchObject({ status: 200 });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,234 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { FileRecognizer, TaskStatusCode } from "../src/file-recognizer";
+import { Instrumentation, Span, SpanAttributes, Tracer } from "../src/instrumentation";
+import { MetricsRegistry } from "../src/metrics";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+const credential = new Credential(1300000000, 1400000000, "secret");
+
+interface RecordedSpan {
+  name: string;
+  attributes: SpanAttributes;
+  events: string[];
+  status?: number;
+  ended: boolean;
+}
+
+function recordingTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: Tracer = {
+    startSpan(name, options) {
+      const record: RecordedSpan = {
+        name,
+        attributes: { ...options?.attributes },
+        events: [],
+        ended: false,
+      };
+      spans.push(record);
+      const span: Span = {
+        setAttribute: (key, value) => (record.attributes[key] = value),
+        addEvent: (event) => record.events.push(event),
+        recordException: () => undefined,
+        setStatus: (status) => (record.status = status.code),
+        end: () => (record.ended = true),
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+function resp(sliceType: number, index: number, end: number, final = 0) {
+  return JSON.stringify({
+    code: 0,
+    message: "success",
+    voice_id: "voice-1",
+    message_id: "m",
+    final,
+    result: {
+      slice_type: sliceType,
+      index,
+      start_time: 0,
+      end_time: end,
+      voice_text_str: "text",
+      word_size: 0,
+      word_list: [],
+    },
+  });
+}
+
+describe("MetricsRegistry", () => {
+  test("renders the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests.", ["api"]);
+    requests.inc(1, { api: 'say "hi"' });
+    requests.inc(2, { api: "b" });
+    registry.gauge("active", "Active\nsessions.").set(3);
+    const latency = registry.histogram("latency_seconds", "Latency.", [], [0.1, 1]);
+    latency.observe(0.05);
+    latency.observe(0.5);
+    latency.observe(5);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{api="say \\"hi\\""} 1',
+        'requests_total{api="b"} 2',
+        "# HELP active Active\\nsessions.",
+        "# TYPE active gauge",
+        "active 3",
+        "# HELP latency_seconds Latency.",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        "latency_seconds_sum 5.55",
+        "latency_seconds_count 3",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("shares metrics by name and rejects conflicts", () => {
+    const registry = new MetricsRegistry();
+    expect(registry.counter("a_total", "A.")).toBe(registry.counter("a_total", "A."));
+    expect(() => registry.gauge("a_total", "A.")).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+    expect(() => registry.counter("a_total", "A.").inc(1, { bogus: 1 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+});
+
+describe("Instrumentation", () => {
+  test("records real-time latencies, bytes, errors and a session span", async () => {
+    jest.useFakeTimers({ now: 0, doNotFake: ["nextTick", "setImmediate"] });
+    try {
+      const { tracer, spans } = recordingTracer();
+      const instrumentation = new Instrumentation({ tracer });
+      const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+      recognizer.setInstrumentation(instrumentation);
+      recognizer.tracker = instrumentation.startSession("16k_zh", "voice-1");
+      recognizer.tracker.opened("voice-1");
+      recognizer.state = 2; // RUNNING
+      recognizer.ws = {
+        bufferedAmount: 0,
+        send: (_data: any, cb?: (err?: Error) => void) => cb?.(),
+        close: () => undefined,
+      };
+
+      // 200ms of audio at t=0 and t=200.
+      await recognizer.write(Buffer.alloc(6400));
+      jest.setSystemTime(200);
+      await recognizer.write(Buffer.alloc(6400));
+
+      jest.setSystemTime(300);
+      recognizer.handleMessage(resp(1, 0, 100));
+      jest.setSystemTime(450);
+      recognizer.handleMessage(resp(2, 0, 350));
+      recognizer.handleMessage(JSON.stringify({ code: 4008, message: "timeout" }));
+
+      const metrics = instrumentation.render();
+      expect(metrics).toContain('trtc_asr_sessions_total{engine="16k_zh"} 1');
+      expect(metrics).toContain("trtc_asr_audio_bytes_sent_total 12800");
+      expect(metrics).toContain("trtc_asr_first_partial_latency_seconds_sum 0.3");
+      // The sentence ended in the second chunk, sent at t=200.
+      expect(metrics).toContain("trtc_asr_sentence_end_latency_seconds_sum 0.25");
+      expect(metrics).toContain('trtc_asr_errors_total{api="realtime",code="4008"} 1');
+      expect(metrics).toContain("trtc_asr_active_sessions 0");
+
+      expect(spans[0]).toMatchObject({
+        name: "asr.realtime",
+        attributes: { "asr.voice_id": "voice-1", "asr.engine": "16k_zh" },
+        events: ["first_result", "sentence_end"],
+        status: 2,
+        ended: true,
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("keeps send times for sentence end latency within a window", () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const instrumentation = new Instrumentation();
+      const tracker = instrumentation.startSession("16k_zh", "voice-1") as any;
+      // Two minutes of 200ms chunks without a sentence end.
+      for (let i = 1; i <= 600; i++) {
+        tracker.audioSent(6400, i * 200);
+        jest.advanceTimersByTime(200);
+      }
+      expect(tracker.sendTimes.length).toBeLessThanOrEqual(301);
+
+      // A sentence ending in dropped audio is not measured.
+      tracker.result(2, 0, 1000);
+      tracker.result(2, 1, 119900);
+      expect(instrumentation.render()).toContain(
+        "trtc_asr_sentence_end_latency_seconds_count 1",
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("counts start failures with the error start() rejects with", async () => {
+    const instrumentation = new Instrumentation();
+    const recognizer = new SpeechRecognizer(credential, "16k_zh");
+    recognizer.setInstrumentation(instrumentation);
+    recognizer.setEndpoint("ws://127.0.0.1:1");
+
+    await expect(recognizer.start()).rejects.toMatchObject({
+      code: ErrorCode.CONNECT_FAILED,
+    });
+    expect(instrumentation.errors.get({ api: "realtime", code: ErrorCode.CONNECT_FAILED })).toBe(1);
+    expect(instrumentation.activeSessions.get()).toBe(0);
+  });
+
+  test("records HTTP round trips and task polls with request ids", async () => {
+    let polls = 0;
+    const server = http.createServer((req, res) => {
+      const data = req.url!.startsWith("/v1/CreateRecTask")
+        ? { RecTaskId: "task-1" }
+        : { RecTaskId: "task-1", Status: ++polls < 3 ? TaskStatusCode.RUNNING : TaskStatusCode.SUCCESS };
+      res.end(JSON.stringify({ Response: { RequestId: `server-${polls}`, Data: data } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const { tracer, spans } = recordingTracer();
+      const instrumentation = new Instrumentation({ tracer });
+      const recognizer = new FileRecognizer(credential);
+      recognizer.setEndpoint(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      recognizer.setInstrumentation(instrumentation);
+
+      const taskId = await recognizer.createTaskFromURL("https://example.com/a.wav", "16k_zh");
+      await recognizer.waitForResultWithInterval(taskId, 1, 5000);
+
+      expect(instrumentation.polls.get()).toBe(3);
+      expect(instrumentation.httpTime.get({ api: "create_rec_task" }).count).toBe(1);
+      expect(instrumentation.httpTime.get({ api: "describe_task_status" }).count).toBe(3);
+      expect(instrumentation.taskWait.get({ status: "success" }).count).toBe(1);
+      expect(spans.map((s) => s.name)).toEqual([
+        "asr.create_rec_task",
+        "asr.wait_for_result",
+        "asr.describe_task_status",
+        "asr.describe_task_status",
+        "asr.describe_task_status",
+      ]);
+      expect(spans[2].attributes).toMatchObject({
+        "asr.task_id": "task-1",
+        "asr.server_request_id": "server-1",
+      });
+      expect(spans[2].attributes["asr.request_id"]).toEqual(expect.any(String));
+      expect(spans[1]).toMatchObject({ attributes: { "asr.polls": 3 }, status: 1, ended: true });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
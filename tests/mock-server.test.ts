@@ -0,0 +1,169 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { FileRecognizer, TaskStatusCode } from "../src/file-recognizer";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+// 200ms of 16kHz 16-bit PCM.
+const CHUNK = Buffer.alloc(6400);
+
+function recordEvents(recognizer: SpeechRecognizer) {
+  const events: string[] = [];
+  recognizer.on("start", () => events.push("start"));
+  recognizer.on("sentenceBegin", (r) => events.push(`begin:${r.result.index}`));
+  recognizer.on("resultChange", (r) => events.push(`change:${r.result.voice_text_str}`));
+  recognizer.on("sentenceEnd", (r) => events.push(`end:${r.result.voice_text_str}`));
+  recognizer.on("complete", () => events.push("complete"));
+  recognizer.on("fail", (_r, err) => events.push(`fail:${(err as any).code}`));
+  recognizer.on("reconnected", (attempt) => events.push(`reconnected:${attempt}`));
+  return events;
+}
+
+describe("MockASRServer", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({
+      transcript: ["你好。", { text: "hello world", partials: ["hello"], endMs: 2000 }],
+      pollsUntilDone: 3,
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("streams scripted results as audio arrives", async () => {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+    recognizer.setWordInfo(1);
+    const events = recordEvents(recognizer);
+    const ends: any[] = [];
+    recognizer.on("sentenceEnd", (r) => ends.push(r.result));
+
+    await recognizer.start();
+    for (let i = 0; i < 5; i++) await recognizer.write(CHUNK);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    // 1000ms sent: the first sentence ended, the second began.
+    expect(events).toEqual(["start", "begin:0", "change:你好", "end:你好。", "begin:1"]);
+
+    await recognizer.stop();
+    expect(events.slice(5)).toEqual(["change:hello", "end:hello world", "complete"]);
+    expect(ends[1]).toMatchObject({ start_time: 1000, end_time: 2000, word_size: 2 });
+    expect(server.sessions).toHaveLength(1);
+    expect(server.sessions[0]).toMatchObject({
+      engine: "16k_zh",
+      audioBytes: 5 * CHUNK.length,
+      ended: true,
+    });
+  });
+
+  test("injects real-time server errors and disconnects", async () => {
+    server.injectFault("realtime", { type: "serverError", code: 4008, afterMs: 400 });
+    const failing = new SpeechRecognizer(credential(), "16k_zh");
+    failing.setEndpoint(server.wsEndpoint);
+    const events = recordEvents(failing);
+    await failing.start();
+    await failing.write(CHUNK);
+    await failing.write(CHUNK);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(events).toEqual(["start", "begin:0", "fail:4008"]);
+
+    server.injectFault("realtime", { type: "disconnect", afterMs: 200 });
+    const reconnecting = new SpeechRecognizer(credential(), "16k_zh");
+    reconnecting.setEndpoint(server.wsEndpoint);
+    reconnecting.setReconnectPolicy({ initialDelay: 10 });
+    const reconnectEvents = recordEvents(reconnecting);
+    await reconnecting.start();
+    await reconnecting.write(CHUNK);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await reconnecting.stop();
+    expect(reconnectEvents).toContain("reconnected:1");
+    expect(reconnectEvents).not.toContain(`fail:${ErrorCode.READ_FAILED}`);
+    expect(server.sessions).toHaveLength(3);
+  });
+
+  test("serves sentence recognition and HTTP faults", async () => {
+    const recognizer = new SentenceRecognizer(credential());
+    recognizer.setEndpoint(server.httpEndpoint);
+
+    const result = await recognizer.recognizeDataWithOptions(Buffer.alloc(320), {
+      engServiceType: "16k_zh",
+      sourceType: 1,
+      voiceFormat: "pcm",
+      wordInfo: 1,
+    });
+    expect(result).toMatchObject({ result: "你好。hello world", audioDuration: 2000, wordSize: 5 });
+    expect(server.requests[0]).toMatchObject({
+      api: "sentence",
+      body: { EngSerViceType: "16k_zh", DataLen: 320 },
+    });
+
+    server.injectFault("sentence", { type: "httpStatus", status: 500 });
+    await expect(
+      recognizer.recognizeData(Buffer.alloc(320), "pcm", "16k_zh"),
+    ).rejects.toMatchObject({
+      code: ErrorCode.SERVER_ERROR,
+      message: expect.stringContaining("http status 500"),
+    });
+
+    server.injectFault("sentence", { type: "responseError", code: "FailedOperation" });
+    server.injectFault("sentence", { type: "latency", ms: 20 });
+    await expect(
+      recognizer.recognizeData(Buffer.alloc(320), "pcm", "16k_zh"),
+    ).rejects.toMatchObject({ message: expect.stringContaining("[FailedOperation]") });
+
+    expect(() => server.injectFault("sentence", { type: "taskFailed" })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+
+  test("close() ends requests held by a latency fault", async () => {
+    const handled = jest.spyOn(server as any, "handleHttp");
+    const recognizer = new SentenceRecognizer(credential());
+    recognizer.setEndpoint(server.httpEndpoint);
+    server.injectFault("sentence", { type: "latency", ms: 60000 });
+
+    const request = recognizer.recognizeData(Buffer.alloc(320), "pcm", "16k_zh");
+    await new Promise((resolve) => server.once("request", resolve));
+    await server.close();
+
+    await expect(handled.mock.results[0].value).resolves.toBeUndefined();
+    await expect(request).rejects.toBeDefined();
+  });
+
+  test("runs file recognition tasks through their states", async () => {
+    const recognizer = new FileRecognizer(credential());
+    recognizer.setEndpoint(server.httpEndpoint);
+
+    const taskId = await recognizer.createTaskFromURL("https://example.com/a.wav", "16k_zh");
+    expect((await recognizer.describeTaskStatus(taskId)).status).toBe(TaskStatusCode.WAITING);
+    expect((await recognizer.describeTaskStatus(taskId)).status).toBe(TaskStatusCode.RUNNING);
+    const status = await recognizer.waitForResultWithInterval(taskId, 1, 5000);
+    expect(status).toMatchObject({
+      status: TaskStatusCode.SUCCESS,
+      result: "[0:00.000,0:01.000]  你好。\n[0:01.000,0:02.000]  hello world\n",
+      audioDuration: 2,
+    });
+    expect(status.resultDetail[1].words).toEqual([
+      { word: "hello", offsetStartMs: 0, offsetEndMs: 500 },
+      { word: "world", offsetStartMs: 500, offsetEndMs: 1000 },
+    ]);
+
+    server.injectFault("createTask", { type: "taskFailed", message: "bad audio" });
+    const failed = await recognizer.createTaskFromURL("https://example.com/b.wav", "16k_zh");
+    await expect(recognizer.waitForResultWithInterval(failed, 1, 5000)).rejects.toMatchObject({
+      code: ErrorCode.SERVER_ERROR,
+      message: expect.stringContaining("bad audio"),
+    });
+
+    server.injectFault("describeTask", { type: "disconnect" });
+    await expect(recognizer.describeTaskStatus(taskId)).rejects.toMatchObject({
+      code: ErrorCode.CONNECT_FAILED,
+    });
+  });
+});
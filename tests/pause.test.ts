@@ -0,0 +1,113 @@
+import { VoiceFormat } from "../src/audio-format";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+function createRunningRecognizer(engine = "16k_zh") {
+  const credential = new Credential(1300000000, 1400000000, "secret");
+  const recognizer = new SpeechRecognizer(credential, engine) as any;
+  const audio: Buffer[] = [];
+  const text: string[] = [];
+  recognizer.state = 2; // RUNNING
+  recognizer.ws = {
+    bufferedAmount: 0,
+    send: (data: any, cb: (err?: Error) => void) => {
+      if (typeof data === "string") {
+        text.push(data);
+      } else {
+        audio.push(data);
+      }
+      cb();
+    },
+    close: () => undefined,
+  };
+  return { recognizer, audio, text };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("SpeechRecognizer pause/resume", () => {
+  test("sends short silence frames while paused", async () => {
+    const { recognizer, audio } = createRunningRecognizer("16k_zh");
+
+    await recognizer.pause({ keepAliveInterval: 20 });
+    await sleep(70);
+    recognizer.resume();
+    const count = audio.length;
+    await sleep(50);
+
+    expect(count).toBeGreaterThanOrEqual(2);
+    expect(audio.length).toBe(count);
+    expect(audio[0]).toHaveLength(1280); // 40ms of 16kHz 16-bit PCM
+    expect(audio[0].every((b) => b === 0)).toBe(true);
+  });
+
+  test("8k engines use 8kHz silence frames", async () => {
+    const { recognizer, audio } = createRunningRecognizer("8k_zh");
+
+    await recognizer.pause({ keepAliveInterval: 10, keepAliveFrameMs: 20 });
+    await sleep(30);
+    recognizer.resume();
+
+    expect(audio[0]).toHaveLength(320);
+  });
+
+  test("write rejects while paused and works after resume", async () => {
+    const { recognizer, audio } = createRunningRecognizer();
+    const events: string[] = [];
+    recognizer.on("paused", () => events.push("paused"));
+    recognizer.on("resumed", () => events.push("resumed"));
+
+    await recognizer.pause({ keepAliveInterval: 1000 });
+    expect(recognizer.isPaused()).toBe(true);
+    await expect(recognizer.write(Buffer.alloc(640))).rejects.toMatchObject({
+      code: ErrorCode.NOT_STARTED,
+    });
+
+    recognizer.resume();
+    await recognizer.write(Buffer.alloc(640));
+
+    expect(audio).toHaveLength(1);
+    expect(events).toEqual(["paused", "resumed"]);
+  });
+
+  test("idle limit stops the session cleanly", async () => {
+    const { recognizer, text } = createRunningRecognizer();
+    const fail = jest.fn();
+    const idle = jest.fn();
+    recognizer.on("fail", fail);
+    recognizer.on("idleTimeout", idle);
+
+    await recognizer.pause({ keepAliveInterval: 1000, idleTimeout: 30 });
+    await sleep(80);
+
+    expect(idle).toHaveBeenCalledTimes(1);
+    expect(text).toEqual([JSON.stringify({ type: "end" })]);
+    expect(recognizer.state).toBe(4); // STOPPED
+    expect(recognizer.isPaused()).toBe(false);
+    expect(fail).not.toHaveBeenCalled();
+  });
+
+  test("non-PCM formats need an explicit silence frame", async () => {
+    const { recognizer } = createRunningRecognizer();
+    recognizer.setVoiceFormat(VoiceFormat.OPUS);
+
+    await expect(recognizer.pause()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAM,
+    });
+    await recognizer.pause({ silenceFrame: Buffer.from([1, 2, 3]) });
+    expect(recognizer.isPaused()).toBe(true);
+    recognizer.resume();
+  });
+
+  test("pause before start rejects with NOT_STARTED", async () => {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh");
+
+    await expect(recognizer.pause()).rejects.toMatchObject({
+      code: ErrorCode.NOT_STARTED,
+    });
+  });
+});
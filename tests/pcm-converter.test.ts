@@ -0,0 +1,210 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { PcmConverter } from "../src/pcm-converter";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+function sine(rate: number, ms: number, freq: number, amplitude: number): Float64Array {
+  const n = Math.round((rate * ms) / 1000);
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    out[i] = amplitude * Math.sin((2 * Math.PI * freq * i) / rate);
+  }
+  return out;
+}
+
+function float32Stereo(samples: Float64Array): Buffer {
+  const buf = Buffer.alloc(samples.length * 8);
+  samples.forEach((v, i) => {
+    buf.writeFloatLE(v, i * 8);
+    buf.writeFloatLE(v, i * 8 + 4);
+  });
+  return buf;
+}
+
+function int16(samples: Float64Array): Buffer {
+  const buf = Buffer.alloc(samples.length * 2);
+  samples.forEach((v, i) => buf.writeInt16LE(Math.round(v * 32767), i * 2));
+  return buf;
+}
+
+function readInt16(buf: Buffer): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < buf.length; i += 2) out.push(buf.readInt16LE(i));
+  return out;
+}
+
+function rms(samples: number[]): number {
+  return Math.sqrt(samples.reduce((s, v) => s + v * v, 0) / samples.length) / 32768;
+}
+
+function convertAll(converter: PcmConverter, data: Buffer, chunk: number): Buffer {
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunk) {
+    parts.push(converter.convert(data.subarray(offset, offset + chunk)));
+  }
+  parts.push(converter.flush());
+  return Buffer.concat(parts);
+}
+
+describe("PcmConverter", () => {
+  test("passes matching input through unchanged", () => {
+    const converter = new PcmConverter({ sampleRate: 16000 }, 16000);
+    const data = int16(sine(16000, 20, 440, 0.5));
+
+    expect(converter.isPassthrough).toBe(true);
+    expect(converter.convert(data)).toBe(data);
+  });
+
+  test("converts sample formats and byte order", () => {
+    const be = Buffer.alloc(4);
+    be.writeInt16BE(1000, 0);
+    be.writeInt16BE(-2000, 2);
+    expect(
+      readInt16(new PcmConverter({ sampleRate: 8000, endianness: "be" }, 8000).convert(be)),
+    ).toEqual([1000, -2000]);
+
+    const int8 = Buffer.from([64, 0xc0]); // 64, -64
+    expect(
+      readInt16(new PcmConverter({ sampleRate: 8000, sampleFormat: "int8" }, 8000).convert(int8)),
+    ).toEqual([16384, -16384]);
+
+    const uint8 = Buffer.from([192, 64]);
+    expect(
+      readInt16(new PcmConverter({ sampleRate: 8000, sampleFormat: "uint8" }, 8000).convert(uint8)),
+    ).toEqual([16384, -16384]);
+
+    const int24 = Buffer.from([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+    expect(
+      readInt16(new PcmConverter({ sampleRate: 8000, sampleFormat: "int24" }, 8000).convert(int24)),
+    ).toEqual([16384, -16384]);
+
+    const float = Buffer.alloc(12);
+    float.writeFloatBE(0.5, 0);
+    float.writeFloatBE(2, 4); // clipped
+    float.writeFloatBE(-1, 8);
+    expect(
+      readInt16(
+        new PcmConverter(
+          { sampleRate: 8000, sampleFormat: "float32", endianness: "be" },
+          8000,
+        ).convert(float),
+      ),
+    ).toEqual([16384, 32767, -32768]);
+  });
+
+  test("downmixes by averaging channels", () => {
+    const stereo = Buffer.alloc(8);
+    stereo.writeInt16LE(1000, 0);
+    stereo.writeInt16LE(3000, 2);
+    stereo.writeInt16LE(-1000, 4);
+    stereo.writeInt16LE(1000, 6);
+    const converter = new PcmConverter({ sampleRate: 16000, channels: 2 }, 16000);
+
+    expect(readInt16(converter.convert(stereo))).toEqual([2000, 0]);
+  });
+
+  test.each(["linear", "sinc"] as const)(
+    "%s resampling of 48kHz stereo float32 keeps length and level",
+    (resampler) => {
+      const input = float32Stereo(sine(48000, 500, 1000, 0.5));
+      const out = readInt16(
+        convertAll(
+          new PcmConverter(
+            { sampleRate: 48000, channels: 2, sampleFormat: "float32", resampler },
+            16000,
+          ),
+          input,
+          4096,
+        ),
+      );
+
+      expect(Math.abs(out.length - 8000)).toBeLessThanOrEqual(1);
+      expect(rms(out.slice(200, 7800))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    },
+  );
+
+  test.each(["linear", "sinc"] as const)(
+    "%s output does not depend on chunking",
+    (resampler) => {
+      const input = int16(sine(44100, 300, 700, 0.3));
+      const format = { sampleRate: 44100, resampler };
+      const whole = convertAll(new PcmConverter(format, 16000), input, input.length);
+      const chunked = convertAll(new PcmConverter(format, 16000), input, 333);
+
+      expect(chunked.equals(whole)).toBe(true);
+    },
+  );
+
+  test("sinc resampler removes content above the output Nyquist rate", () => {
+    // 6kHz cannot be represented at 8kHz; linear interpolation aliases it.
+    const input = int16(sine(48000, 300, 6000, 0.5));
+    const level = (resampler: "linear" | "sinc") =>
+      rms(
+        readInt16(
+          convertAll(new PcmConverter({ sampleRate: 48000, resampler }, 8000), input, 4800),
+        ).slice(100, 2300),
+      );
+
+    expect(level("sinc")).toBeLessThan(0.01);
+    expect(level("linear")).toBeGreaterThan(0.1);
+  });
+
+  test("rejects invalid formats", () => {
+    for (const format of [
+      { sampleRate: 0 },
+      { sampleRate: 16000, channels: 0 },
+      { sampleRate: 16000, sampleFormat: "int12" as any },
+      { sampleRate: 16000, resampler: "cubic" as any },
+    ]) {
+      expect(() => new PcmConverter(format, 16000)).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+      );
+    }
+  });
+});
+
+describe("SpeechRecognizer input format", () => {
+  function createRunningRecognizer() {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+    const audio: Buffer[] = [];
+    const text: string[] = [];
+    recognizer.state = 2; // RUNNING
+    recognizer.ws = {
+      bufferedAmount: 0,
+      send: (data: any, cb?: (err?: Error) => void) => {
+        if (typeof data === "string") text.push(data);
+        else audio.push(data);
+        cb?.();
+      },
+      close: () => undefined,
+    };
+    recognizer.donePromise = Promise.resolve();
+    return { recognizer, audio, text };
+  }
+
+  test("converts written audio and flushes it on stop", async () => {
+    const { recognizer, audio, text } = createRunningRecognizer();
+    const format = { sampleRate: 48000, channels: 2, sampleFormat: "float32" as const };
+    recognizer.setInputFormat(format);
+    recognizer.converter = new PcmConverter(format, 16000);
+
+    await recognizer.streamBuffer(float32Stereo(sine(48000, 1000, 440, 0.5)), {
+      speed: "max",
+    });
+
+    const sent = audio.reduce((n, b) => n + b.length, 0);
+    expect(Math.abs(sent - 32000)).toBeLessThanOrEqual(2);
+    expect(audio.every((b) => b.length > 0)).toBe(true);
+    expect(text).toEqual([JSON.stringify({ type: "end" })]);
+  });
+
+  test("validates the declared format", () => {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh");
+
+    expect(() => recognizer.setInputFormat({ sampleRate: -1 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+});
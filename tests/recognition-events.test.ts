@@ -0,0 +1,165 @@
+import { Credential } from "../src/credential";
+import { ASRError, ErrorCode } from "../src/errors";
+import {
+  RecognitionEvent,
+  RecognitionEventSource,
+} from "../src/recognition-events";
+import {
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "../src/speech-recognizer";
+
+function response(
+  sliceType: number | undefined,
+  index = 0,
+  text = "",
+  final = 0,
+): SpeechRecognitionResponse {
+  return {
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final,
+    result:
+      sliceType === undefined
+        ? (undefined as any)
+        : {
+            slice_type: sliceType,
+            index,
+            start_time: 0,
+            end_time: 0,
+            voice_text_str: text,
+            word_size: 0,
+            word_list: [],
+          },
+  };
+}
+
+async function drain(source: AsyncIterable<RecognitionEvent>): Promise<string[]> {
+  const types: string[] = [];
+  for await (const evt of source) {
+    types.push(evt.type);
+  }
+  return types;
+}
+
+describe("RecognitionEventSource", () => {
+  test("yields events in order and ends after complete", async () => {
+    const source = new RecognitionEventSource();
+    source.onRecognitionStart(response(undefined));
+    source.onSentenceBegin(response(0));
+    source.onRecognitionResultChange(response(1));
+    source.onSentenceEnd(response(2));
+    source.onRecognitionComplete(response(undefined, 0, "", 1));
+
+    expect(await drain(source)).toEqual([
+      "start",
+      "sentenceBegin",
+      "partial",
+      "sentenceEnd",
+      "complete",
+    ]);
+  });
+
+  test("resolves pending reads as events arrive", async () => {
+    const source = new RecognitionEventSource();
+    const pending = drain(source);
+
+    source.onSentenceEnd(response(2));
+    source.close();
+
+    expect(await pending).toEqual(["sentenceEnd"]);
+  });
+
+  test("throws the failure after queued events", async () => {
+    const source = new RecognitionEventSource();
+    const types: string[] = [];
+    source.onSentenceEnd(response(2));
+    source.onFail(null, new ASRError(ErrorCode.READ_FAILED, "boom"));
+
+    await expect(
+      (async () => {
+        for await (const evt of source) types.push(evt.type);
+      })(),
+    ).rejects.toMatchObject({ code: ErrorCode.READ_FAILED });
+    expect(types).toEqual(["sentenceEnd"]);
+  });
+
+  test("dropPartials keeps only the latest queued partial per sentence", async () => {
+    const source = new RecognitionEventSource({ buffering: "dropPartials" });
+    source.onRecognitionResultChange(response(1, 0, "a"));
+    source.onRecognitionResultChange(response(1, 0, "ab"));
+    source.onRecognitionResultChange(response(1, 0, "abc"));
+    source.onSentenceEnd(response(2, 0, "abc."));
+    source.close();
+
+    const texts: string[] = [];
+    for await (const evt of source) texts.push(evt.response.result.voice_text_str);
+    expect(texts).toEqual(["abc", "abc."]);
+  });
+
+  test("unbounded keeps every partial", () => {
+    const source = new RecognitionEventSource();
+    source.onRecognitionResultChange(response(1, 0, "a"));
+    source.onRecognitionResultChange(response(1, 0, "ab"));
+
+    expect(source.pending).toBe(2);
+  });
+
+  test("toReadableStream delivers events and closes", async () => {
+    const source = new RecognitionEventSource();
+    source.onSentenceEnd(response(2));
+    source.onRecognitionComplete(response(undefined, 0, "", 1));
+
+    const types: string[] = [];
+    const reader = source.toReadableStream().getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      types.push(value.type);
+    }
+    expect(types).toEqual(["sentenceEnd", "complete"]);
+  });
+});
+
+describe("SpeechRecognizer.results", () => {
+  function createRecognizer(): any {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    return new SpeechRecognizer(credential, "16k_zh");
+  }
+
+  test("receives events dispatched by the recognizer", async () => {
+    const recognizer = createRecognizer();
+    const events = recognizer.results();
+
+    recognizer.handleMessage(JSON.stringify(response(undefined)));
+    recognizer.handleMessage(JSON.stringify(response(2, 0, "hi")));
+    recognizer.handleMessage(JSON.stringify(response(undefined, 0, "", 1)));
+
+    expect(await drain(events)).toEqual(["start", "sentenceEnd", "complete"]);
+    expect(recognizer.eventSources.size).toBe(0);
+  });
+
+  test("iteration ends when the recognizer stops", async () => {
+    const recognizer = createRecognizer();
+    const events = recognizer.results();
+    recognizer.state = 2; // RUNNING
+    recognizer.ws = null;
+
+    await expect(recognizer.stop()).rejects.toMatchObject({
+      code: ErrorCode.NOT_STARTED,
+    });
+    expect(await drain(events)).toEqual([]);
+  });
+
+  test("breaking out of the loop unsubscribes", async () => {
+    const recognizer = createRecognizer();
+    const events = recognizer.results();
+    recognizer.handleMessage(JSON.stringify(response(2)));
+
+    for await (const _evt of events) break;
+
+    expect(recognizer.eventSources.size).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import { AddressInfo } from "net";
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import WebSocket, { WebSocketServer } from "ws";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { createRecognitionStream } from "../src/recognition-stream";
+import { RecognizerState, SpeechRecognitionResponse } from "../src/speech-recognizer";
+
+function message(sliceType: number | undefined, text: string, final = 0): string {
+  return JSON.stringify({
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final,
+    result:
+      sliceType === undefined
+        ? undefined
+        : {
+            slice_type: sliceType,
+            index: 0,
+            start_time: 0,
+            end_time: 100,
+            voice_text_str: text,
+            word_size: 0,
+            word_list: [],
+          },
+  });
+}
+
+function collect(results: SpeechRecognitionResponse[]): Writable {
+  return new Writable({
+    objectMode: true,
+    write(resp, _enc, cb) {
+      results.push(resp);
+      cb();
+    },
+  });
+}
+
+describe("RecognitionStream", () => {
+  let server: WebSocketServer;
+  let received: number;
+  let onAudio: (socket: WebSocket) => void;
+
+  beforeEach(async () => {
+    received = 0;
+    onAudio = () => undefined;
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    server.on("connection", (socket) => {
+      socket.send(message(undefined, ""));
+      socket.on("message", (data, isBinary) => {
+        if (isBinary) {
+          received += (data as Buffer).length;
+          onAudio(socket);
+          return;
+        }
+        // End signal: report a final sentence and finish the session.
+        socket.send(message(1, "hel"));
+        socket.send(message(2, "hello"));
+        socket.send(message(undefined, "", 1));
+        socket.close();
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+  });
+
+  afterEach(async () => {
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createStream(partialResults = false) {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const stream = createRecognitionStream(credential, "16k_zh", {
+      partialResults,
+    });
+    const { port } = server.address() as AddressInfo;
+    stream.recognizer.setEndpoint(`ws://127.0.0.1:${port}`);
+    return stream;
+  }
+
+  test("pipeline sends audio and emits sentence results", async () => {
+    const results: SpeechRecognitionResponse[] = [];
+    const audio = [Buffer.alloc(6400), Buffer.alloc(6400), Buffer.alloc(3200)];
+
+    await pipeline(Readable.from(audio), createStream(), collect(results));
+
+    expect(received).toBe(16000);
+    expect(results.map((r) => r.result.voice_text_str)).toEqual(["hello"]);
+  });
+
+  test("partialResults also emits intermediate results", async () => {
+    const results: SpeechRecognitionResponse[] = [];
+
+    await pipeline(
+      Readable.from([Buffer.alloc(640)]),
+      createStream(true),
+      collect(results),
+    );
+
+    expect(results.map((r) => r.result.slice_type)).toEqual([1, 2]);
+  });
+
+  test("server errors tear down the pipeline", async () => {
+    onAudio = (socket) =>
+      socket.send(JSON.stringify({ code: 4001, message: "bad audio" }));
+
+    const source = new Readable({ read() {} });
+    source.push(Buffer.alloc(640));
+
+    await expect(
+      pipeline(source, createStream(), collect([])),
+    ).rejects.toMatchObject({ code: 4001 });
+    expect(source.destroyed).toBe(true);
+  });
+
+  test("destroy() closes the session without waiting for final results", async () => {
+    const textMessages: string[] = [];
+    const closed = new Promise<void>((resolve) =>
+      server.once("connection", (socket) => {
+        socket.on("message", (data, isBinary) => {
+          if (!isBinary) textMessages.push(data.toString());
+        });
+        socket.on("close", () => resolve());
+      }),
+    );
+    const stream = createStream();
+    await new Promise<void>((resolve, reject) =>
+      stream.write(Buffer.alloc(640), (err) => (err ? reject(err) : resolve())),
+    );
+
+    stream.destroy(new Error("consumer gone"));
+    stream.on("error", () => undefined);
+    await closed;
+
+    expect(textMessages).toEqual([]);
+    expect(stream.recognizer.getState()).toBe(RecognizerState.IDLE);
+  });
+
+  test("ending without audio never connects", async () => {
+    const results: SpeechRecognitionResponse[] = [];
+
+    await pipeline(Readable.from([]), createStream(), collect(results));
+
+    expect(server.clients.size).toBe(0);
+    expect(results).toHaveLength(0);
+  });
+
+  test("stream errors use ASRError codes", async () => {
+    const stream = createStream();
+    stream.recognizer.setEndpoint("ws://127.0.0.1:1");
+
+    await expect(
+      pipeline(Readable.from([Buffer.alloc(640)]), stream, collect([])),
+    ).rejects.toMatchObject({ code: ErrorCode.CONNECT_FAILED });
+  });
+});
@@ -0,0 +1,131 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+/** INVALID_PARAM naming the option at `path`. */
+const invalid = (path: string) =>
+  expect.objectContaining({
+    code: ErrorCode.INVALID_PARAM,
+    message: expect.stringContaining(`invalid ${path}:`),
+  });
+
+describe("SpeechRecognizerOptions", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("maps options onto the session parameters", async () => {
+    const ends: string[] = [];
+    const recognizer = new SpeechRecognizer(
+      credential(),
+      "16k_zh",
+      { onSentenceEnd: (r) => ends.push(r.result.voice_text_str) },
+      {
+        endpoint: server.wsEndpoint,
+        vadSilenceTime: 800,
+        maxSpeakTime: 30000,
+        convertNum: "math",
+        filterDirty: "replace",
+        filterModal: "partial",
+        filterPunc: "sentenceEnd",
+        wordInfo: "words",
+        hotwordId: "hw-1",
+        voiceId: "utterance-1",
+      },
+    );
+
+    await recognizer.start();
+    await recognizer.write(Buffer.alloc(32000));
+    await recognizer.stop();
+
+    expect(ends).toEqual(["你好。"]);
+    expect(server.sessions[0].voiceId).toBe("utterance-1");
+    expect(server.sessions[0].query).toMatchObject({
+      voice_format: "1",
+      needvad: "1",
+      vad_silence_time: "800",
+      max_speak_time: "30000",
+      convert_num_mode: "3",
+      filter_dirty: "2",
+      filter_modal: "1",
+      filter_punc: "1",
+      word_info: "1",
+      hotword_id: "hw-1",
+    });
+  });
+
+  test("rejects invalid fields with their path", () => {
+    const create = (options: object) =>
+      new SpeechRecognizer(credential(), "16k_zh", options as any);
+
+    expect(() => create({ vadSilenceTime: 100 })).toThrow(invalid("vadSilenceTime"));
+    expect(() => create({ maxSpeakTime: 120000 })).toThrow(invalid("maxSpeakTime"));
+    expect(() => create({ filterPunc: "some" })).toThrow(invalid("filterPunc"));
+    expect(() => create({ voiceFormat: "flac" })).toThrow(invalid("voiceFormat"));
+    expect(() => create({ endpoint: "https://asr.example.com" })).toThrow(invalid("endpoint"));
+    expect(() => create({ voiceId: "" })).toThrow(invalid("voiceId"));
+    expect(() => create({ reconnect: { maxAttempts: 0 } })).toThrow(
+      invalid("reconnect.maxAttempts"),
+    );
+    expect(() => create({ reconnect: { initialDelay: 1000, maxDelay: 10 } })).toThrow(
+      invalid("reconnect.maxDelay"),
+    );
+    expect(() => create({ vad: false, maxSpeakTime: 10000 })).toThrow(invalid("maxSpeakTime"));
+    expect(() => create({ voiceFormat: "opus", localVad: {} })).toThrow(invalid("localVad"));
+    expect(() => create({ localVad: { frameMs: 0 } })).toThrow(invalid("localVad.frameMs"));
+    expect(() => create({ localVad: { hangoverMs: -1 } })).toThrow(
+      invalid("localVad.hangoverMs"),
+    );
+    expect(() => create({ sendQueue: { highWaterMark: -5 } })).toThrow(
+      invalid("sendQueue.highWaterMark"),
+    );
+    expect(() => create({ sendQueue: { policy: "bogus" } })).toThrow(invalid("sendQueue.policy"));
+  });
+
+  test("configure() checks against current settings and applies nothing on error", async () => {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh", {
+      endpoint: server.wsEndpoint,
+      vadSilenceTime: 800,
+    });
+
+    expect(() => recognizer.configure({ filterDirty: "replace", vad: false })).toThrow(
+      invalid("vadSilenceTime"),
+    );
+    recognizer.configure({ vad: false, vadSilenceTime: 0 });
+
+    await recognizer.start();
+    await recognizer.stop();
+    expect(server.sessions[0].query).toMatchObject({ needvad: "0" });
+    expect(server.sessions[0].query).not.toHaveProperty("filter_dirty");
+    expect(server.sessions[0].query).not.toHaveProperty("vad_silence_time");
+  });
+
+  test("setters validate too and start() checks combinations before connecting", async () => {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+
+    expect(() => recognizer.setFilterPunc(5)).toThrow(invalid("filterPunc"));
+    expect(() => recognizer.setWordInfo(-1)).toThrow(invalid("wordInfo"));
+    expect(() => recognizer.setVadSilenceTime(5000)).toThrow(invalid("vadSilenceTime"));
+    expect(() => recognizer.setWriteTimeout(0)).toThrow(invalid("writeTimeout"));
+    expect(() => recognizer.setLocalVad({ frameMs: 0.01 })).toThrow(invalid("localVad.frameMs"));
+    expect(() => recognizer.setSendQueue({ highWaterMark: 0 })).toThrow(
+      invalid("sendQueue.highWaterMark"),
+    );
+
+    recognizer.setNeedVad(0);
+    recognizer.setMaxSpeakTime(10000);
+    await expect(recognizer.start()).rejects.toEqual(invalid("maxSpeakTime"));
+    expect(server.sessions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { RecognizerPool } from "../src/recognizer-pool";
+import { SentenceRecognizer } from "../src/sentence-recognizer";
+import { RecognizerState, SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+/** Promise that settles only when told to. */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RecognizerPool", () => {
+  test("limits concurrent tasks and reports occupancy", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const tasks = gates.map((gate, i) =>
+      pool.run(async () => {
+        started.push(i);
+        await gate.promise;
+        return i;
+      }),
+    );
+    await tick();
+
+    expect(started).toEqual([0, 1]);
+    expect(pool.getStats()).toMatchObject({ active: 2, queued: 1 });
+
+    gates[0].resolve();
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+    expect(pool.getStats()).toMatchObject({ active: 2, queued: 0, completed: 1 });
+
+    gates[1].reject(new Error("boom"));
+    gates[2].resolve();
+    const results = await Promise.allSettled(tasks);
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    expect(pool.getStats()).toMatchObject({ active: 0, completed: 2, failed: 1 });
+  });
+
+  test("dequeues by priority, then in arrival order", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const first = pool.run(() => gate.promise);
+    const rest = [
+      pool.run(task("low"), { priority: -1 }),
+      pool.run(task("normal-1")),
+      pool.run(task("high"), { priority: 5 }),
+      pool.run(task("normal-2")),
+    ];
+    gate.resolve();
+    await Promise.all([first, ...rest]);
+
+    expect(order).toEqual(["high", "normal-1", "normal-2", "low"]);
+  });
+
+  test("rejects tasks that wait longer than the queue timeout", async () => {
+    jest.useFakeTimers();
+    try {
+      const pool = new RecognizerPool({ maxConcurrent: 1, queueTimeout: 1000 });
+      const gate = deferred();
+      const first = pool.run(() => gate.promise);
+      const waiting = pool.run(async () => "late", { queueTimeout: 500 });
+      const patient = pool.run(async () => "ok");
+
+      jest.advanceTimersByTime(600);
+      await expect(waiting).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+      expect(pool.getStats()).toMatchObject({ queued: 1, rejected: 1 });
+
+      gate.resolve();
+      await first;
+      await expect(patient).resolves.toBe("ok");
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("shutdown rejects queued work, stops live sessions and waits", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 1 });
+    const ended = deferred();
+    const session = {
+      stop: jest.fn(async () => {
+        ended.resolve();
+      }),
+    };
+
+    let finished = false;
+    const live = pool.runRecognizer(session, async () => {
+      await ended.promise;
+      finished = true;
+    });
+    const queued = pool.run(async () => "never");
+    await tick();
+    expect(pool.getStats().sessions).toBe(1);
+
+    await pool.shutdown();
+
+    expect(session.stop).toHaveBeenCalledTimes(1);
+    expect(finished).toBe(true);
+    await live;
+    await expect(queued).rejects.toMatchObject({ code: ErrorCode.ALREADY_STOPPED });
+    await expect(pool.run(async () => 1)).rejects.toMatchObject({
+      code: ErrorCode.ALREADY_STOPPED,
+    });
+    expect(pool.getStats()).toMatchObject({ active: 0, sessions: 0, rejected: 2 });
+  });
+
+  test("shutdown stops sessions that are still connecting once they open", async () => {
+    const server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+    try {
+      server.injectFault("realtime", { type: "latency", ms: 200 });
+      const credential = new Credential(1300000000, 1400000000, "test-secret");
+      const recognizer = new SpeechRecognizer(credential, "16k_zh");
+      recognizer.setEndpoint(server.wsEndpoint);
+      const pool = new RecognizerPool({ maxConcurrent: 1 });
+
+      const task = pool.runRecognizer(recognizer, async (r) => {
+        await r.start();
+        await new Promise((resolve) => r.once("complete", resolve));
+      });
+      await new Promise((resolve) => recognizer.once("stateChange", resolve));
+      expect(recognizer.getState()).toBe(RecognizerState.STARTING);
+
+      await pool.shutdown();
+      await task;
+      expect(recognizer.getState()).toBe(RecognizerState.STOPPED);
+      expect(server.sessions[0].ended).toBe(true);
+      expect(recognizer.listenerCount("stateChange")).toBe(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("shutdown cancels running requests through lease.signal", async () => {
+    const server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+    try {
+      server.injectFault("sentence", { type: "latency", ms: 60000 });
+      const credential = new Credential(1300000000, 1400000000, "test-secret");
+      const sentence = new SentenceRecognizer(credential);
+      sentence.setEndpoint(server.httpEndpoint);
+      const pool = new RecognizerPool({ maxConcurrent: 1 });
+
+      const task = pool.run((lease) =>
+        sentence.recognizeData(Buffer.alloc(320), "pcm", "16k_zh", { signal: lease.signal }),
+      );
+      await new Promise((resolve) => server.once("request", resolve));
+
+      await pool.shutdown();
+      await expect(task).rejects.toMatchObject({
+        code: ErrorCode.CANCELLED,
+        message: expect.stringContaining("recognizer pool shut down"),
+      });
+      expect(pool.getStats()).toMatchObject({ active: 0, failed: 1 });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("shutdown can time out while tasks are still running", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 1 });
+    const gate = deferred();
+    const task = pool.run(() => gate.promise);
+    await tick();
+
+    await expect(pool.shutdown({ timeout: 10 })).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+    });
+    gate.resolve();
+    await task;
+    await expect(pool.shutdown()).resolves.toBeUndefined();
+  });
+
+  test("shuts down on a signal and re-raises it", async () => {
+    const pool = new RecognizerPool({ maxConcurrent: 1 });
+    const kill = jest.spyOn(process, "kill").mockImplementation(() => true);
+    try {
+      pool.shutdownOnSignal(["SIGUSR2"]);
+      process.emit("SIGUSR2", "SIGUSR2");
+      await tick();
+
+      expect(pool.isShutdown).toBe(true);
+      expect(process.listenerCount("SIGUSR2")).toBe(0);
+      expect(kill).toHaveBeenCalledWith(process.pid, "SIGUSR2");
+    } finally {
+      kill.mockRestore();
+    }
+  });
+
+  test("validates maxConcurrent", () => {
+    expect(() => new RecognizerPool({ maxConcurrent: 0 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+});
@@ -1,6 +1,11 @@
 import { Credential } from "../src/credential";
 import { ASRError, ErrorCode } from "../src/errors";
-import { SpeechRecognitionListener, SpeechRecognizer } from "../src/speech-recognizer";
+import {
+  RecognizerState,
+  SpeechRecognitionListener,
+  SpeechRecognizer,
+} from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
 
 function createListener(): SpeechRecognitionListener {
   return {
@@ -52,3 +57,124 @@ describe("SpeechRecognizer lifecycle robustness", () => {
     expect(recognizer.state).toBe(4); // STOPPED
   });
 });
+
+describe("SpeechRecognizer state", () => {
+  // 200ms of 16kHz 16-bit PCM.
+  const CHUNK = Buffer.alloc(6400);
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。"] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function connectedRecognizer() {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+    const states: string[] = [];
+    recognizer.on("stateChange", (state, previous) => states.push(`${previous}->${state}`));
+    return { recognizer, states };
+  }
+
+  const rejection = (code: number) => expect.objectContaining({ code });
+
+  test("reports transitions and restarts with a fresh voice_id", async () => {
+    const { recognizer, states } = connectedRecognizer();
+    expect(recognizer.getState()).toBe(RecognizerState.IDLE);
+
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+    await recognizer.stop();
+    expect(states).toEqual(["0->1", "1->2", "2->3", "3->4"]);
+    await expect(recognizer.start()).rejects.toEqual(rejection(ErrorCode.ALREADY_STOPPED));
+
+    recognizer.reset();
+    expect(recognizer.getState()).toBe(RecognizerState.IDLE);
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+    await recognizer.stop();
+
+    expect(server.sessions).toHaveLength(2);
+    expect(server.sessions[1].voiceId).not.toBe(server.sessions[0].voiceId);
+    expect(server.sessions[1]).toMatchObject({ audioBytes: CHUNK.length, ended: true });
+  });
+
+  test("write() and stop() in each state", async () => {
+    const { recognizer } = connectedRecognizer();
+    const expectCalls = async (write: number | null, stop: number) => {
+      if (write === null) {
+        await recognizer.write(CHUNK);
+      } else {
+        await expect(recognizer.write(CHUNK)).rejects.toEqual(rejection(write));
+      }
+      await expect(recognizer.stop()).rejects.toEqual(rejection(stop));
+    };
+
+    // IDLE
+    await expectCalls(ErrorCode.NOT_STARTED, ErrorCode.NOT_STARTED);
+
+    // STARTING
+    const starting = recognizer.start();
+    expect(recognizer.getState()).toBe(RecognizerState.STARTING);
+    await expectCalls(ErrorCode.NOT_STARTED, ErrorCode.NOT_STARTED);
+    await expect(recognizer.start()).rejects.toEqual(rejection(ErrorCode.ALREADY_STARTED));
+    expect(() => recognizer.reset()).toThrow(rejection(ErrorCode.ALREADY_STARTED));
+    await starting;
+
+    // RUNNING
+    await recognizer.write(CHUNK);
+
+    // STOPPING
+    const stopping = recognizer.stop();
+    expect(recognizer.getState()).toBe(RecognizerState.STOPPING);
+    await expectCalls(ErrorCode.NOT_STARTED, ErrorCode.ALREADY_STOPPED);
+    expect(() => recognizer.reset()).toThrow(rejection(ErrorCode.ALREADY_STOPPED));
+    await stopping;
+
+    // STOPPED
+    expect(recognizer.getState()).toBe(RecognizerState.STOPPED);
+    await expectCalls(ErrorCode.NOT_STARTED, ErrorCode.ALREADY_STOPPED);
+  });
+
+  test("a failed session ends STOPPED and can be reset", async () => {
+    server.injectFault("realtime", { type: "serverError", code: 4008, afterMs: 200 });
+    const { recognizer, states } = connectedRecognizer();
+    const failed = new Promise<RecognizerState>((resolve) =>
+      recognizer.on("fail", () => resolve(recognizer.getState())),
+    );
+
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+    // "fail" is reported before the session is marked STOPPED.
+    expect(await failed).toBe(RecognizerState.RUNNING);
+    expect(recognizer.getState()).toBe(RecognizerState.STOPPED);
+    await expect(recognizer.write(CHUNK)).rejects.toEqual(rejection(ErrorCode.NOT_STARTED));
+
+    recognizer.reset();
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+    await recognizer.stop();
+    expect(states).toEqual(["0->1", "1->2", "2->4", "4->0", "0->1", "1->2", "2->3", "3->4"]);
+  });
+
+  test("reset() closes a running session without reporting a failure", async () => {
+    const { recognizer, states } = connectedRecognizer();
+    const failures: unknown[] = [];
+    recognizer.on("fail", (_r, err) => failures.push(err));
+
+    await recognizer.start();
+    await recognizer.write(CHUNK);
+    recognizer.reset();
+    await recognizer.start();
+    await recognizer.stop();
+
+    expect(failures).toEqual([]);
+    expect(states).toEqual(["0->1", "1->2", "2->0", "0->1", "1->2", "2->3", "3->4"]);
+    expect(server.sessions[0].ended).toBe(false);
+  });
+});
@@ -0,0 +1,245 @@
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { AudioRingBuffer } from "../src/audio-ring-buffer";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import {
+  SpeechRecognitionListener,
+  SpeechRecognitionResponse,
+  SpeechRecognizer,
+} from "../src/speech-recognizer";
+
+interface Session {
+  socket: WebSocket;
+  received: number;
+}
+
+function sentence(
+  sliceType: number,
+  index: number,
+  startTime: number,
+  endTime: number,
+  text: string,
+): string {
+  return JSON.stringify({
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final: 0,
+    result: {
+      slice_type: sliceType,
+      index,
+      start_time: startTime,
+      end_time: endTime,
+      voice_text_str: text,
+      word_size: 0,
+      word_list: [],
+    },
+  });
+}
+
+function waitFor(cond: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (cond()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("condition timeout"));
+      setTimeout(tick, 5);
+    };
+    tick();
+  });
+}
+
+function createListener() {
+  const events: string[] = [];
+  const ends: SpeechRecognitionResponse[] = [];
+  const failures: Error[] = [];
+  const listener: SpeechRecognitionListener = {
+    onRecognitionStart: () => events.push("start"),
+    onSentenceBegin: () => events.push("begin"),
+    onRecognitionResultChange: () => events.push("change"),
+    onSentenceEnd: (resp) => {
+      events.push("end");
+      ends.push(resp);
+    },
+    onRecognitionComplete: () => events.push("complete"),
+    onFail: (_resp, err) => {
+      events.push("fail");
+      failures.push(err);
+    },
+    onReconnecting: (attempt) => events.push(`reconnecting:${attempt}`),
+    onReconnected: (attempt) => events.push(`reconnected:${attempt}`),
+  };
+  return { listener, events, ends, failures };
+}
+
+describe("SpeechRecognizer reconnection", () => {
+  let server: WebSocketServer;
+  let sessions: Session[];
+
+  beforeEach(async () => {
+    sessions = [];
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    server.on("connection", (socket) => {
+      const session: Session = { socket, received: 0 };
+      sessions.push(session);
+      socket.on("message", (data, isBinary) => {
+        if (isBinary) session.received += (data as Buffer).length;
+      });
+      socket.send(
+        JSON.stringify({ code: 0, message: "success", voice_id: "v", final: 0 }),
+      );
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+  });
+
+  afterEach(async () => {
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createRecognizer(listener: SpeechRecognitionListener): SpeechRecognizer {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh", listener);
+    const { port } = server.address() as AddressInfo;
+    recognizer.setEndpoint(`ws://127.0.0.1:${port}`);
+    return recognizer;
+  }
+
+  test("without a policy an unexpected close reports onFail", async () => {
+    const { listener, events, failures } = createListener();
+    const recognizer = createRecognizer(listener);
+    await recognizer.start();
+
+    sessions[0].socket.terminate();
+    await waitFor(() => failures.length === 1);
+
+    expect(failures[0]).toMatchObject({ code: ErrorCode.READ_FAILED });
+    expect(events).not.toContain("reconnecting:1");
+  });
+
+  test("replays recent audio and shifts the timeline after reconnect", async () => {
+    const { listener, events, ends } = createListener();
+    const recognizer = createRecognizer(listener);
+    recognizer.setReconnectPolicy({ initialDelay: 10, replaySeconds: 1 });
+    await recognizer.start();
+
+    // 2s of 16kHz 16-bit PCM; only the last second is retained.
+    for (let i = 0; i < 10; i++) {
+      await recognizer.write(Buffer.alloc(6400));
+    }
+    await waitFor(() => sessions[0].received === 64000);
+
+    sessions[0].socket.send(sentence(2, 0, 0, 500, "first"));
+    await waitFor(() => ends.length === 1);
+    sessions[0].socket.terminate();
+
+    await waitFor(() => events.includes("reconnected:1"));
+    await waitFor(() => sessions[1].received === 32000);
+
+    sessions[1].socket.send(sentence(2, 0, 0, 300, "second"));
+    await waitFor(() => ends.length === 2);
+
+    expect(ends[1].result).toMatchObject({
+      index: 1,
+      start_time: 1000,
+      end_time: 1300,
+    });
+    expect(events.filter((e) => e === "start")).toHaveLength(1);
+    expect(events).toContain("reconnecting:1");
+    expect(events).not.toContain("fail");
+  });
+
+  test("suppresses sentences repeated from replayed audio", async () => {
+    const { listener, events, ends } = createListener();
+    const recognizer = createRecognizer(listener);
+    recognizer.setReconnectPolicy({ initialDelay: 10, replaySeconds: 1 });
+    await recognizer.start();
+
+    for (let i = 0; i < 10; i++) {
+      await recognizer.write(Buffer.alloc(6400));
+    }
+    sessions[0].socket.send(sentence(2, 0, 0, 1500, "first"));
+    await waitFor(() => ends.length === 1);
+    sessions[0].socket.terminate();
+
+    await waitFor(() => events.includes("reconnected:1"));
+    sessions[1].socket.send(sentence(2, 0, 100, 500, "repeated"));
+    sessions[1].socket.send(sentence(2, 1, 600, 900, "new"));
+    await waitFor(() => ends.length === 2);
+
+    expect(ends[1].result.voice_text_str).toBe("new");
+    expect(ends[1].result.index).toBe(1);
+  });
+
+  test("buffers writes while reconnecting and stops cleanly", async () => {
+    const { listener, events, failures } = createListener();
+    const recognizer = createRecognizer(listener);
+    recognizer.setReconnectPolicy({ initialDelay: 200 });
+    await recognizer.start();
+
+    sessions[0].socket.terminate();
+    await waitFor(() => events.includes("reconnecting:1"));
+
+    await expect(recognizer.write(Buffer.alloc(640))).resolves.toBeUndefined();
+    await expect(recognizer.stop()).resolves.toBeUndefined();
+    expect(failures).toHaveLength(0);
+  });
+
+  test("stop() and reset() cancel the backoff delay", async () => {
+    const timers = () =>
+      process.getActiveResourcesInfo().filter((r) => r === "Timeout").length;
+    for (const end of ["stop", "reset"] as const) {
+      const { listener, events, failures } = createListener();
+      const recognizer = createRecognizer(listener);
+      recognizer.setReconnectPolicy({ initialDelay: 60000 });
+      await recognizer.start();
+
+      sessions[sessions.length - 1].socket.terminate();
+      await waitFor(() => events.includes("reconnecting:1"));
+      const pending = timers();
+      if (end === "stop") {
+        await recognizer.stop();
+      } else {
+        recognizer.reset();
+      }
+      expect(timers()).toBe(pending - 1);
+      expect(failures).toHaveLength(0);
+    }
+  });
+
+  test("reports onFail once all attempts fail", async () => {
+    const { listener, events, failures } = createListener();
+    const recognizer = createRecognizer(listener);
+    recognizer.setReconnectPolicy({ maxAttempts: 2, initialDelay: 100 });
+    await recognizer.start();
+
+    sessions[0].socket.terminate();
+    server.close();
+
+    await waitFor(() => failures.length === 1);
+    expect(events).toContain("reconnecting:2");
+    expect(failures[0].message).toContain("reconnect failed after 2 attempts");
+  });
+});
+
+describe("AudioRingBuffer", () => {
+  test("keeps the most recent bytes aligned to the sample size", () => {
+    const buf = new AudioRingBuffer(4, 2);
+    buf.push(Buffer.from([1, 2, 3]));
+    buf.push(Buffer.from([4, 5, 6]));
+
+    expect(buf.totalBytes).toBe(6);
+    expect(buf.startOffset).toBe(2);
+    expect([...buf.read()]).toEqual([3, 4, 5, 6]);
+  });
+
+  test("zero capacity only tracks the total", () => {
+    const buf = new AudioRingBuffer(0);
+    buf.push(Buffer.alloc(10));
+
+    expect(buf.length).toBe(0);
+    expect(buf.totalBytes).toBe(10);
+  });
+});
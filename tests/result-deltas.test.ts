@@ -0,0 +1,151 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { ResultDelta, ResultDeltaTracker } from "../src/result-deltas";
+import { SpeechRecognizer, WordInfo } from "../src/speech-recognizer";
+
+/** Words given as [word, stable] pairs. */
+function resp(sliceType: number, index: number, text: string, words: [string, number][] = []) {
+  const wordList: WordInfo[] = words.map(([word, stable]) => ({
+    word,
+    start_time: 0,
+    end_time: 0,
+    stable_flag: stable,
+  }));
+  return {
+    code: 0,
+    message: "success",
+    voice_id: "voice-1",
+    message_id: `m-${index}-${sliceType}`,
+    final: 0,
+    result: {
+      slice_type: sliceType,
+      index,
+      start_time: 0,
+      end_time: 0,
+      voice_text_str: text,
+      word_size: wordList.length,
+      word_list: wordList,
+    },
+  };
+}
+
+function collect(tracker: ResultDeltaTracker): ResultDelta[] {
+  const deltas: ResultDelta[] = [];
+  tracker.on("delta", (d) => deltas.push(d));
+  return deltas;
+}
+
+/** [removed, appended, stable, unstable] of each delta. */
+const changes = (deltas: ResultDelta[]) =>
+  deltas.map((d) => [d.removed, d.appended, d.stable, d.unstable]);
+
+describe("ResultDeltaTracker", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("uses stable_flag for the stable prefix", () => {
+    const tracker = new ResultDeltaTracker();
+    const deltas = collect(tracker);
+
+    tracker.update(resp(1, 0, "今天天气", [["今天", 1], ["天气", 0]]));
+    tracker.update(resp(1, 0, "今天天津", [["今天", 1], ["天津", 0]]));
+    tracker.update(resp(1, 0, "今天天津，下雨", [["今天", 1], ["天津", 1], ["下雨", 0]]));
+    tracker.update(resp(1, 0, "今天天津，下雨", [["今天", 1], ["天津", 1], ["下雨", 0]]));
+    tracker.update(resp(2, 0, "今天天津下雨。", [["今天", 1], ["天津", 1], ["下雨", 1]]));
+
+    expect(changes(deltas)).toEqual([
+      ["", "今天天气", "今天", "天气"],
+      ["气", "津", "今天", "天津"],
+      ["", "，下雨", "今天天津", "，下雨"],
+      ["，下雨", "下雨。", "今天天津下雨。", ""],
+    ]);
+    expect(deltas.map((d) => d.final)).toEqual([false, false, false, true]);
+    expect(deltas.every((d) => d.fromWordInfo)).toBe(true);
+  });
+
+  test("falls back to text diffing without word info", () => {
+    const tracker = new ResultDeltaTracker();
+    const deltas = collect(tracker);
+
+    tracker.update(resp(0, 3, ""));
+    tracker.update(resp(1, 3, "我想"));
+    tracker.update(resp(1, 3, "我想要"));
+    tracker.update(resp(1, 3, "我像要去"));
+    tracker.update(resp(2, 3, "我想要去。"));
+    tracker.update(resp(1, 4, "好"));
+
+    expect(changes(deltas)).toEqual([
+      ["", "我想", "", "我想"],
+      ["", "要", "我想", "要"],
+      ["想要", "像要去", "我", "像要去"],
+      ["像要去", "想要去。", "我想要去。", ""],
+      ["", "好", "", "好"],
+    ]);
+    expect(deltas.map((d) => d.index)).toEqual([3, 3, 3, 3, 4]);
+    expect(deltas.some((d) => d.fromWordInfo)).toBe(false);
+  });
+
+  test("throttles and debounces partial results but not final ones", () => {
+    jest.useFakeTimers();
+    const throttled = new ResultDeltaTracker({ throttleMs: 100 });
+    const throttledDeltas = collect(throttled);
+    const debounced = new ResultDeltaTracker({ debounceMs: 50, throttleMs: 200 });
+    const debouncedDeltas = collect(debounced);
+    const both = (r: ReturnType<typeof resp>) => {
+      throttled.update(r);
+      debounced.update(r);
+    };
+
+    both(resp(1, 0, "一"));
+    both(resp(1, 0, "一二"));
+    both(resp(1, 0, "一二三"));
+    expect(throttledDeltas.map((d) => d.text)).toEqual(["一"]);
+    expect(debouncedDeltas).toEqual([]);
+
+    jest.advanceTimersByTime(100);
+    // The skipped revision is folded into the next delta.
+    expect(changes(throttledDeltas)[1]).toEqual(["", "二三", "一二", "三"]);
+    expect(debouncedDeltas.map((d) => d.text)).toEqual(["一二三"]);
+
+    // Continuous updates every 40ms are still reported every 200ms.
+    for (let i = 4; i <= 9; i++) {
+      both(resp(1, 0, "一二三四五六七八九".slice(0, i)));
+      jest.advanceTimersByTime(40);
+    }
+    expect(debouncedDeltas.map((d) => d.text)).toEqual(["一二三", "一二三四五六七八"]);
+
+    both(resp(2, 0, "一二三四五六七八九十。"));
+    expect(throttledDeltas[throttledDeltas.length - 1]).toMatchObject({ final: true });
+    expect(debouncedDeltas[debouncedDeltas.length - 1]).toMatchObject({
+      removed: "",
+      appended: "九十。",
+      final: true,
+    });
+    expect(jest.getTimerCount()).toBe(0);
+
+    expect(() => new ResultDeltaTracker({ throttleMs: -1 })).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+
+  test("subscribes to a recognizer and reports delayed results on completion", () => {
+    jest.useFakeTimers();
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+    const tracker = new ResultDeltaTracker({ debounceMs: 1000 }).attach(recognizer);
+    const deltas = collect(tracker);
+
+    recognizer.handleMessage(JSON.stringify(resp(1, 0, "你好")));
+    expect(deltas).toEqual([]);
+    recognizer.handleMessage(
+      JSON.stringify({ ...resp(0, 0, ""), final: 1, result: undefined }),
+    );
+    expect(deltas.map((d) => d.text)).toEqual(["你好"]);
+
+    tracker.detach();
+    recognizer.handleMessage(JSON.stringify(resp(2, 1, "再见。")));
+    expect(deltas).toHaveLength(1);
+    expect(recognizer.listenerCount("resultChange")).toBe(0);
+  });
+});
@@ -0,0 +1,193 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SendQueue, SendTransport } from "../src/send-queue";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+
+/** Transport that completes sends only when told to. */
+function manualTransport() {
+  const sent: Buffer[] = [];
+  const callbacks: ((err?: Error) => void)[] = [];
+  const transport: SendTransport = (data, cb) => {
+    sent.push(data);
+    callbacks.push(cb);
+  };
+  const complete = (err?: Error) => callbacks.shift()!(err);
+  return { transport, sent, complete };
+}
+
+function chunk(size: number, fill = 0): Buffer {
+  return Buffer.alloc(size, fill);
+}
+
+describe("SendQueue", () => {
+  test("accepts writes up to the high-water mark without waiting", async () => {
+    const { transport, sent } = manualTransport();
+    const queue = new SendQueue({ highWaterMark: 300 }, transport);
+
+    await queue.enqueue(chunk(100), 1000);
+    await queue.enqueue(chunk(100), 1000);
+    await queue.enqueue(chunk(100), 1000);
+
+    expect(sent).toHaveLength(1);
+    expect(queue.occupancy).toBe(300);
+    expect(queue.stats()).toMatchObject({
+      queuedChunks: 2,
+      inFlightBytes: 100,
+    });
+  });
+
+  test("block policy waits for space and emits drain when empty", async () => {
+    const { transport, sent, complete } = manualTransport();
+    const onDrain = jest.fn();
+    const queue = new SendQueue({ highWaterMark: 200 }, transport, onDrain);
+
+    await queue.enqueue(chunk(100), 1000);
+    await queue.enqueue(chunk(100), 1000);
+    let accepted = false;
+    const blocked = queue.enqueue(chunk(100), 1000).then(() => {
+      accepted = true;
+    });
+
+    await Promise.resolve();
+    expect(accepted).toBe(false);
+
+    complete();
+    await blocked;
+    expect(accepted).toBe(true);
+
+    complete();
+    complete();
+    expect(sent).toHaveLength(3);
+    expect(onDrain).toHaveBeenCalledTimes(1);
+  });
+
+  test("block policy times out with WRITE_FAILED", async () => {
+    const { transport } = manualTransport();
+    const queue = new SendQueue({ highWaterMark: 100 }, transport);
+
+    await queue.enqueue(chunk(100), 1000);
+    await expect(queue.enqueue(chunk(100), 10)).rejects.toMatchObject({
+      code: ErrorCode.WRITE_FAILED,
+    });
+  });
+
+  test("dropNewest discards incoming audio when full", async () => {
+    const { transport, sent, complete } = manualTransport();
+    const queue = new SendQueue(
+      { highWaterMark: 200, policy: "dropNewest" },
+      transport,
+    );
+
+    await queue.enqueue(chunk(100, 1), 1000);
+    await queue.enqueue(chunk(100, 2), 1000);
+    await queue.enqueue(chunk(100, 3), 1000);
+    complete();
+    complete();
+
+    expect(sent.map((b) => b[0])).toEqual([1, 2]);
+    expect(queue.stats()).toMatchObject({
+      droppedBytes: 100,
+      droppedChunks: 1,
+    });
+  });
+
+  test("dropOldest discards queued audio that was not yet sent", async () => {
+    const { transport, sent, complete } = manualTransport();
+    const queue = new SendQueue(
+      { highWaterMark: 200, policy: "dropOldest" },
+      transport,
+    );
+
+    await queue.enqueue(chunk(100, 1), 1000); // in flight
+    await queue.enqueue(chunk(100, 2), 1000);
+    await queue.enqueue(chunk(100, 3), 1000);
+    complete();
+    complete();
+
+    expect(sent.map((b) => b[0])).toEqual([1, 3]);
+    expect(queue.stats().droppedChunks).toBe(1);
+  });
+
+  test("a failed send rejects later writes and settles drain", async () => {
+    const { transport, complete } = manualTransport();
+    const queue = new SendQueue({ highWaterMark: 1000 }, transport);
+
+    await queue.enqueue(chunk(100), 1000);
+    const drained = queue.waitForDrain();
+    complete(new Error("socket closed"));
+
+    await drained;
+    await expect(queue.enqueue(chunk(100), 1000)).rejects.toMatchObject({
+      code: ErrorCode.WRITE_FAILED,
+    });
+  });
+
+  test("reset returns unsent audio and clears the error", async () => {
+    const { transport } = manualTransport();
+    const queue = new SendQueue({ highWaterMark: 150 }, transport);
+
+    await queue.enqueue(chunk(100, 1), 1000);
+    await queue.enqueue(chunk(50, 2), 1000);
+    const blocked = queue.enqueue(chunk(100, 3), 1000);
+
+    const pending = queue.reset();
+    await blocked;
+
+    expect(pending.map((b) => b[0])).toEqual([2, 3]);
+    expect(queue.occupancy).toBe(0);
+  });
+});
+
+describe("SpeechRecognizer send queue", () => {
+  function createRunningRecognizer(policy: "block" | "dropNewest") {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+    recognizer.setSendQueue({ highWaterMark: 6400, policy });
+    const { transport, sent, complete } = manualTransport();
+    recognizer.state = 2; // RUNNING
+    recognizer.ws = {
+      bufferedAmount: 0,
+      send: (data: any, cb: (err?: Error) => void) =>
+        typeof data === "string" ? cb() : transport(data, cb),
+      close: () => undefined,
+    };
+    recognizer.sendQueue = new SendQueue(
+      recognizer.sendQueueOptions,
+      (data, cb) => recognizer.sendAudio(data, cb),
+      () => recognizer.emit("drain"),
+    );
+    return { recognizer, sent, complete };
+  }
+
+  test("reports dropped audio in milliseconds", async () => {
+    const { recognizer } = createRunningRecognizer("dropNewest");
+
+    await recognizer.write(chunk(6400));
+    await recognizer.write(chunk(3200));
+
+    expect(recognizer.getSendStats()).toMatchObject({
+      sentBytes: 6400,
+      droppedBytes: 3200,
+      droppedMs: 100,
+    });
+  });
+
+  test("stop flushes queued audio before the end signal", async () => {
+    const { recognizer, sent, complete } = createRunningRecognizer("block");
+    const drained = jest.fn();
+    recognizer.on("drain", drained);
+
+    await recognizer.write(chunk(6400));
+    const blocked = recognizer.write(chunk(6400));
+    const stopping = recognizer.stop();
+
+    complete();
+    await blocked;
+    complete();
+    await stopping;
+
+    expect(sent).toHaveLength(2);
+    expect(drained).toHaveBeenCalledTimes(1);
+    expect(recognizer.state).toBe(4); // STOPPED
+  });
+});
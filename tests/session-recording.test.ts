@@ -0,0 +1,164 @@
+import { Credential } from "../src/credential";
+import { ASRError, ErrorCode } from "../src/errors";
+import {
+  SessionRecorder,
+  SessionReplayer,
+  SessionRecording,
+  parseRecording,
+} from "../src/session-recording";
+import { SpeechRecognitionListener, SpeechRecognizer } from "../src/speech-recognizer";
+import { MockASRServer } from "../src/testing";
+
+const credential = () => new Credential(1300000000, 1400000000, "test-secret");
+
+// 200ms of 16kHz 16-bit PCM.
+const CHUNK = Buffer.alloc(6400, 1);
+
+function recordEvents(recognizer: SpeechRecognizer) {
+  const events: string[] = [];
+  recognizer.on("start", () => events.push("start"));
+  recognizer.on("sentenceBegin", (r) => events.push(`begin:${r.result.index}`));
+  recognizer.on("resultChange", (r) => events.push(`change:${r.result.voice_text_str}`));
+  recognizer.on("sentenceEnd", (r) =>
+    events.push(`end:${r.result.index}:${r.result.start_time}-${r.result.end_time}`),
+  );
+  recognizer.on("complete", () => events.push("complete"));
+  recognizer.on("fail", (_r, err) => events.push(`fail:${(err as any).code}`));
+  return events;
+}
+
+describe("session recording", () => {
+  let server: MockASRServer;
+
+  beforeEach(async () => {
+    server = new MockASRServer({ transcript: ["你好。", "今天天气不错。"] });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function recordSession(configure?: (r: SpeechRecognizer) => void) {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    recognizer.setEndpoint(server.wsEndpoint);
+    configure?.(recognizer);
+    const recorder = new SessionRecorder();
+    recognizer.setRecorder(recorder);
+    const events = recordEvents(recognizer);
+
+    await recognizer.start();
+    for (let i = 0; i < 8; i++) {
+      await recognizer.write(CHUNK);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await recognizer.stop();
+    // The file format round-trips.
+    const recording = parseRecording(recorder.toJSONL());
+    expect(recording).toEqual(recorder.getRecording());
+    return { recording, events };
+  }
+
+  function replayRecognizer(configure?: (r: SpeechRecognizer) => void) {
+    const recognizer = new SpeechRecognizer(credential(), "16k_zh");
+    // Nothing listens here: replay must not touch the network.
+    recognizer.setEndpoint("ws://127.0.0.1:1");
+    configure?.(recognizer);
+    return recognizer;
+  }
+
+  test("captures audio and messages without credentials", async () => {
+    const { recording } = await recordSession((r) => r.setVadSilenceTime(800));
+
+    expect(recording.header).toMatchObject({
+      format: "trtc-asr-session",
+      engine: "16k_zh",
+      voiceFormat: 1,
+      params: { engine_model_type: "16k_zh", vad_silence_time: "800" },
+    });
+    expect(recording.header.params).not.toHaveProperty("signature");
+    const types = recording.events.map((e) => e.type);
+    expect(types[0]).toBe("open");
+    expect(types.filter((t) => t === "audio")).toHaveLength(8);
+    expect(types.indexOf("end")).toBeGreaterThan(types.lastIndexOf("audio"));
+    const audio = recording.events.find((e) => e.type === "audio") as any;
+    expect(Buffer.from(audio.data, "base64")).toEqual(CHUNK);
+    const last = recording.events.filter((e) => e.type === "message").pop() as any;
+    expect(last.response.final).toBe(1);
+  });
+
+  test("replays through a listener and through a recognizer", async () => {
+    const { recording, events } = await recordSession();
+
+    const ends: string[] = [];
+    let completed = false;
+    const listener: Partial<SpeechRecognitionListener> = {
+      onSentenceEnd: (r) => ends.push(r.result.voice_text_str),
+      onRecognitionComplete: () => (completed = true),
+    };
+    await new SessionReplayer(recording, { speed: Infinity }).replayTo(listener);
+    expect(ends).toEqual(["你好。", "今天天气不错。"]);
+    expect(completed).toBe(true);
+
+    const recognizer = replayRecognizer();
+    const replayed = recordEvents(recognizer);
+    await new SessionReplayer(recording, { speed: Infinity }).replayThrough(recognizer);
+    expect(replayed).toEqual(events);
+    expect(server.sessions).toHaveLength(1);
+  });
+
+  test("replays reconnects onto the same timeline", async () => {
+    server.injectFault("realtime", { type: "disconnect", afterMs: 800 });
+    const policy = { initialDelay: 10, replaySeconds: 1 };
+    const { recording, events } = await recordSession((r) => r.setReconnectPolicy(policy));
+    expect(recording.events.filter((e) => e.type === "open")).toHaveLength(2);
+    expect(recording.events.some((e) => e.type === "audio" && e.replayed)).toBe(true);
+
+    const recognizer = replayRecognizer((r) => r.setReconnectPolicy(policy));
+    const replayed = recordEvents(recognizer);
+    await new SessionReplayer(recording, { speed: Infinity }).replayThrough(recognizer);
+    expect(replayed).toEqual(events);
+  });
+
+  test("replayThrough() rejects when a write fails", async () => {
+    const { recording } = await recordSession();
+    const recognizer = replayRecognizer();
+    const failure = new ASRError(ErrorCode.WRITE_FAILED, "write failed");
+    jest.spyOn(recognizer, "write").mockRejectedValueOnce(failure);
+
+    await expect(
+      new SessionReplayer(recording, { speed: Infinity }).replayThrough(recognizer),
+    ).rejects.toBe(failure);
+    recognizer.reset();
+  });
+
+  test("keeps the recorded pace unless sped up", async () => {
+    const recording: SessionRecording = {
+      header: {
+        format: "trtc-asr-session",
+        version: 1,
+        engine: "16k_zh",
+        voiceFormat: 1,
+        voiceId: "v",
+        startedAt: new Date(0).toISOString(),
+        params: {},
+      },
+      events: [
+        { t: 0, type: "open", voiceId: "v" },
+        { t: 200, type: "message", response: { code: 0, final: 1 } as any },
+      ],
+    };
+    const started = Date.now();
+    await new SessionReplayer(recording, { speed: 2 }).replayTo({});
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  test("rejects files that are not recordings", () => {
+    expect(() => parseRecording('{"format":"other"}\n')).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+    expect(() => parseRecording("not json")).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import {
+  SubtitleFormat,
+  SubtitleWriter,
+  formatSubtitles,
+  segmentsFromFileResult,
+  segmentsFromSentenceResult,
+  segmentsFromTranscript,
+} from "../src/subtitles";
+import { TranscriptAggregator } from "../src/transcript-aggregator";
+
+describe("subtitles", () => {
+  test("writes SRT from file recognition results using word timings", () => {
+    const segments = segmentsFromFileResult([
+      {
+        finalSentence: "Hello world.",
+        sliceSentence: "",
+        writtenText: "",
+        startMs: 1000,
+        endMs: 2600,
+        wordsNum: 2,
+        words: [
+          { word: "hello", offsetStartMs: 100, offsetEndMs: 500 },
+          { word: "world", offsetStartMs: 700, offsetEndMs: 1500 },
+        ],
+        speechSpeed: 0,
+        silenceTime: 0,
+      },
+    ]);
+
+    expect(segments[0].words![1]).toEqual({ text: "world", startMs: 1700, endMs: 2500 });
+    expect(formatSubtitles(segments, "srt")).toBe(
+      "1\n00:00:01,100 --> 00:00:02,500\nHello world.\n\n",
+    );
+  });
+
+  test("wraps CJK text at any character but not before punctuation", () => {
+    const text = "今天天气很好我们一起去公园散步吧，然后再去吃饭。";
+    const cues = new SubtitleWriter("srt", {
+      maxCharsPerLine: 16, // 8 CJK characters
+      maxLines: 2,
+      minDuration: 0,
+    }).cues([{ text, startMs: 0, endMs: 2400 }]);
+
+    expect(cues.map((c) => c.lines)).toEqual([
+      ["今天天气很好我们", "一起去公园散步吧，"],
+      ["然后再去吃饭。"],
+    ]);
+    // Evenly interpolated: 100ms per character.
+    expect(cues[0]).toMatchObject({ startMs: 0, endMs: 1700 });
+    expect(cues[1]).toMatchObject({ startMs: 1700, endMs: 2400 });
+  });
+
+  test("wraps Latin text at spaces and escapes WebVTT markup", () => {
+    const vtt = formatSubtitles(
+      [{ text: "one two three four <five> & six", startMs: 0, endMs: 3000 }],
+      "vtt",
+      { maxCharsPerLine: 10, maxLines: 2 },
+    );
+
+    expect(vtt).toBe(
+      "WEBVTT\n\n" +
+        "00:00:00.000 --> 00:00:01.800\none two\nthree four\n\n" +
+        "00:00:01.800 --> 00:00:03.000\n&lt;five&gt; &amp;\nsix\n\n",
+    );
+  });
+
+  test("writes a TTML document", () => {
+    const ttml = formatSubtitles(
+      [{ text: "A & B", startMs: 500, endMs: 2000 }],
+      "ttml",
+      { language: "en" },
+    );
+
+    expect(ttml).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en">\n' +
+        "  <body>\n    <div>\n" +
+        '      <p begin="00:00:00.500" end="00:00:02.000">A &amp; B</p>\n' +
+        "    </div>\n  </body>\n</tt>\n",
+    );
+  });
+
+  test("applies minimum and maximum cue durations", () => {
+    const writer = new SubtitleWriter("srt", { minDuration: 1000, maxDuration: 3000 });
+    const cues = writer.cues([
+      { text: "hi", startMs: 0, endMs: 200 },
+      { text: "ok", startMs: 600, endMs: 800 },
+      { text: "a b c d e f g h", startMs: 5000, endMs: 13000 },
+    ]);
+
+    // Extended, but not into the next cue.
+    expect(cues[0]).toMatchObject({ startMs: 0, endMs: 600 });
+    expect(cues[1]).toMatchObject({ startMs: 600, endMs: 1600 });
+    const long = cues.slice(2);
+    expect(long.length).toBeGreaterThan(1);
+    for (const cue of long) {
+      expect(cue.endMs - cue.startMs).toBeLessThanOrEqual(3000);
+    }
+    expect(long[long.length - 1].endMs).toBe(13000);
+  });
+
+  test("rejects invalid formats and limits", () => {
+    const invalid = (message: string) =>
+      expect.objectContaining({
+        code: ErrorCode.INVALID_PARAM,
+        message: expect.stringContaining(message),
+      });
+
+    expect(() => new SubtitleWriter("ass" as SubtitleFormat)).toThrow(
+      invalid("unsupported subtitle format: ass"),
+    );
+    expect(() => formatSubtitles([], "srt", { maxCharsPerLine: 0 })).toThrow(
+      invalid("invalid maxCharsPerLine: must be a positive integer, got 0"),
+    );
+    expect(() => new SubtitleWriter("vtt", { maxLines: 1.5 })).toThrow(invalid("maxLines"));
+    expect(() => new SubtitleWriter("vtt", { maxDuration: -1 })).toThrow(invalid("maxDuration"));
+    expect(() => new SubtitleWriter("vtt", { minDuration: 8000 })).toThrow(
+      invalid("invalid minDuration"),
+    );
+    new SubtitleWriter("vtt", { minDuration: 0, maxLines: 1 });
+  });
+
+  test("converts sentence recognition and transcript results", () => {
+    expect(
+      segmentsFromSentenceResult({
+        result: "你好",
+        audioDuration: 1500,
+        wordSize: 0,
+        wordList: [],
+        requestId: "r",
+      }),
+    ).toEqual([{ text: "你好", startMs: 0, endMs: 1500, words: undefined }]);
+
+    const transcript = new TranscriptAggregator();
+    transcript.update(resp(2, 0, "第一句。", 0, 900));
+    transcript.update(resp(1, 1, "第二", 1000, 1300));
+    expect(segmentsFromTranscript(transcript.sentences)).toEqual([
+      { text: "第一句。", startMs: 0, endMs: 900, words: undefined },
+    ]);
+  });
+
+  test("emits cues incrementally as real-time sentences end", () => {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+    const chunks: string[] = [];
+    const detach = new SubtitleWriter("srt").attach(recognizer, (c) => chunks.push(c));
+
+    recognizer.handleMessage(JSON.stringify(resp(1, 0, "你好", 0, 500)));
+    recognizer.handleMessage(JSON.stringify(resp(2, 0, "你好。", 0, 800)));
+    recognizer.handleMessage(JSON.stringify(resp(2, 1, "再见。", 2000, 3000)));
+    detach();
+    recognizer.handleMessage(JSON.stringify(resp(2, 2, "忽略。", 4000, 5000)));
+
+    expect(chunks).toEqual([
+      "",
+      "1\n00:00:00,000 --> 00:00:01,000\n你好。\n\n",
+      "2\n00:00:02,000 --> 00:00:03,000\n再见。\n\n",
+    ]);
+  });
+});
+
+function resp(
+  sliceType: number,
+  index: number,
+  text: string,
+  start: number,
+  end: number,
+) {
+  return {
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final: 0,
+    result: {
+      slice_type: sliceType,
+      index,
+      start_time: start,
+      end_time: end,
+      voice_text_str: text,
+      word_size: 0,
+      word_list: [],
+    },
+  };
+}
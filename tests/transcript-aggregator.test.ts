@@ -0,0 +1,137 @@
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { TranscriptAggregator } from "../src/transcript-aggregator";
+
+function resp(
+  sliceType: number,
+  index: number,
+  text: string,
+  start: number,
+  end: number,
+) {
+  return {
+    code: 0,
+    message: "success",
+    voice_id: "voice-1",
+    message_id: `m-${index}-${sliceType}`,
+    final: 0,
+    result: {
+      slice_type: sliceType,
+      index,
+      start_time: start,
+      end_time: end,
+      voice_text_str: text,
+      word_size: 0,
+      word_list: [],
+    },
+  };
+}
+
+describe("TranscriptAggregator", () => {
+  test("tracks partial and final text with revisions", () => {
+    const transcript = new TranscriptAggregator();
+    transcript.update(resp(0, 0, "", 0, 0));
+    transcript.update(resp(1, 0, "你好", 0, 400));
+    transcript.update(resp(1, 0, "你好世界", 0, 900));
+
+    expect(transcript.getText()).toBe("你好世界");
+    expect(transcript.getText({ finalOnly: true })).toBe("");
+
+    transcript.update(resp(2, 0, "你好，世界。", 0, 1000));
+    transcript.update(resp(1, 1, "今天", 1200, 1500));
+
+    expect(transcript.getText()).toBe("你好，世界。今天");
+    expect(transcript.getText({ finalOnly: true })).toBe("你好，世界。");
+
+    const [first, second] = transcript.sentences;
+    expect(first).toMatchObject({ index: 0, final: true, startTime: 0, endTime: 1000 });
+    expect(first.revisions.map((r) => [r.sliceType, r.text])).toEqual([
+      [0, ""],
+      [1, "你好"],
+      [1, "你好世界"],
+      [2, "你好，世界。"],
+    ]);
+    expect(second).toMatchObject({ index: 1, final: false, text: "今天" });
+  });
+
+  test("orders out-of-order indexes by start time", () => {
+    const transcript = new TranscriptAggregator({ separator: " " });
+    transcript.update(resp(2, 2, "three", 2000, 2500));
+    transcript.update(resp(2, 0, "one", 0, 500));
+    transcript.update(resp(2, 1, "two", 1000, 1500));
+
+    expect(transcript.getText()).toBe("one two three");
+    expect(transcript.sentences.map((s) => s.index)).toEqual([0, 1, 2]);
+  });
+
+  test("ignores duplicates and stale partials of final sentences", () => {
+    const transcript = new TranscriptAggregator();
+    const finals: string[] = [];
+    transcript.on("sentenceFinal", (s) => finals.push(s.text));
+
+    transcript.update(resp(1, 0, "hello", 0, 400));
+    transcript.update(resp(1, 0, "hello", 0, 400));
+    transcript.update(resp(2, 0, "hello world", 0, 800));
+    transcript.update(resp(2, 0, "hello world", 0, 800));
+    transcript.update(resp(1, 0, "hello", 0, 400));
+
+    expect(transcript.sentences).toHaveLength(1);
+    expect(transcript.sentences[0]).toMatchObject({ text: "hello world", final: true });
+    expect(transcript.sentences[0].revisions).toHaveLength(2);
+    expect(finals).toEqual(["hello world"]);
+  });
+
+  test("starts a new sentence when a final index is reused later", () => {
+    const transcript = new TranscriptAggregator({ separator: "|" });
+    transcript.update(resp(2, 0, "first", 0, 800));
+    transcript.update(resp(1, 0, "second", 1000, 1400));
+    transcript.update(resp(2, 0, "second one", 1000, 1600));
+
+    expect(transcript.getText()).toBe("first|second one");
+    expect(transcript.sentences.map((s) => s.final)).toEqual([true, true]);
+  });
+
+  test("round-trips through JSON and keeps aggregating", () => {
+    const transcript = new TranscriptAggregator();
+    transcript.update(resp(2, 0, "第一句。", 0, 800));
+    transcript.update(resp(1, 1, "第二", 1000, 1300));
+
+    const restored = TranscriptAggregator.fromJSON(JSON.stringify(transcript));
+    expect(restored.toJSON()).toEqual(transcript.toJSON());
+
+    restored.update(resp(2, 1, "第二句。", 1000, 1800));
+    expect(restored.getText({ finalOnly: true })).toBe("第一句。第二句。");
+    expect(restored.sentences[1].revisions).toHaveLength(2);
+  });
+
+  test("rejects unknown snapshots", () => {
+    expect(() => TranscriptAggregator.fromJSON("{")).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+    expect(() =>
+      TranscriptAggregator.fromJSON({ version: 2 } as any),
+    ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_PARAM }));
+  });
+
+  test("subscribes to a recognizer until detached", () => {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+    const transcript = new TranscriptAggregator().attach(recognizer);
+
+    recognizer.handleMessage(JSON.stringify(resp(1, 0, "你好", 0, 400)));
+    recognizer.handleMessage(JSON.stringify(resp(2, 0, "你好。", 0, 600)));
+    recognizer.handleMessage(
+      JSON.stringify({ ...resp(0, 0, "", 0, 0), final: 1, result: undefined }),
+    );
+
+    expect(transcript.getText()).toBe("你好。");
+    expect(transcript.isComplete).toBe(true);
+    expect(transcript.toJSON().voiceId).toBe("voice-1");
+
+    transcript.detach();
+    recognizer.handleMessage(JSON.stringify(resp(2, 1, "再见。", 1000, 1600)));
+    expect(transcript.sentences).toHaveLength(1);
+    expect(recognizer.listenerCount("sentenceEnd")).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+import { VoiceFormat } from "../src/audio-format";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { EnergyVad } from "../src/vad";
+
+const SAMPLE_RATE = 16000;
+
+function silence(ms: number): Buffer {
+  return Buffer.alloc((SAMPLE_RATE / 1000) * ms * 2);
+}
+
+function tone(ms: number, amplitude = 10000, freq = 440): Buffer {
+  const samples = (SAMPLE_RATE / 1000) * ms;
+  const buf = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const v = amplitude * Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE);
+    buf.writeInt16LE(Math.round(v), i * 2);
+  }
+  return buf;
+}
+
+function createRunningRecognizer() {
+  const credential = new Credential(1300000000, 1400000000, "secret");
+  const recognizer = new SpeechRecognizer(credential, "16k_zh") as any;
+  const audio: Buffer[] = [];
+  recognizer.state = 2; // RUNNING
+  recognizer.ws = {
+    bufferedAmount: 0,
+    send: (data: any, cb: (err?: Error) => void) => {
+      if (typeof data !== "string") audio.push(data);
+      cb?.();
+    },
+    close: () => undefined,
+  };
+  return { recognizer, audio };
+}
+
+function sentenceEnd(start: number, end: number) {
+  return JSON.stringify({
+    code: 0,
+    message: "success",
+    voice_id: "v",
+    message_id: "m",
+    final: 0,
+    result: {
+      slice_type: 2,
+      index: 0,
+      start_time: start,
+      end_time: end,
+      voice_text_str: "text",
+      word_size: 1,
+      word_list: [
+        { word: "text", start_time: start + 50, end_time: end - 50, stable_flag: 1 },
+      ],
+    },
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("EnergyVad", () => {
+  const options = { hangoverMs: 200, preRollMs: 100, minSpeechMs: 60 };
+
+  test("sends speech with pre-roll and hangover only", () => {
+    const vad = new EnergyVad(SAMPLE_RATE, options);
+    const out = vad.process(
+      Buffer.concat([silence(1000), tone(500), silence(1000)]),
+    );
+
+    expect(out.events).toEqual([
+      { type: "speechStart", offsetMs: 1000 },
+      { type: "speechEnd", offsetMs: 1500 },
+    ]);
+    expect(out.chunks).toHaveLength(1);
+    expect(out.chunks[0].offsetMs).toBe(900);
+    expect(out.chunks[0].data).toHaveLength(800 * 32); // 900ms..1700ms
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  test("carries partial frames across calls", () => {
+    const vad = new EnergyVad(SAMPLE_RATE, options);
+    const input = Buffer.concat([silence(300), tone(300)]);
+    const events = [];
+    for (let offset = 0; offset < input.length; offset += 250) {
+      events.push(...vad.process(input.subarray(offset, offset + 250)).events);
+    }
+
+    expect(events).toEqual([{ type: "speechStart", offsetMs: 300 }]);
+    expect(vad.isSpeaking).toBe(true);
+    expect(vad.flush().events).toEqual([{ type: "speechEnd", offsetMs: 600 }]);
+  });
+
+  test("ignores bursts shorter than minSpeechMs", () => {
+    const vad = new EnergyVad(SAMPLE_RATE, options);
+    const out = vad.process(
+      Buffer.concat([silence(200), tone(40), silence(200)]),
+    );
+
+    expect(out.events).toEqual([]);
+    expect(out.chunks).toEqual([]);
+  });
+
+  test("rejects invalid options", () => {
+    const create = (options: object) => () => new EnergyVad(SAMPLE_RATE, options);
+    expect(create({ frameMs: 0 })).toThrow(RangeError);
+    expect(create({ frameMs: 0.05 })).toThrow(/invalid frameMs: must hold at least one sample/);
+    expect(create({ frameMs: NaN })).toThrow(/invalid frameMs/);
+    expect(create({ energyThreshold: -Infinity })).toThrow(/invalid energyThreshold/);
+    expect(create({ zcrThreshold: -0.1 })).toThrow(/invalid zcrThreshold/);
+    expect(create({ hangoverMs: -1 })).toThrow(/invalid hangoverMs/);
+    expect(create({ hangoverMs: Infinity })).toThrow(/invalid hangoverMs/);
+    expect(create({ minSpeechMs: -20 })).toThrow(/invalid minSpeechMs/);
+    expect(create({ preRollMs: NaN })).toThrow(/invalid preRollMs/);
+    // A frame of one sample is enough.
+    expect(new EnergyVad(SAMPLE_RATE, { frameMs: 0.0625 }).process(silence(1))).toEqual({
+      chunks: [],
+      events: [],
+    });
+  });
+
+  test("counts quiet frames with a high zero-crossing rate as speech", () => {
+    // About -43 dBFS, below the -40 dBFS energy threshold.
+    const hiss = tone(200, 330, 4000);
+    expect(new EnergyVad(SAMPLE_RATE, options).process(hiss).events).toEqual([
+      { type: "speechStart", offsetMs: 0 },
+    ]);
+
+    const hum = tone(200, 330, 100);
+    expect(new EnergyVad(SAMPLE_RATE, options).process(hum).events).toEqual([]);
+  });
+});
+
+describe("SpeechRecognizer local VAD", () => {
+  test("skips silence and reports times on the written timeline", async () => {
+    const { recognizer, audio } = createRunningRecognizer();
+    recognizer.localVad = new EnergyVad(SAMPLE_RATE, {
+      hangoverMs: 200,
+      preRollMs: 100,
+    });
+    const speech: [string, number][] = [];
+    recognizer.on("speechStart", (ms: number) => speech.push(["start", ms]));
+    recognizer.on("speechEnd", (ms: number) => speech.push(["end", ms]));
+    const ends: any[] = [];
+    recognizer.on("sentenceEnd", (resp: any) => ends.push(resp.result));
+
+    const input = Buffer.concat([
+      silence(1000),
+      tone(500),
+      silence(1000),
+      tone(300),
+      silence(500),
+    ]);
+    for (let offset = 0; offset < input.length; offset += 3200) {
+      await recognizer.write(input.subarray(offset, offset + 3200));
+    }
+
+    // 900..1700ms and 2400..3000ms of the written audio.
+    const sent = audio.reduce((n, b) => n + b.length, 0);
+    expect(sent).toBe(1400 * 32);
+    expect(speech).toEqual([
+      ["start", 1000],
+      ["end", 1500],
+      ["start", 2500],
+      ["end", 2800],
+    ]);
+
+    recognizer.handleMessage(sentenceEnd(100, 800));
+    recognizer.handleMessage(sentenceEnd(900, 1200));
+
+    expect(ends[0]).toMatchObject({ start_time: 1000, end_time: 1700 });
+    expect(ends[0].word_list[0]).toMatchObject({ start_time: 1050, end_time: 1650 });
+    expect(ends[1]).toMatchObject({ start_time: 2500, end_time: 2800 });
+  });
+
+  test("keep-alive silence does not shift result times", async () => {
+    const { recognizer } = createRunningRecognizer();
+    const ends: any[] = [];
+    recognizer.on("sentenceEnd", (resp: any) => ends.push(resp.result));
+
+    await recognizer.write(tone(1000));
+    await recognizer.pause({ keepAliveInterval: 20 });
+    await sleep(50);
+    recognizer.resume();
+    const keepAliveMs = recognizer.getSendStats().sentBytes / 32 - 1000;
+    await recognizer.write(tone(500));
+
+    expect(keepAliveMs).toBeGreaterThan(0);
+    recognizer.handleMessage(sentenceEnd(500, 1000 + keepAliveMs + 300));
+
+    expect(ends[0]).toMatchObject({ start_time: 500, end_time: 1300 });
+  });
+
+  test("requires PCM input", async () => {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, "16k_zh");
+    recognizer.setVoiceFormat(VoiceFormat.MP3);
+    recognizer.setLocalVad({});
+
+    await expect(recognizer.start()).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAM,
+    });
+  });
+});
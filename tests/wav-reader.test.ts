@@ -0,0 +1,269 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Credential } from "../src/credential";
+import { ErrorCode } from "../src/errors";
+import { PcmConverter } from "../src/pcm-converter";
+import { SpeechRecognizer } from "../src/speech-recognizer";
+import { WavEncoding, WavReader, wavInputFormat } from "../src/wav-reader";
+
+interface WavSpec {
+  sampleRate?: number;
+  channels?: number;
+  bits?: number;
+  encoding?: number;
+  extensible?: boolean;
+  dataSize?: number;
+  before?: Buffer[];
+  after?: Buffer[];
+}
+
+function riffChunk(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "latin1");
+  header.writeUInt32LE(body.length, 4);
+  const pad = body.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0);
+  return Buffer.concat([header, body, pad]);
+}
+
+function buildWav(data: Buffer, spec: WavSpec = {}): Buffer {
+  const sampleRate = spec.sampleRate ?? 16000;
+  const channels = spec.channels ?? 1;
+  const bits = spec.bits ?? 16;
+  const blockAlign = (channels * bits) / 8;
+
+  const fmt = Buffer.alloc(spec.extensible ? 40 : 16);
+  fmt.writeUInt16LE(spec.extensible ? WavEncoding.EXTENSIBLE : spec.encoding ?? 1, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(bits, 14);
+  if (spec.extensible) {
+    fmt.writeUInt16LE(22, 16); // cbSize
+    fmt.writeUInt16LE(bits, 18);
+    fmt.writeUInt32LE(0x4, 20); // channel mask
+    fmt.writeUInt16LE(spec.encoding ?? 1, 24); // sub-format GUID prefix
+  }
+
+  const dataChunk = riffChunk("data", data);
+  if (spec.dataSize !== undefined) dataChunk.writeUInt32LE(spec.dataSize, 4);
+
+  const body = Buffer.concat([
+    Buffer.from("WAVE", "latin1"),
+    riffChunk("fmt ", fmt),
+    ...(spec.before ?? []),
+    dataChunk,
+    ...(spec.after ?? []),
+  ]);
+  const header = Buffer.alloc(8);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function pushAll(reader: WavReader, wav: Buffer, chunk: number): Buffer {
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < wav.length; offset += chunk) {
+    parts.push(reader.push(wav.subarray(offset, offset + chunk)));
+  }
+  reader.end();
+  return Buffer.concat(parts);
+}
+
+function pcm(bytes: number): Buffer {
+  const buf = Buffer.alloc(bytes);
+  for (let i = 0; i < bytes; i++) buf[i] = (i * 7 + 3) & 0xff;
+  return buf;
+}
+
+describe("WavReader", () => {
+  test("returns the payload for any chunking of the input", () => {
+    const data = pcm(1000);
+    const wav = buildWav(data);
+    for (const size of [1, 7, 44, wav.length]) {
+      const reader = new WavReader();
+      expect(pushAll(reader, wav, size).equals(data)).toBe(true);
+      expect(reader.format).toMatchObject({
+        encoding: WavEncoding.PCM,
+        channels: 1,
+        sampleRate: 16000,
+        bitsPerSample: 16,
+        blockAlign: 2,
+        dataSize: 1000,
+      });
+    }
+  });
+
+  test("skips LIST and fact chunks and ignores trailing chunks", () => {
+    const data = pcm(600);
+    const wav = buildWav(data, {
+      before: [
+        riffChunk("LIST", Buffer.from("INFOISFT\x05\x00\x00\x00test\x00", "latin1")),
+        riffChunk("fact", Buffer.alloc(4)),
+      ],
+      after: [riffChunk("LIST", Buffer.from("INFOjunk", "latin1"))],
+    });
+
+    expect(pushAll(new WavReader(), wav, 13).equals(data)).toBe(true);
+  });
+
+  test("resolves WAVE_FORMAT_EXTENSIBLE sub-formats", () => {
+    const reader = new WavReader();
+    pushAll(
+      reader,
+      buildWav(pcm(64), {
+        extensible: true,
+        encoding: WavEncoding.IEEE_FLOAT,
+        bits: 32,
+        channels: 2,
+        sampleRate: 48000,
+      }),
+      16,
+    );
+
+    expect(reader.format!.encoding).toBe(WavEncoding.IEEE_FLOAT);
+    expect(wavInputFormat(reader.format!)).toEqual({
+      sampleRate: 48000,
+      channels: 2,
+      sampleFormat: "float32",
+    });
+  });
+
+  test.each([0xffffffff, 0])(
+    "treats data size %s as streaming until the end of input",
+    (dataSize) => {
+      const data = pcm(500);
+      const reader = new WavReader();
+
+      expect(pushAll(reader, buildWav(data, { dataSize }), 100).equals(data)).toBe(true);
+      expect(reader.format!.dataSize).toBeNull();
+    },
+  );
+
+  test("rejects non-WAV input and missing data chunks", () => {
+    const mp3 = Buffer.from("ID3\x04\x00\x00\x00\x00\x00\x00\x00\x00", "latin1");
+    expect(() => new WavReader().push(mp3)).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+
+    const headerOnly = buildWav(Buffer.alloc(0)).subarray(0, 36);
+    const reader = new WavReader();
+    reader.push(headerOnly);
+    expect(() => reader.end()).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+
+    // An oversized fmt chunk is rejected before its body is buffered.
+    const bigFmt = Buffer.alloc(20);
+    bigFmt.write("RIFF", 0, "latin1");
+    bigFmt.write("WAVEfmt ", 8, "latin1");
+    bigFmt.writeUInt32LE(0x7fffffff, 16);
+    expect(() => new WavReader().push(bigFmt)).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.INVALID_PARAM,
+        message: expect.stringContaining("wav fmt chunk too large"),
+      }),
+    );
+  });
+
+  test("maps sample encodings to converter formats", () => {
+    const format = (bits: number, encoding = 1) => {
+      const reader = new WavReader();
+      pushAll(reader, buildWav(Buffer.alloc(0), { bits, encoding, dataSize: 0 }), 64);
+      return reader.format!;
+    };
+
+    expect(wavInputFormat(format(8)).sampleFormat).toBe("uint8");
+    expect(wavInputFormat(format(24)).sampleFormat).toBe("int24");
+    expect(wavInputFormat(format(32)).sampleFormat).toBe("int32");
+    expect(() => wavInputFormat(format(64, WavEncoding.IEEE_FLOAT))).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAM }),
+    );
+  });
+});
+
+describe("SpeechRecognizer WAV input", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "trtc-asr-wav-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function createRunningRecognizer(engine = "16k_zh") {
+    const credential = new Credential(1300000000, 1400000000, "secret");
+    const recognizer = new SpeechRecognizer(credential, engine) as any;
+    const audio: Buffer[] = [];
+    recognizer.state = 2; // RUNNING
+    recognizer.ws = {
+      bufferedAmount: 0,
+      send: (data: any, cb?: (err?: Error) => void) => {
+        if (typeof data !== "string") audio.push(data);
+        cb?.();
+      },
+      close: () => undefined,
+    };
+    recognizer.donePromise = Promise.resolve();
+    return { recognizer, audio };
+  }
+
+  async function writeWav(name: string, wav: Buffer): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, wav);
+    return file;
+  }
+
+  test("streamFile strips the header of WAV files", async () => {
+    const data = pcm(16000); // 500ms at 16kHz
+    const file = await writeWav("ok.wav", buildWav(data, {
+      after: [riffChunk("LIST", Buffer.from("INFOjunk", "latin1"))],
+    }));
+    const { recognizer, audio } = createRunningRecognizer();
+
+    await recognizer.streamFile(file, { speed: "max" });
+
+    expect(Buffer.concat(audio).equals(data)).toBe(true);
+    expect(audio.map((b) => b.length)).toEqual([6400, 6400, 3200]);
+  });
+
+  test("rejects audio that does not match the engine", async () => {
+    const file = await writeWav("8k.wav", buildWav(pcm(1600), { sampleRate: 8000 }));
+    const { recognizer, audio } = createRunningRecognizer("16k_zh");
+
+    await expect(recognizer.streamFile(file, { speed: "max" })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAM,
+      message: expect.stringContaining("8000Hz"),
+    });
+    expect(audio).toHaveLength(0);
+  });
+
+  test("converts mismatched audio when asked to", async () => {
+    const wav = buildWav(Buffer.alloc(8000 * 2 * 2), { sampleRate: 8000, channels: 2 });
+    const { recognizer, audio } = createRunningRecognizer("16k_zh");
+
+    const format = await recognizer.streamWav([wav], { speed: "max", convert: true });
+
+    expect(format).toMatchObject({ sampleRate: 8000, channels: 2 });
+    const sent = audio.reduce((n, b) => n + b.length, 0);
+    expect(Math.abs(sent - 32000)).toBeLessThanOrEqual(2); // 1s at 16kHz
+  });
+
+  test("keeps the input format's converter for later writes", async () => {
+    const { recognizer, audio } = createRunningRecognizer("16k_zh");
+    // As set up by setInputFormat({ sampleRate: 8000 }) at start().
+    recognizer.converter = new PcmConverter({ sampleRate: 8000 }, 16000);
+    const data = pcm(16000);
+
+    await recognizer.streamWav([buildWav(data)], { speed: "max", autoStop: false });
+    expect(Buffer.concat(audio).equals(data)).toBe(true);
+
+    audio.length = 0;
+    await recognizer.write(Buffer.alloc(1600)); // 100ms at 8kHz
+    const sent = audio.reduce((n, b) => n + b.length, 0);
+    expect(Math.abs(sent - 3200)).toBeLessThanOrEqual(64);
+  });
+});